@@ -34,5 +34,8 @@ export * from "./src/modules/llm.ts";
 // Utilities (includes KV helper, errors, CRUD service, logger, rate limiter, document utils)
 export * from "./src/modules/utils.ts";
 
+// Testing utilities (mock LLM, deterministic embeddings, record/replay)
+export * from "./src/modules/testing.ts";
+
 // High-level factory functions
 export * from "./src/modules/factories.ts";
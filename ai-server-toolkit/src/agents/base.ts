@@ -1,5 +1,5 @@
 // Functional agent implementation
-import { createClaudeLLM } from "../llm/claude.ts";
+import { createLLM } from "../llm/factory.ts";
 import type {
   AgentConfig,
   AgentResult,
@@ -7,7 +7,10 @@ import type {
   LLMMessage,
   LLMModel,
   ToolDefinition,
+  ToolResultContentBlock,
+  ToolUseContentBlock,
 } from "../types.ts";
+import { createAssistantMessage, createToolResultBlock, getToolUseBlocks } from "../llm/content.ts";
 import { createSubLogger } from "../utils/logger.ts";
 
 const logger = createSubLogger("agent-base");
@@ -20,8 +23,13 @@ export interface AgentState {
   llm: LLMModel;
   memory: LLMMessage[];
   memoryEnabled: boolean;
+  maxIterations: number;
 }
 
+const DEFAULT_MAX_ITERATIONS = 10;
+// Messages kept in agent memory
+const MAX_MEMORY_MESSAGES = 20;
+
 /**
  * Creates an AI agent with tools and memory capabilities.
  *
@@ -55,8 +63,8 @@ export function createAgent(config: AgentConfig): AgentState {
   ) {
     llm = config.llm as LLMModel;
   } else {
-    // Default to Claude if config object passed
-    llm = createClaudeLLM(config.llm as LLMConfig);
+    // Create a client for the configured provider
+    llm = createLLM(config.llm as LLMConfig);
   }
 
   return {
@@ -67,6 +75,7 @@ export function createAgent(config: AgentConfig): AgentState {
     llm,
     memory: [],
     memoryEnabled: config.memory || false,
+    maxIterations: config.maxIterations ?? DEFAULT_MAX_ITERATIONS,
   };
 }
 
@@ -74,7 +83,12 @@ export function createAgent(config: AgentConfig): AgentState {
  * Executes an agent with the given input and optional context.
  *
  * The agent processes the input using its LLM and tools, maintaining
- * conversation memory if enabled. Automatically handles tool execution.
+ * conversation memory if enabled. When the model requests tools, the matching
+ * handlers are run and their results are sent back until the model stops
+ * requesting tools. Memory keeps the tool_use and tool_result messages of each
+ * turn, so follow-up questions can refer to earlier tool output. If the model still
+ * requests tools after `maxIterations` rounds, the result has `success: false` and
+ * the turn is not added to memory.
  *
  * @param state Agent state from createAgent
  * @param input User input text
@@ -114,94 +128,76 @@ export async function runAgent(
       });
     }
 
-    // Add user input
+    // Messages of this turn, kept in memory with the tool rounds
+    const turnStart = messages.length;
     messages.push({ role: "user", content: input });
 
-    // Generate response using the LLMModel interface
-    const response = await state.llm.generateResponse(
-      messages,
-      state.tools.length > 0 ? state.tools : undefined,
-    );
-
-    // Handle tool calls if present
+    const tools = state.tools.length > 0 ? state.tools : undefined;
     const toolCalls: Array<{ tool: string; params: Record<string, unknown>; result: unknown }> = [];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let hasUsage = false;
+    let iterations = 0;
+    let limitReached = false;
 
-    // Enhanced tool call detection with JSON parsing
-    if (state.tools.length > 0 && response.content.includes('"tool_calls"')) {
-      try {
-        // Try to parse JSON response with tool calls
-        const jsonMatch = response.content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          if (parsed.tool_calls && Array.isArray(parsed.tool_calls)) {
-            for (const call of parsed.tool_calls) {
-              const tool = state.tools.find((t) => t.name === call.name);
-              if (tool) {
-                try {
-                  const result = await tool.handler(call.parameters || {});
-                  toolCalls.push({
-                    tool: tool.name,
-                    params: call.parameters || {},
-                    result,
-                  });
-                } catch (error) {
-                  toolCalls.push({
-                    tool: tool.name,
-                    params: call.parameters || {},
-                    result: {
-                      error: error instanceof Error ? error.message : String(error),
-                    },
-                  });
-                }
-              }
-            }
-          }
-        }
-      } catch (parseError) {
-        logger.warn("Failed to parse tool calls from response, using fallback detection", {
-          error: parseError instanceof Error ? parseError.message : String(parseError),
+    // Tool-use loop: keep sending tool results back until the model stops requesting tools
+    let response = await state.llm.generateResponse(messages, tools);
+    while (true) {
+      if (response.usage) {
+        hasUsage = true;
+        usage.promptTokens += response.usage.promptTokens;
+        usage.completionTokens += response.usage.completionTokens;
+        usage.totalTokens += response.usage.totalTokens;
+      }
+
+      const requestedCalls = getToolUseBlocks(response);
+      if (requestedCalls.length === 0) {
+        break;
+      }
+
+      if (iterations >= state.maxIterations) {
+        logger.warn("Agent reached max tool iterations with tool calls pending", {
+          agentName: state.name,
+          maxIterations: state.maxIterations,
         });
-        // Fallback to simple detection
-        for (const tool of state.tools) {
-          if (response.content.includes(tool.name)) {
-            try {
-              const result = await tool.handler({});
-              toolCalls.push({
-                tool: tool.name,
-                params: {},
-                result,
-              });
-            } catch (error) {
-              toolCalls.push({
-                tool: tool.name,
-                params: {},
-                result: {
-                  error: error instanceof Error ? error.message : String(error),
-                },
-              });
-            }
-          }
-        }
+        limitReached = true;
+        break;
       }
-    }
+      iterations++;
 
-    // Update memory if enabled
-    if (state.memoryEnabled) {
-      state.memory.push({ role: "user", content: input });
-      state.memory.push({ role: "assistant", content: response.content });
+      messages.push(createAssistantMessage(response));
 
-      // Keep memory within reasonable limits (last 20 messages)
-      if (state.memory.length > 20) {
-        state.memory = state.memory.slice(-20);
+      const toolResults: ToolResultContentBlock[] = [];
+      for (const call of requestedCalls) {
+        const { result, isError } = await executeToolCall(state, call);
+        toolCalls.push({ tool: call.name, params: call.input, result });
+        toolResults.push(createToolResultBlock(call.id, result, isError));
       }
+
+      messages.push({ role: "user", content: toolResults });
+      response = await state.llm.generateResponse(messages, tools);
     }
 
-    return {
-      success: true,
+    const result: AgentResult = {
+      success: !limitReached,
       content: response.content,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      usage: response.usage,
+      usage: hasUsage ? usage : undefined,
     };
+    if (limitReached) {
+      // The last response still requests tools; the turn is not remembered
+      return {
+        ...result,
+        error: `Agent reached the maximum of ${state.maxIterations} tool iterations`,
+      };
+    }
+
+    // Update memory if enabled: the input, every tool round and the final answer
+    if (state.memoryEnabled) {
+      state.memory.push(...messages.slice(turnStart), createAssistantMessage(response));
+      state.memory = trimMemory(state.memory, MAX_MEMORY_MESSAGES);
+    }
+
+    return result;
   } catch (error) {
     return {
       success: false,
@@ -211,6 +207,43 @@ export async function runAgent(
   }
 }
 
+// Keeps the last `limit` messages, starting at a user input so that no tool_result is
+// separated from the tool_use it answers
+function trimMemory(memory: LLMMessage[], limit: number): LLMMessage[] {
+  if (memory.length <= limit) return memory;
+  const trimmed = memory.slice(-limit);
+  const start = trimmed.findIndex((message) =>
+    message.role === "user" && typeof message.content === "string"
+  );
+  return start === -1 ? [] : trimmed.slice(start);
+}
+
+// Runs the handler of the tool requested by the model, capturing failures as error results
+async function executeToolCall(
+  state: AgentState,
+  call: ToolUseContentBlock,
+): Promise<{ result: unknown; isError: boolean }> {
+  const tool = state.tools.find((t) => t.name === call.name);
+  if (!tool) {
+    logger.warn("Model requested unknown tool", { agentName: state.name, tool: call.name });
+    return { result: { error: `Unknown tool: ${call.name}` }, isError: true };
+  }
+
+  try {
+    return { result: await tool.handler(call.input), isError: false };
+  } catch (error) {
+    logger.warn("Tool execution failed", {
+      agentName: state.name,
+      tool: call.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      result: { error: error instanceof Error ? error.message : String(error) },
+      isError: true,
+    };
+  }
+}
+
 /**
  * Adds a tool to the agent's available tools.
  *
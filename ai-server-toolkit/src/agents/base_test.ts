@@ -0,0 +1,123 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import type { ToolDefinition, ToolResultContentBlock } from "../types.ts";
+import { createMockLLM } from "../testing/mock-llm.ts";
+import { createAgent, createCalculatorTool, getMemory, runAgent } from "./base.ts";
+
+const agentConfig = {
+  name: "test-agent",
+  description: "Agent under test",
+  systemPrompt: "You are a test agent.",
+};
+
+// The calculator's typed handler is narrower than the ToolDefinition of an agent
+const calculator = createCalculatorTool() as unknown as ToolDefinition;
+
+const toolResultsOf = (content: unknown): ToolResultContentBlock[] =>
+  Array.isArray(content) ? content.filter((block) => block.type === "tool_result") : [];
+
+Deno.test("runAgent runs requested tools and sends their results back", async () => {
+  const llm = createMockLLM({
+    responses: [
+      {
+        toolCalls: [{ id: "call_1", name: "calculator", input: { expression: "250 * 0.15" } }],
+        usage: { promptTokens: 10, completionTokens: 5 },
+      },
+      { text: "15% of 250 is 37.5", usage: { promptTokens: 20, completionTokens: 8 } },
+    ],
+  });
+  const agent = createAgent({ ...agentConfig, tools: [calculator], llm });
+
+  const result = await runAgent(agent, "Calculate 15% of 250");
+
+  assert(result.success);
+  assertEquals(result.content, "15% of 250 is 37.5");
+  assertEquals(result.toolCalls, [
+    { tool: "calculator", params: { expression: "250 * 0.15" }, result: { result: 37.5 } },
+  ]);
+  assertEquals(result.usage, { promptTokens: 30, completionTokens: 13, totalTokens: 43 });
+
+  // The second request carries the assistant tool_use turn and the matching tool_result
+  const secondRequest = llm.calls[1].messages;
+  assertEquals(secondRequest.at(-2)?.role, "assistant");
+  const [toolResult] = toolResultsOf(secondRequest.at(-1)?.content);
+  assertEquals(toolResult.toolUseId, "call_1");
+  assertStringIncludes(String(toolResult.content), "37.5");
+});
+
+Deno.test("runAgent reports unknown and failing tools to the model as errors", async () => {
+  const failingTool: ToolDefinition = {
+    name: "broken",
+    description: "Always fails",
+    parameters: {},
+    handler: () => Promise.reject(new Error("disk full")),
+  };
+  const llm = createMockLLM({
+    responses: [
+      { toolCalls: [{ id: "a", name: "missing" }, { id: "b", name: "broken" }] },
+      { text: "Both tools failed" },
+    ],
+  });
+  const agent = createAgent({ ...agentConfig, tools: [failingTool], llm });
+
+  const result = await runAgent(agent, "Try the tools");
+
+  assert(result.success);
+  const results = toolResultsOf(llm.calls[1].messages.at(-1)?.content);
+  assertEquals(results.map((block) => block.isError), [true, true]);
+  assertStringIncludes(String(results[0].content), "Unknown tool: missing");
+  assertStringIncludes(String(results[1].content), "disk full");
+});
+
+Deno.test("runAgent keeps tool turns in memory for follow-up questions", async () => {
+  const llm = createMockLLM({
+    responses: [
+      { toolCalls: [{ id: "call_1", name: "calculator", input: { expression: "6 * 7" } }] },
+      { text: "It is 42" },
+      { text: "I used the calculator" },
+    ],
+  });
+  const agent = createAgent({ ...agentConfig, tools: [calculator], llm, memory: true });
+
+  await runAgent(agent, "What is 6 * 7?");
+  await runAgent(agent, "How did you get that?");
+
+  assertEquals(
+    getMemory(agent).map((message) => message.role),
+    ["user", "assistant", "user", "assistant", "user", "assistant"],
+  );
+  // The follow-up request still contains the tool_use / tool_result exchange
+  const followUp = llm.calls[2].messages;
+  assert(followUp.some((message) => toolResultsOf(message.content).length > 0));
+  assertEquals(followUp.at(-1)?.content, "How did you get that?");
+});
+
+Deno.test("runAgent fails when the model still requests tools after maxIterations", async () => {
+  const llm = createMockLLM({
+    fallback: { toolCalls: [{ name: "calculator", input: { expression: "1 + 1" } }] },
+  });
+  const agent = createAgent({
+    ...agentConfig,
+    tools: [calculator],
+    llm,
+    memory: true,
+    maxIterations: 2,
+  });
+
+  const result = await runAgent(agent, "Loop forever");
+
+  assertEquals(result.success, false);
+  assertStringIncludes(result.error!, "maximum of 2 tool iterations");
+  assertEquals(result.toolCalls?.length, 2);
+  assertEquals(llm.calls.length, 3);
+  assertEquals(getMemory(agent), []);
+});
+
+Deno.test("runAgent returns provider errors as failed results", async () => {
+  const llm = createMockLLM({ responses: [{ error: new Error("Claude API error: 500") }] });
+  const agent = createAgent({ ...agentConfig, llm });
+
+  const result = await runAgent(agent, "Hello");
+
+  assertEquals(result.success, false);
+  assertEquals(result.error, "Claude API error: 500");
+});
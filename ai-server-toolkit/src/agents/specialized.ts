@@ -107,6 +107,7 @@ export function createSpecializedAgent(
 ): AgentState {
   logger.debug("Creating specialized agent", {
     agentName: config.name,
+    llmProvider: config.llm.provider,
     llmModel: config.llm.model,
   });
 
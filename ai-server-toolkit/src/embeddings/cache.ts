@@ -0,0 +1,244 @@
+// Persistent embedding cache wrapper (Deno KV or local filesystem)
+import type { EmbeddingModel } from "../types.ts";
+import { getKV, type KVConnectionOptions } from "../utils/kv-helper.ts";
+import { createSubLogger } from "../utils/logger.ts";
+
+const logger = createSubLogger("embedding-cache");
+
+const KV_PREFIX = "embedding_cache";
+// Deno KV getMany accepts at most 10 keys
+const KV_READ_BATCH = 10;
+const DEFAULT_CACHE_DIRECTORY = "./.embedding-cache";
+
+/**
+ * Options for createCachedEmbeddings
+ */
+export interface EmbeddingCacheOptions {
+  /** Embedding model name, part of the cache key (e.g. "text-embedding-3-small") */
+  model: string;
+  /** Vector dimensions, part of the cache key */
+  dimensions: number;
+  /** Where vectors are stored (default: "kv") */
+  store?: "kv" | "filesystem";
+  /** KV connection options passed to getKV() for the "kv" store */
+  kvOptions?: KVConnectionOptions;
+  /** Cache directory for the "filesystem" store (default: "./.embedding-cache") */
+  directory?: string;
+  /** Expiry of cached vectors in milliseconds ("kv" store only, default: never) */
+  expireInMs?: number;
+}
+
+/**
+ * Hit/miss counters of an embedding cache
+ */
+export interface EmbeddingCacheStats {
+  /** Texts answered from the cache */
+  hits: number;
+  /** Texts that had to be embedded by the wrapped model */
+  misses: number;
+  /** Calls made to the wrapped model */
+  modelCalls: number;
+}
+
+/**
+ * Embedding model with cache statistics
+ */
+export interface CachedEmbeddingModel extends EmbeddingModel {
+  /** Returns a copy of the hit/miss counters */
+  getStats(): EmbeddingCacheStats;
+  /** Resets the hit/miss counters */
+  resetStats(): void;
+}
+
+interface EmbeddingCacheBackend {
+  read(hashes: string[]): Promise<Array<number[] | null>>;
+  write(entries: Array<{ hash: string; embedding: number[] }>): Promise<void>;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
+const createKVBackend = (options: EmbeddingCacheOptions): EmbeddingCacheBackend => {
+  const keyFor = (hash: string): Deno.KvKey => [
+    KV_PREFIX,
+    options.model,
+    options.dimensions,
+    hash,
+  ];
+
+  return {
+    async read(hashes) {
+      const kv = await getKV(options.kvOptions);
+      const results: Array<number[] | null> = [];
+      for (let i = 0; i < hashes.length; i += KV_READ_BATCH) {
+        const entries = await kv.getMany<number[][]>(
+          hashes.slice(i, i + KV_READ_BATCH).map(keyFor),
+        );
+        results.push(...entries.map((entry) => entry.value));
+      }
+      return results;
+    },
+    async write(entries) {
+      const kv = await getKV(options.kvOptions);
+      for (const { hash, embedding } of entries) {
+        await kv.set(
+          keyFor(hash),
+          embedding,
+          options.expireInMs ? { expireIn: options.expireInMs } : undefined,
+        );
+      }
+    },
+  };
+};
+
+const createFilesystemBackend = (options: EmbeddingCacheOptions): EmbeddingCacheBackend => {
+  // Model names may contain "/" or ":" (e.g. "org/model:latest")
+  const modelDirectory = `${options.directory || DEFAULT_CACHE_DIRECTORY}/${
+    options.model.replace(/[^a-zA-Z0-9._-]/g, "_")
+  }/${options.dimensions}`;
+  const pathFor = (hash: string) => `${modelDirectory}/${hash.slice(0, 2)}/${hash}.json`;
+
+  return {
+    async read(hashes) {
+      return await Promise.all(hashes.map(async (hash) => {
+        try {
+          return JSON.parse(await Deno.readTextFile(pathFor(hash))) as number[];
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) {
+            logger.warn("Ignoring unreadable cache entry", {
+              hash,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+          return null;
+        }
+      }));
+    },
+    async write(entries) {
+      for (const { hash, embedding } of entries) {
+        await Deno.mkdir(`${modelDirectory}/${hash.slice(0, 2)}`, { recursive: true });
+        // Write then rename so concurrent readers never see a partial file
+        const path = pathFor(hash);
+        const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+        await Deno.writeTextFile(tempPath, JSON.stringify(embedding));
+        await Deno.rename(tempPath, path);
+      }
+    },
+  };
+};
+
+/**
+ * Wraps an embedding model with a persistent cache.
+ *
+ * Vectors are stored in Deno KV (under `["embedding_cache", model, dimensions, hash]`)
+ * or as files on the local filesystem, keyed by model, dimensions and the SHA-256 of
+ * the text. Only cache misses are sent to the wrapped model, deduplicated and batched
+ * into a single `embedTexts` call, so re-ingesting a document whose chunks did not
+ * change costs no embedding calls. Cache read/write failures are logged and fall back
+ * to the wrapped model.
+ *
+ * @param model Embedding model to wrap
+ * @param options Cache key parts (model, dimensions) and storage settings
+ * @returns Cached embedding model implementing the EmbeddingModel interface
+ *
+ * @example
+ * ```ts
+ * const embeddings = createCachedEmbeddings(
+ *   createOpenAIEmbeddings({ provider: "openai", apiKey: "sk-..." }),
+ *   { model: "text-embedding-3-small", dimensions: 1536 },
+ * );
+ *
+ * const vectorStore = await createLanceDB(vectorStoreConfig, embeddings);
+ * console.log(embeddings.getStats()); // { hits: 412, misses: 3, modelCalls: 1 }
+ * ```
+ */
+export function createCachedEmbeddings(
+  model: EmbeddingModel,
+  options: EmbeddingCacheOptions,
+): CachedEmbeddingModel {
+  const backend = options.store === "filesystem"
+    ? createFilesystemBackend(options)
+    : createKVBackend(options);
+  const stats: EmbeddingCacheStats = { hits: 0, misses: 0, modelCalls: 0 };
+
+  const readCache = async (hashes: string[]): Promise<Array<number[] | null>> => {
+    try {
+      return await backend.read(hashes);
+    } catch (error) {
+      logger.warn("Embedding cache read failed, embedding without cache", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return hashes.map(() => null);
+    }
+  };
+
+  const embedTexts = async (texts: string[]): Promise<number[][]> => {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const hashes = await Promise.all(texts.map(sha256));
+    const uniqueHashes = [...new Set(hashes)];
+    const cached = await readCache(uniqueHashes);
+
+    const vectors = new Map<string, number[]>();
+    const missing: Array<{ hash: string; text: string }> = [];
+    uniqueHashes.forEach((hash, i) => {
+      const embedding = cached[i];
+      if (embedding && embedding.length === options.dimensions) {
+        vectors.set(hash, embedding);
+      } else {
+        missing.push({ hash, text: texts[hashes.indexOf(hash)] });
+      }
+    });
+
+    if (missing.length > 0) {
+      stats.modelCalls++;
+      const embeddings = await model.embedTexts(missing.map((entry) => entry.text));
+      const entries = missing.map((entry, i) => ({ hash: entry.hash, embedding: embeddings[i] }));
+      entries.forEach((entry) => vectors.set(entry.hash, entry.embedding));
+
+      try {
+        await backend.write(entries);
+      } catch (error) {
+        logger.warn("Embedding cache write failed", {
+          count: entries.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const missingHashes = new Set(missing.map((entry) => entry.hash));
+    for (const hash of hashes) {
+      if (missingHashes.has(hash)) {
+        stats.misses++;
+        // Repeats of a text within the same batch are served from the fresh vector
+        missingHashes.delete(hash);
+      } else {
+        stats.hits++;
+      }
+    }
+
+    logger.debug("Embedding cache lookup", {
+      texts: texts.length,
+      misses: missing.length,
+    });
+
+    return hashes.map((hash) => vectors.get(hash)!);
+  };
+
+  return {
+    embedText: async (text: string) => (await embedTexts([text]))[0],
+    embedTexts,
+    getStats: () => ({ ...stats }),
+    resetStats: () => {
+      stats.hits = 0;
+      stats.misses = 0;
+      stats.modelCalls = 0;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { closeKV, resetKV } from "../utils/kv-helper.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createCachedEmbeddings } from "./cache.ts";
+
+const DIMENSIONS = 8;
+
+Deno.test("createCachedEmbeddings batches misses and serves repeats from the filesystem", async () => {
+  const directory = await Deno.makeTempDir({ prefix: "embedding_cache_test_" });
+  try {
+    const model = createHashEmbeddings({ dimensions: DIMENSIONS });
+    const options = {
+      model: "hash",
+      dimensions: DIMENSIONS,
+      store: "filesystem",
+      directory,
+    } as const;
+    const cached = createCachedEmbeddings(model, options);
+
+    const first = await cached.embedTexts(["a", "b", "a"]);
+    const second = await cached.embedTexts(["b", "c", "a"]);
+
+    assertEquals(model.calls, [["a", "b"], ["c"]]);
+    assertEquals(first[0], first[2]);
+    assertEquals(second[0], first[1]);
+    assertEquals(cached.getStats(), { hits: 3, misses: 3, modelCalls: 2 });
+
+    // A new process reads the vectors written by the first one
+    const restarted = createCachedEmbeddings(model, options);
+    assertEquals(await restarted.embedText("c"), second[1]);
+    assertEquals(restarted.getStats(), { hits: 1, misses: 0, modelCalls: 0 });
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("createCachedEmbeddings keys vectors by model and dimensions in Deno KV", async () => {
+  const directory = await Deno.makeTempDir({ prefix: "embedding_cache_test_" });
+  resetKV();
+  try {
+    const kvOptions = { kvPath: `${directory}/cache.kv` };
+    const model = createHashEmbeddings({ dimensions: DIMENSIONS });
+    const small = createCachedEmbeddings(model, {
+      model: "small",
+      dimensions: DIMENSIONS,
+      kvOptions,
+    });
+    const large = createCachedEmbeddings(model, {
+      model: "large",
+      dimensions: DIMENSIONS,
+      kvOptions,
+    });
+
+    await small.embedTexts(["same text"]);
+    await small.embedTexts(["same text"]);
+    await large.embedTexts(["same text"]);
+
+    assertEquals(model.calls, [["same text"], ["same text"]]);
+    assertEquals(small.getStats(), { hits: 1, misses: 1, modelCalls: 1 });
+
+    small.resetStats();
+    assertEquals(small.getStats(), { hits: 0, misses: 0, modelCalls: 0 });
+  } finally {
+    await closeKV();
+    resetKV();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("createCachedEmbeddings re-embeds cached vectors of the wrong size", async () => {
+  const directory = await Deno.makeTempDir({ prefix: "embedding_cache_test_" });
+  try {
+    const model = createHashEmbeddings({ dimensions: DIMENSIONS });
+    const cached = createCachedEmbeddings(model, {
+      model: "hash",
+      dimensions: DIMENSIONS,
+      store: "filesystem",
+      directory,
+    });
+    await cached.embedText("resized");
+
+    // Corrupt the cached entry
+    for await (const entry of Deno.readDir(`${directory}/hash/${DIMENSIONS}`)) {
+      for await (const file of Deno.readDir(`${directory}/hash/${DIMENSIONS}/${entry.name}`)) {
+        await Deno.writeTextFile(
+          `${directory}/hash/${DIMENSIONS}/${entry.name}/${file.name}`,
+          "[1, 2]",
+        );
+      }
+    }
+
+    assertEquals((await cached.embedText("resized")).length, DIMENSIONS);
+    assertEquals(model.calls, [["resized"], ["resized"]]);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
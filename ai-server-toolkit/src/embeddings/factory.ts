@@ -0,0 +1,48 @@
+// Embedding provider dispatch
+import type { EmbeddingConfig, EmbeddingModel } from "../types.ts";
+import { createLocalEmbeddings } from "./local.ts";
+import { createOpenAIEmbeddings } from "./openai.ts";
+
+/**
+ * Creates an embedding model for the provider named in the configuration.
+ *
+ * "openai" uses the OpenAI embeddings API, "local" computes hashed n-gram vectors
+ * offline without any API key.
+ *
+ * @param config Embedding configuration
+ * @returns Embedding model implementing the EmbeddingModel interface
+ * @throws Error if the provider is not supported
+ *
+ * @example
+ * ```ts
+ * const embeddings = createEmbeddings(
+ *   Deno.env.get("OPENAI_API_KEY")
+ *     ? { provider: "openai", apiKey: Deno.env.get("OPENAI_API_KEY") }
+ *     : { provider: "local" },
+ * );
+ * ```
+ */
+export function createEmbeddings(config: EmbeddingConfig): EmbeddingModel {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIEmbeddings(config);
+    case "local":
+      return createLocalEmbeddings(config);
+    default:
+      throw new Error(
+        `Unsupported embedding provider: ${(config as EmbeddingConfig).provider}`,
+      );
+  }
+}
+
+/**
+ * Checks whether a value is a ready EmbeddingModel rather than an EmbeddingConfig.
+ *
+ * @param value Embedding configuration or model
+ * @returns True if the value implements the EmbeddingModel interface
+ */
+export function isEmbeddingModel(
+  value: EmbeddingConfig | EmbeddingModel,
+): value is EmbeddingModel {
+  return "embedTexts" in value && typeof value.embedTexts === "function";
+}
@@ -0,0 +1,24 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "@std/assert";
+import type { EmbeddingConfig } from "../types.ts";
+import { createLocalEmbeddings } from "./local.ts";
+import { createEmbeddings, isEmbeddingModel } from "./factory.ts";
+
+Deno.test("createEmbeddings picks the provider named in the config", async () => {
+  const embeddings = createEmbeddings({ provider: "local", dimensions: 32 });
+  const reference = createLocalEmbeddings({ provider: "local", dimensions: 32 });
+
+  assertEquals(await embeddings.embedText("offline"), await reference.embedText("offline"));
+});
+
+Deno.test("createEmbeddings rejects unknown providers", () => {
+  assertThrows(
+    () => createEmbeddings({ provider: "cohere" } as unknown as EmbeddingConfig),
+    Error,
+    "Unsupported embedding provider: cohere",
+  );
+});
+
+Deno.test("isEmbeddingModel tells models from configs", () => {
+  assert(isEmbeddingModel(createLocalEmbeddings({ provider: "local" })));
+  assertFalse(isEmbeddingModel({ provider: "openai", apiKey: "sk-test" }));
+});
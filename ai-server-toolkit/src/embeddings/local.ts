@@ -0,0 +1,95 @@
+// Offline embeddings from hashed word and character n-gram features
+import type { EmbeddingConfig, EmbeddingModel } from "../types.ts";
+
+const DEFAULT_DIMENSIONS = 1536;
+const DEFAULT_NGRAM_RANGE: [number, number] = [3, 5];
+
+interface LocalEmbeddingState {
+  dimensions: number;
+  ngramRange: [number, number];
+}
+
+// FNV-1a 32-bit hash
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Words plus character n-grams of each word padded with boundary markers
+const extractFeatures = (text: string, [minN, maxN]: [number, number]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+
+  const words = text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  for (const word of words) {
+    add(`w:${word}`);
+    const padded = `<${word}>`;
+    for (let n = minN; n <= maxN; n++) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + n)}`);
+      }
+    }
+  }
+  return counts;
+};
+
+/**
+ * Creates an embedding model that runs fully offline.
+ *
+ * Texts are turned into word and character n-gram features that are hashed into a
+ * fixed number of dimensions (the "hashing trick"), weighted with sublinear term
+ * frequency and L2-normalized. Vectors are deterministic and need no model files,
+ * vocabulary or network access, so they stay comparable across processes and
+ * restarts. Character n-grams make the vectors robust to inflections and typos;
+ * quality is lexical rather than semantic, which suits air-gapped installs and CI.
+ *
+ * @param config Embedding configuration (`dimensions`, `ngramRange`; `apiKey` is ignored)
+ * @returns Local embedding model implementing the EmbeddingModel interface
+ *
+ * @example
+ * ```ts
+ * const embeddings = createLocalEmbeddings({ provider: "local", dimensions: 512 });
+ * const vector = await embeddings.embedText("Offline vector search");
+ * ```
+ */
+export function createLocalEmbeddings(config: EmbeddingConfig): EmbeddingModel {
+  const state: LocalEmbeddingState = {
+    dimensions: config.dimensions || DEFAULT_DIMENSIONS,
+    ngramRange: config.ngramRange || DEFAULT_NGRAM_RANGE,
+  };
+
+  if (state.ngramRange[0] < 1 || state.ngramRange[0] > state.ngramRange[1]) {
+    throw new Error(`Invalid n-gram range: [${state.ngramRange.join(", ")}]`);
+  }
+
+  const embed = (text: string): number[] => {
+    const vector = new Float64Array(state.dimensions);
+
+    for (const [feature, count] of extractFeatures(text, state.ngramRange)) {
+      const hash = hashFeature(feature);
+      // The top bit picks a sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % state.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return Array.from(vector, (value) => (norm === 0 ? 0 : value / norm));
+  };
+
+  const embedText = async (text: string): Promise<number[]> => {
+    return embed(text);
+  };
+
+  const embedTexts = async (texts: string[]): Promise<number[][]> => {
+    return texts.map(embed);
+  };
+
+  return {
+    embedText,
+    embedTexts,
+  };
+}
@@ -0,0 +1,45 @@
+import { assertAlmostEquals, assertEquals, assertGreater, assertThrows } from "@std/assert";
+import { scoreFunctions } from "../vector-store/distance.ts";
+import { createLocalEmbeddings } from "./local.ts";
+
+Deno.test("createLocalEmbeddings returns deterministic unit vectors of the configured size", async () => {
+  const first = createLocalEmbeddings({ provider: "local", dimensions: 128 });
+  const second = createLocalEmbeddings({ provider: "local", dimensions: 128 });
+
+  const vector = await first.embedText("Minimum corridor width");
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+  assertEquals(vector.length, 128);
+  assertAlmostEquals(norm, 1, 1e-9);
+  assertEquals(await second.embedText("Minimum corridor width"), vector);
+});
+
+Deno.test("createLocalEmbeddings scores inflected words close to the original", async () => {
+  const embeddings = createLocalEmbeddings({ provider: "local", dimensions: 512 });
+
+  const [query, inflected, unrelated] = await embeddings.embedTexts([
+    "ventilation requirement",
+    "ventilating requirements",
+    "parking spaces per flat",
+  ]);
+
+  assertGreater(scoreFunctions.cosine(query, inflected), 0.5);
+  assertGreater(
+    scoreFunctions.cosine(query, inflected),
+    scoreFunctions.cosine(query, unrelated) + 0.3,
+  );
+});
+
+Deno.test("createLocalEmbeddings embeds text without words as a zero vector", async () => {
+  const embeddings = createLocalEmbeddings({ provider: "local", dimensions: 16 });
+
+  assertEquals(await embeddings.embedText("  --  "), new Array(16).fill(0));
+});
+
+Deno.test("createLocalEmbeddings rejects an invalid n-gram range", () => {
+  assertThrows(
+    () => createLocalEmbeddings({ provider: "local", ngramRange: [4, 2] }),
+    Error,
+    "Invalid n-gram range",
+  );
+});
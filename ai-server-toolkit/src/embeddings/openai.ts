@@ -1,6 +1,25 @@
 // Functional OpenAI embeddings integration
-import { createRateLimiter, type RateLimitState, withRateLimit } from "../utils/rate-limiter.ts";
-import type { EmbeddingConfig } from "../types.ts";
+import {
+  createRateLimiter,
+  createRateLimitKey,
+  type RateLimitState,
+  withRateLimit,
+} from "../utils/rate-limiter.ts";
+import { createProviderHttpError, withRetry } from "../utils/retry.ts";
+import { createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import type { EmbeddingConfig, RetryConfig } from "../types.ts";
+
+const logger = createSubLogger("openai-embeddings");
+
+// OpenAI limits: 8191 tokens per input, 2048 inputs and 300k tokens per request
+const DEFAULT_MAX_INPUT_TOKENS = 8191;
+const DEFAULT_MAX_BATCH_SIZE = 2048;
+const DEFAULT_MAX_BATCH_TOKENS = 300_000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+// English prose averages ~4 characters per token; dense text (code, numbers, non-Latin
+// scripts) has fewer, so inputs are measured and cut at 3 characters per token
+const CHARS_PER_TOKEN = 3;
 
 // Define locally to avoid import issues, but must match types.ts
 export interface EmbeddingModel {
@@ -12,18 +31,36 @@ interface OpenAIState {
   apiKey: string;
   model: string;
   dimensions: number;
+  maxInputTokens: number;
+  oversizedInputPolicy: "truncate" | "split-average" | "error";
+  maxBatchSize: number;
+  maxBatchTokens: number;
+  maxConcurrency: number;
   rateLimiter: RateLimitState;
+  retry?: RetryConfig;
 }
 
 interface OpenAIEmbeddingResponse {
-  data: Array<{ embedding: number[] }>;
+  data: Array<{ embedding: number[]; index?: number }>;
+  usage?: { prompt_tokens?: number; total_tokens?: number };
 }
 
+// Token estimate used for the input limit, request batching and the rate limiter alike,
+// so an input cut to maxTokens * CHARS_PER_TOKEN characters is never oversized
+const estimateInputTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
 /**
  * Creates an OpenAI embeddings provider with rate limiting.
  *
  * Initializes the embedding service with the specified model and configuration.
- * Includes automatic rate limiting to stay within OpenAI API limits.
+ * Includes automatic rate limiting to stay within OpenAI API limits, and retries
+ * 429/5xx responses and network errors according to `config.retry`.
+ *
+ * `embedTexts` splits large inputs into sub-batches by item count (`maxBatchSize`) and
+ * estimated tokens (`maxBatchTokens`) and sends up to `maxConcurrency` of them at once.
+ * Tokens are estimated conservatively at 3 characters per token.
+ * Inputs over `maxTokens` are truncated, split into pieces whose vectors are averaged,
+ * or rejected, depending on `oversizedInputPolicy`. Output order always matches input.
  *
  * @param config Embedding configuration with API key, model, and dimensions
  * @returns OpenAI embedding model implementing the EmbeddingModel interface
@@ -49,40 +86,159 @@ export function createOpenAIEmbeddings(
     apiKey: config.apiKey,
     model: config.model || "text-embedding-3-small",
     dimensions: config.dimensions || 1536,
+    maxInputTokens: config.maxTokens || DEFAULT_MAX_INPUT_TOKENS,
+    oversizedInputPolicy: config.oversizedInputPolicy || "truncate",
+    maxBatchSize: config.maxBatchSize || DEFAULT_MAX_BATCH_SIZE,
+    maxBatchTokens: config.maxBatchTokens || DEFAULT_MAX_BATCH_TOKENS,
+    maxConcurrency: Math.max(1, config.maxConcurrency || DEFAULT_MAX_CONCURRENCY),
     rateLimiter: createRateLimiter({
       requestsPerMinute: 3000,
       requestsPerHour: 200000,
+      storeKey: createRateLimitKey("openai-embeddings", config.apiKey),
+      ...config.rateLimit,
     }),
+    retry: config.retry,
   };
 
-  const embedText = async (text: string): Promise<number[]> => {
-    return await withRateLimit(state.rateLimiter, async () => {
-      const response = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${state.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: state.model,
-          input: text,
-          dimensions: state.dimensions,
+  const requestEmbeddings = async (input: string[]): Promise<number[][]> => {
+    const estimatedTokens = input.reduce((sum, text) => sum + estimateInputTokens(text), 0);
+
+    const { embeddings } = await withRetry(
+      () =>
+        withRateLimit(state.rateLimiter, async () => {
+          const response = await fetch("https://api.openai.com/v1/embeddings", {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${state.apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              model: state.model,
+              input,
+              dimensions: state.dimensions,
+            }),
+          });
+
+          if (!response.ok) {
+            throw await createProviderHttpError("OpenAI", response);
+          }
+
+          const data = await response.json() as OpenAIEmbeddingResponse;
+
+          if (!data.data || !Array.isArray(data.data)) {
+            throw new Error("Invalid response from OpenAI API");
+          }
+
+          // Order by the input index the API reports for each vector
+          const items = [...data.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+          return {
+            embeddings: items.map((item) => item.embedding),
+            totalTokens: data.usage?.total_tokens,
+          };
+        }, {
+          estimatedTokens,
+          getActualTokens: (result) => result.totalTokens,
         }),
-      });
+      state.retry,
+      "openai.embeddings",
+    );
+
+    return embeddings;
+  };
+
+  // Splits an input into pieces that fit the per-input token limit
+  const toPieces = (text: string, index: number): string[] => {
+    if (estimateInputTokens(text) <= state.maxInputTokens) {
+      return [text];
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+    const maxChars = state.maxInputTokens * CHARS_PER_TOKEN;
+    switch (state.oversizedInputPolicy) {
+      case "error":
+        throw createValidationError("Embedding input exceeds the model token limit", {
+          index,
+          estimatedTokens: estimateInputTokens(text),
+          maxTokens: state.maxInputTokens,
+        });
+      case "split-average": {
+        const pieces: string[] = [];
+        for (let start = 0; start < text.length; start += maxChars) {
+          pieces.push(text.slice(start, start + maxChars));
+        }
+        return pieces;
       }
+      default:
+        logger.warn("Truncating embedding input over the model token limit", {
+          index,
+          estimatedTokens: estimateInputTokens(text),
+          maxTokens: state.maxInputTokens,
+        });
+        return [text.slice(0, maxChars)];
+    }
+  };
 
-      const data = await response.json();
+  // Groups inputs into requests that respect the item and token limits
+  const toBatches = (inputs: string[]): string[][] => {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let batchTokens = 0;
 
-      if (!data.data || !data.data[0] || !data.data[0].embedding) {
-        throw new Error("Invalid response from OpenAI API");
+    for (const input of inputs) {
+      const tokens = estimateInputTokens(input);
+      if (
+        batch.length > 0 &&
+        (batch.length >= state.maxBatchSize || batchTokens + tokens > state.maxBatchTokens)
+      ) {
+        batches.push(batch);
+        batch = [];
+        batchTokens = 0;
       }
+      batch.push(input);
+      batchTokens += tokens;
+    }
 
-      return data.data[0].embedding;
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  };
+
+  // Runs the requests with at most maxConcurrency in flight, keeping results in batch order;
+  // once a request fails, no worker starts another
+  const requestBatches = async (batches: string[][]): Promise<number[][][]> => {
+    const results: number[][][] = new Array(batches.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+      while (!failed && next < batches.length) {
+        const index = next++;
+        try {
+          results[index] = await requestEmbeddings(batches[index]);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(state.maxConcurrency, batches.length) }, worker),
+    );
+    return results;
+  };
+
+  // Length-weighted mean of the piece vectors, re-normalized to unit length
+  const averageEmbeddings = (embeddings: number[][], pieces: string[]): number[] => {
+    const sum = new Array<number>(embeddings[0].length).fill(0);
+    embeddings.forEach((embedding, i) => {
+      const weight = pieces[i].length;
+      embedding.forEach((value, d) => {
+        sum[d] += value * weight;
+      });
     });
+    const norm = Math.sqrt(sum.reduce((acc, value) => acc + value * value, 0)) || 1;
+    return sum.map((value) => value / norm);
   };
 
   const embedTexts = async (texts: string[]): Promise<number[][]> => {
@@ -90,37 +246,39 @@ export function createOpenAIEmbeddings(
       return [];
     }
 
-    if (texts.length === 1) {
-      return [await embedText(texts[0])];
-    }
+    const piecesPerText = texts.map(toPieces);
+    const inputs = piecesPerText.flat();
+    const batches = toBatches(inputs);
 
-    return await withRateLimit(state.rateLimiter, async () => {
-      const response = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${state.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: state.model,
-          input: texts,
-          dimensions: state.dimensions,
-        }),
+    if (batches.length > 1) {
+      logger.debug("Embedding in sub-batches", {
+        texts: texts.length,
+        inputs: inputs.length,
+        batches: batches.length,
       });
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-      }
+    const embeddings = (await requestBatches(batches)).flat();
+    if (embeddings.length !== inputs.length) {
+      throw new Error("Invalid response from OpenAI API");
+    }
 
-      const data = await response.json() as OpenAIEmbeddingResponse;
+    let offset = 0;
+    return piecesPerText.map((pieces) => {
+      const pieceEmbeddings = embeddings.slice(offset, offset + pieces.length);
+      offset += pieces.length;
+      return pieces.length === 1 ? pieceEmbeddings[0] : averageEmbeddings(pieceEmbeddings, pieces);
+    });
+  };
 
-      if (!data.data || !Array.isArray(data.data)) {
-        throw new Error("Invalid response from OpenAI API");
-      }
+  const embedText = async (text: string): Promise<number[]> => {
+    const [embedding] = await embedTexts([text]);
 
-      return data.data.map((item) => item.embedding);
-    });
+    if (!embedding) {
+      throw new Error("Invalid response from OpenAI API");
+    }
+
+    return embedding;
   };
 
   return {
@@ -0,0 +1,114 @@
+import { assertAlmostEquals, assertEquals, assertRejects } from "@std/assert";
+import type { EmbeddingConfig } from "../types.ts";
+import { ErrorCode, isAppError } from "../utils/errors.ts";
+import { createOpenAIEmbeddings } from "./openai.ts";
+
+// Replaces fetch with a fake embeddings API whose vectors are [text length, 1];
+// vectors come back in reverse order with their input index, like the real API may
+const withFakeOpenAI = async (fn: (requests: string[][]) => Promise<void>): Promise<void> => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[][] = [];
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    const { input } = JSON.parse(String(init?.body)) as { input: string[] };
+    requests.push(input);
+    const data = input.map((text, index) => ({ embedding: [text.length, 1], index })).reverse();
+    return Promise.resolve(Response.json({ data, usage: { total_tokens: input.length } }));
+  };
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+};
+
+const createEmbeddings = (config: Partial<EmbeddingConfig> = {}) =>
+  createOpenAIEmbeddings({ provider: "openai", apiKey: "sk-test", dimensions: 2, ...config });
+
+Deno.test("embedTexts splits requests by item count and keeps the input order", async () => {
+  await withFakeOpenAI(async (requests) => {
+    const embeddings = createEmbeddings({ maxBatchSize: 2, maxConcurrency: 2 });
+
+    const vectors = await embeddings.embedTexts(["a", "bb", "ccc", "dddd", "eeeee"]);
+
+    assertEquals(requests, [["a", "bb"], ["ccc", "dddd"], ["eeeee"]]);
+    assertEquals(vectors.map(([length]) => length), [1, 2, 3, 4, 5]);
+  });
+});
+
+Deno.test("embedTexts splits requests by estimated tokens", async () => {
+  await withFakeOpenAI(async (requests) => {
+    // 9 characters estimate 3 tokens
+    const embeddings = createEmbeddings({ maxBatchTokens: 6 });
+
+    await embeddings.embedTexts(["x".repeat(9), "y".repeat(9), "z".repeat(9)]);
+
+    assertEquals(requests.map((input) => input.length), [2, 1]);
+  });
+});
+
+Deno.test("embedTexts truncates oversized inputs to the token limit", async () => {
+  await withFakeOpenAI(async (requests) => {
+    const embeddings = createEmbeddings({ maxTokens: 10 });
+
+    await embeddings.embedTexts(["a".repeat(30), "b".repeat(31)]);
+
+    // 30 characters fit 10 tokens; the cut uses the same estimate, so it fits as well
+    assertEquals(requests[0].map((text) => text.length), [30, 30]);
+  });
+});
+
+Deno.test("embedTexts averages the pieces of split oversized inputs", async () => {
+  await withFakeOpenAI(async (requests) => {
+    const embeddings = createEmbeddings({ maxTokens: 10, oversizedInputPolicy: "split-average" });
+
+    const [vector] = await embeddings.embedTexts(["c".repeat(70)]);
+
+    assertEquals(requests[0].map((text) => text.length), [30, 30, 10]);
+    // Length-weighted mean of [30, 1], [30, 1], [10, 1], normalized to unit length
+    const mean = [(30 * 30 + 30 * 30 + 10 * 10) / 70, 1];
+    const norm = Math.hypot(mean[0], mean[1]);
+    assertAlmostEquals(vector[0], mean[0] / norm, 1e-9);
+    assertAlmostEquals(vector[1], mean[1] / norm, 1e-9);
+  });
+});
+
+Deno.test("embedTexts rejects oversized inputs with the error policy", async () => {
+  await withFakeOpenAI(async (requests) => {
+    const embeddings = createEmbeddings({ maxTokens: 10, oversizedInputPolicy: "error" });
+
+    const error = await assertRejects(() => embeddings.embedTexts(["ok", "d".repeat(31)]));
+
+    assertEquals(isAppError(error) && error.code, ErrorCode.VALIDATION_ERROR);
+    assertEquals(isAppError(error) && error.details?.index, 1);
+    assertEquals(requests, []);
+  });
+});
+
+Deno.test("embedTexts stops sending requests once one fails", async () => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[][] = [];
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    const { input } = JSON.parse(String(init?.body)) as { input: string[] };
+    requests.push(input);
+    if (requests.length === 1) {
+      return Promise.resolve(new Response("invalid input", { status: 400 }));
+    }
+    // The other requests answer after the failure
+    const data = input.map((text, index) => ({ embedding: [text.length, 1], index }));
+    return new Promise<Response>((resolve) =>
+      setTimeout(() => resolve(Response.json({ data, usage: { total_tokens: 1 } })), 20)
+    );
+  };
+  try {
+    const embeddings = createEmbeddings({ maxBatchSize: 1, maxConcurrency: 2 });
+
+    await assertRejects(() => embeddings.embedTexts(["a", "b", "c", "d", "e", "f"]));
+    // Gives the other worker time to finish its request
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Only the request already in flight when the first one failed
+    assertEquals(requests, [["a"], ["b"]]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -1,14 +1,31 @@
 // Functional Claude LLM integration
-import { createRateLimiter, type RateLimitState, withRateLimit } from "../utils/rate-limiter.ts";
+import {
+  createRateLimiter,
+  createRateLimitKey,
+  estimateTokens,
+  type RateLimitCallOptions,
+  type RateLimitState,
+  withRateLimit,
+} from "../utils/rate-limiter.ts";
+import { createProviderHttpError, withRetry } from "../utils/retry.ts";
+import { createServiceUnavailableError } from "../utils/errors.ts";
 import type {
   GenerateResponseOptions,
   LLMConfig,
+  LLMContentBlock,
   LLMMessage,
   LLMModel,
   LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+  LLMUsage,
+  MediaSource,
+  RetryConfig,
   SystemMessageBlock,
   ToolDefinition,
 } from "../types.ts";
+import { collectStream, getTextContent, parseToolInput } from "./content.ts";
+import { parseSSEStream } from "./sse.ts";
 
 /**
  * Get Anthropic API version from environment variable or use default.
@@ -29,6 +46,28 @@ interface ClaudeState {
   maxTokens: number;
   temperature: number;
   rateLimiter: RateLimitState;
+  retry?: RetryConfig;
+}
+
+type ClaudeMediaSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string };
+
+type ClaudeMessageBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | {
+    type: "tool_result";
+    tool_use_id: string;
+    content: string | ClaudeMessageBlock[];
+    is_error?: boolean;
+  }
+  | { type: "image"; source: ClaudeMediaSource }
+  | { type: "document"; source: ClaudeMediaSource; title?: string };
+
+interface ClaudeMessage {
+  role: string;
+  content: string | ClaudeMessageBlock[];
 }
 
 interface ClaudeRequestBody {
@@ -36,7 +75,7 @@ interface ClaudeRequestBody {
   max_tokens: number;
   temperature: number;
   system?: Array<SystemMessageBlock>;
-  messages: Array<{ role: string; content: string | Array<{ type: string; text: string }> }>;
+  messages: ClaudeMessage[];
   stream?: boolean;
   tools?: Array<{
     name: string;
@@ -51,6 +90,9 @@ interface ClaudeRequestBody {
 interface ClaudeContentItem {
   type: string;
   text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
 }
 
 interface ClaudeUsage {
@@ -60,19 +102,122 @@ interface ClaudeUsage {
   cache_read_input_tokens?: number;
 }
 
+interface ClaudeStreamEvent {
+  type: string;
+  index?: number;
+  message?: { model?: string; usage?: ClaudeUsage };
+  content_block?: ClaudeContentItem;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string;
+  };
+  usage?: ClaudeUsage;
+  error?: { message: string };
+}
+
 interface ClaudeResponse {
   content?: ClaudeContentItem[];
   usage?: ClaudeUsage;
   model?: string;
   stop_reason?: string;
-  error?: { message: string };
+  error?: { type?: string; message: string };
 }
 
+const toClaudeMediaSource = (source: MediaSource): ClaudeMediaSource => {
+  return source.type === "base64"
+    ? { type: "base64", media_type: source.mediaType, data: source.data }
+    : { type: "url", url: source.url };
+};
+
+/**
+ * Converts a toolkit content block to the Anthropic content block format.
+ */
+const toClaudeBlock = (block: LLMContentBlock): ClaudeMessageBlock => {
+  switch (block.type) {
+    case "text":
+      return { type: "text", text: block.text };
+    case "tool_use":
+      return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+    case "tool_result":
+      return {
+        type: "tool_result",
+        tool_use_id: block.toolUseId,
+        content: typeof block.content === "string"
+          ? block.content
+          : block.content.map(toClaudeBlock),
+        ...(block.isError ? { is_error: true } : {}),
+      };
+    case "image":
+      return { type: "image", source: toClaudeMediaSource(block.source) };
+    case "document":
+      return {
+        type: "document",
+        source: toClaudeMediaSource(block.source),
+        ...(block.title ? { title: block.title } : {}),
+      };
+  }
+};
+
+/**
+ * Converts a non-system LLMMessage to the Anthropic message format.
+ */
+const toClaudeMessage = (msg: LLMMessage): ClaudeMessage => {
+  return {
+    role: msg.role,
+    content: typeof msg.content === "string" ? msg.content : msg.content.map(toClaudeBlock),
+  };
+};
+
+/**
+ * Converts Anthropic response content to toolkit content blocks.
+ * Block types the toolkit does not model (e.g. thinking) are skipped.
+ */
+const fromClaudeContent = (items: ClaudeContentItem[]): LLMContentBlock[] => {
+  const blocks: LLMContentBlock[] = [];
+  for (const item of items) {
+    if (item.type === "text") {
+      blocks.push({ type: "text", text: item.text || "" });
+    } else if (item.type === "tool_use" && item.id && item.name) {
+      blocks.push({ type: "tool_use", id: item.id, name: item.name, input: item.input || {} });
+    }
+  }
+  return blocks;
+};
+
+const toUsage = (usage: ClaudeUsage): LLMUsage => {
+  const promptTokens = usage.input_tokens || 0;
+  const completionTokens = usage.output_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens,
+    cacheReadInputTokens: usage.cache_read_input_tokens,
+  };
+};
+
+const toStopReason = (stopReason?: string): LLMStopReason | undefined => {
+  if (!stopReason) return undefined;
+  switch (stopReason) {
+    case "end_turn":
+    case "tool_use":
+    case "max_tokens":
+    case "stop_sequence":
+    case "refusal":
+      return stopReason;
+    default:
+      return "other";
+  }
+};
+
 /**
  * Creates a Claude LLM client with rate limiting.
  *
  * Initializes the Claude API client with the specified model and configuration.
- * Includes automatic rate limiting to stay within Anthropic API limits.
+ * Includes automatic rate limiting to stay within Anthropic API limits, and retries
+ * 429/5xx/overloaded responses and network errors according to `config.retry`.
  *
  * @param config LLM configuration with API key, model, and parameters
  * @returns Claude LLM model implementing the LLMModel interface
@@ -114,223 +259,259 @@ export function createClaudeLLM(config: LLMConfig): LLMModel {
     rateLimiter: createRateLimiter({
       requestsPerMinute: defaultRequestsPerMinute,
       requestsPerHour: defaultRequestsPerHour,
+      storeKey: createRateLimitKey("anthropic", config.apiKey),
+      ...config.rateLimit,
     }),
+    retry: config.retry,
   };
 
-  const generateResponse = async (
+  const buildRequestBody = (
     messages: LLMMessage[],
     tools?: ToolDefinition[],
     options?: GenerateResponseOptions,
-  ): Promise<LLMResponse> => {
-    return await withRateLimit(state.rateLimiter, async () => {
-      // Separate system messages from regular messages
-      const systemMessages: SystemMessageBlock[] = [];
-      const regularMessages: Array<{ role: string; content: string }> = [];
-
-      // Process messages - system messages go to system array, others to messages
-      for (const msg of messages) {
-        if (msg.role === "system") {
-          systemMessages.push({
-            type: "text",
-            text: msg.content,
-          });
-        } else {
-          regularMessages.push({
-            role: msg.role,
-            content: msg.content,
-          });
-        }
+  ): ClaudeRequestBody => {
+    // Separate system messages from regular messages
+    const systemMessages: SystemMessageBlock[] = [];
+    const regularMessages: ClaudeMessage[] = [];
+
+    // Process messages - system messages go to system array, others to messages
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        systemMessages.push({
+          type: "text",
+          text: getTextContent(msg.content),
+        });
+      } else {
+        regularMessages.push(toClaudeMessage(msg));
       }
+    }
+
+    // Merge with options.system if provided
+    const finalSystem = options?.system || systemMessages;
+
+    return {
+      model: state.model,
+      max_tokens: state.maxTokens,
+      temperature: state.temperature,
+      ...(finalSystem.length > 0 ? { system: finalSystem } : {}),
+      messages: regularMessages,
+      ...(tools && tools.length > 0
+        ? {
+          tools: tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: {
+              type: "object",
+              properties: tool.parameters,
+            },
+          })),
+        }
+        : {}),
+    };
+  };
 
-      // Merge with options.system if provided
-      const finalSystem = options?.system || systemMessages;
-
-      const requestBody: ClaudeRequestBody = {
-        model: state.model,
-        max_tokens: state.maxTokens,
-        temperature: state.temperature,
-        ...(finalSystem.length > 0 ? { system: finalSystem } : {}),
-        messages: regularMessages,
-        ...(tools && tools.length > 0
-          ? {
-            tools: tools.map((tool) => ({
-              name: tool.name,
-              description: tool.description,
-              input_schema: {
-                type: "object",
-                properties: tool.parameters,
-              },
-            })),
-          }
-          : {}),
-      };
+  const postMessages = async (requestBody: ClaudeRequestBody): Promise<Response> => {
+    // Use API version from env or default, with caching support if system messages present
+    const apiVersion = getAnthropicApiVersion(!!requestBody.system?.length);
+
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "x-api-key": state.apiKey,
+        "Content-Type": "application/json",
+        "anthropic-version": apiVersion,
+        ...(requestBody.tools?.length ? { "anthropic-beta": "tools-2024-04-04" } : {}),
+      },
+      body: JSON.stringify(requestBody),
+    });
 
-      // Use API version from env or default, with caching support if system messages present
-      const apiVersion = getAnthropicApiVersion(finalSystem.length > 0);
+    if (!response.ok) {
+      throw await createProviderHttpError("Claude", response);
+    }
 
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": state.apiKey,
-          "Content-Type": "application/json",
-          "anthropic-version": apiVersion,
-          ...(tools && tools.length > 0 ? { "anthropic-beta": "tools-2024-04-04" } : {}),
-        },
-        body: JSON.stringify(requestBody),
-      });
+    return response;
+  };
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Claude API error: ${response.status} - ${error}`);
-      }
+  // Every attempt passes the rate limiter; transient failures are retried per state.retry
+  const sendRequest = async <T>(
+    operation: string,
+    fn: () => Promise<T>,
+    rateLimitOptions?: RateLimitCallOptions<T>,
+  ): Promise<T> => {
+    return await withRetry(
+      () => withRateLimit(state.rateLimiter, fn, rateLimitOptions),
+      state.retry,
+      operation,
+    );
+  };
 
+  // Charges the prompt plus the completion budget against tokensPerMinute up front
+  const estimateRequestTokens = (body: { max_tokens: number }): number => {
+    return estimateTokens(JSON.stringify(body)) + body.max_tokens;
+  };
+
+  const generateResponse = async (
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): Promise<LLMResponse> => {
+    const requestBody = buildRequestBody(messages, tools, options);
+    return await sendRequest("claude.generateResponse", async () => {
+      const response = await postMessages(requestBody);
       const data = await response.json() as ClaudeResponse;
 
       if (data.error) {
+        if (data.error.type === "overloaded_error") {
+          throw createServiceUnavailableError(`Claude API error: ${data.error.message}`, {
+            provider: "Claude",
+          });
+        }
         throw new Error(`Claude API error: ${data.error.message}`);
       }
 
-      let content = "";
-      if (data.content && Array.isArray(data.content)) {
-        content = data.content
-          .filter((item) => item.type === "text")
-          .map((item) => item.text || "")
-          .join("");
-      }
+      const contentBlocks = Array.isArray(data.content) ? fromClaudeContent(data.content) : [];
 
       return {
-        content,
-        usage: data.usage
-          ? {
-            promptTokens: data.usage.input_tokens || 0,
-            completionTokens: data.usage.output_tokens || 0,
-            totalTokens: (data.usage.input_tokens || 0) +
-              (data.usage.output_tokens || 0),
-            cacheCreationInputTokens: data.usage.cache_creation_input_tokens,
-            cacheReadInputTokens: data.usage.cache_read_input_tokens,
-          }
-          : undefined,
+        content: getTextContent(contentBlocks),
+        contentBlocks,
+        stopReason: toStopReason(data.stop_reason),
+        usage: data.usage ? toUsage(data.usage) : undefined,
         metadata: {
           model: data.model,
           stopReason: data.stop_reason,
         },
       };
+    }, {
+      estimatedTokens: estimateRequestTokens(requestBody),
+      getActualTokens: (result) => result.usage?.totalTokens,
     });
   };
 
-  const streamResponse = async (
+  async function* stream(
     messages: LLMMessage[],
-    onChunk?: (chunk: string) => void,
     tools?: ToolDefinition[],
-  ): Promise<LLMResponse> => {
-    return await withRateLimit(state.rateLimiter, async () => {
-      const anthropicMessages = messages.map((msg) => ({
-        role: msg.role === "system" ? "user" : msg.role,
-        content: msg.role === "system" ? `System: ${msg.content}` : msg.content,
-      }));
-
-      const requestBody: ClaudeRequestBody = {
-        model: state.model,
-        max_tokens: state.maxTokens,
-        temperature: state.temperature,
-        messages: anthropicMessages,
-        stream: true,
-        ...(tools && tools.length > 0
-          ? {
-            tools: tools.map((tool) => ({
-              name: tool.name,
-              description: tool.description,
-              input_schema: {
-                type: "object",
-                properties: tool.parameters,
-              },
-            })),
+    options?: GenerateResponseOptions,
+  ): AsyncGenerator<LLMStreamEvent> {
+    const requestBody = buildRequestBody(messages, tools, options);
+    const response = await sendRequest("claude.stream", async () => {
+      return await postMessages({ ...requestBody, stream: true });
+    }, { estimatedTokens: estimateRequestTokens(requestBody) });
+
+    if (!response.body) {
+      throw new Error("Claude API error: empty streaming response");
+    }
+
+    // Content blocks are assembled by index as deltas arrive
+    const blocks: Array<{ type: string; text: string; id?: string; name?: string }> = [];
+    // Position of each tool_use block among the tool calls, by content block index
+    const toolCallIndices = new Map<number, number>();
+    const usage: ClaudeUsage = {};
+    let model = state.model;
+    let stopReason: string | undefined;
+
+    for await (const event of parseSSEStream(response.body)) {
+      if (!event.data) continue;
+      const data = JSON.parse(event.data) as ClaudeStreamEvent;
+
+      switch (data.type) {
+        case "message_start":
+          model = data.message?.model || model;
+          Object.assign(usage, data.message?.usage);
+          break;
+
+        case "content_block_start": {
+          const block = data.content_block;
+          if (data.index === undefined || !block) break;
+          blocks[data.index] = { type: block.type, text: "", id: block.id, name: block.name };
+          if (block.type === "tool_use") {
+            toolCallIndices.set(data.index, toolCallIndices.size);
+            yield {
+              type: "tool_call_delta",
+              index: toolCallIndices.get(data.index)!,
+              id: block.id,
+              name: block.name,
+              inputJsonDelta: "",
+            };
           }
-          : {}),
-      };
-
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": state.apiKey,
-          "Content-Type": "application/json",
-          "anthropic-version": getAnthropicApiVersion(false),
-          ...(tools && tools.length > 0 ? { "anthropic-beta": "tools-2024-04-04" } : {}),
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Claude API error: ${response.status} - ${error}`);
-      }
+          break;
+        }
 
-      let fullContent = "";
-      let usage: {
-        promptTokens: number;
-        completionTokens: number;
-        totalTokens: number;
-      } | undefined = undefined;
-
-      if (response.body) {
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n");
-
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-
-                  if (data.type === "content_block_delta") {
-                    const text = data.delta?.text || "";
-                    fullContent += text;
-                    if (onChunk) {
-                      onChunk(text);
-                    }
-                  }
-
-                  if (data.type === "message_delta" && data.usage) {
-                    usage = {
-                      promptTokens: 0,
-                      completionTokens: data.usage.output_tokens || 0,
-                      totalTokens: data.usage.output_tokens || 0,
-                    };
-                  }
-                } catch (_e) {
-                  // Ignore JSON parse errors for incomplete chunks
-                  // JSON parse errors for incomplete chunks are expected during streaming
-                  // Silently ignore to avoid log spam
-                }
-              }
-            }
+        case "content_block_delta": {
+          if (data.index === undefined || !data.delta) break;
+          const block = blocks[data.index] ||
+            (blocks[data.index] = { type: "text", text: "" });
+          if (data.delta.type === "text_delta" && data.delta.text) {
+            block.text += data.delta.text;
+            yield { type: "text_delta", text: data.delta.text };
+          } else if (
+            data.delta.type === "input_json_delta" && data.delta.partial_json &&
+            toolCallIndices.has(data.index)
+          ) {
+            block.text += data.delta.partial_json;
+            yield {
+              type: "tool_call_delta",
+              index: toolCallIndices.get(data.index)!,
+              inputJsonDelta: data.delta.partial_json,
+            };
           }
-        } finally {
-          reader.releaseLock();
+          break;
         }
-      }
 
-      return {
-        content: fullContent,
-        usage,
+        case "message_delta":
+          stopReason = data.delta?.stop_reason || stopReason;
+          Object.assign(usage, data.usage);
+          yield { type: "usage", usage: toUsage(usage) };
+          break;
+
+        case "error":
+          throw new Error(`Claude API error: ${data.error?.message || "stream error"}`);
+      }
+    }
+
+    const contentBlocks: LLMContentBlock[] = [];
+    for (const block of blocks) {
+      if (!block) continue;
+      if (block.type === "text") {
+        contentBlocks.push({ type: "text", text: block.text });
+      } else if (block.type === "tool_use" && block.id && block.name) {
+        contentBlocks.push({
+          type: "tool_use",
+          id: block.id,
+          name: block.name,
+          input: parseToolInput(block.text),
+        });
+      }
+    }
+
+    yield {
+      type: "stop",
+      stopReason: toStopReason(stopReason),
+      response: {
+        content: getTextContent(contentBlocks),
+        contentBlocks,
+        stopReason: toStopReason(stopReason),
+        usage: toUsage(usage),
         metadata: {
-          model: state.model,
+          model,
+          stopReason,
           streaming: true,
         },
-      };
-    });
+      },
+    };
+  }
+
+  const streamResponse = async (
+    messages: LLMMessage[],
+    onChunk?: (chunk: string) => void,
+    tools?: ToolDefinition[],
+  ): Promise<LLMResponse> => {
+    return await collectStream(stream(messages, tools), onChunk);
   };
 
   return {
     generateResponse,
     streamResponse,
+    stream,
   };
 }
 
@@ -0,0 +1,179 @@
+import { assertEquals } from "@std/assert";
+import type { LLMMessage, LLMStreamEvent, ToolDefinition } from "../types.ts";
+import { createAssistantMessage, createToolResultBlock, getToolUseBlocks } from "./content.ts";
+import { createClaudeLLM } from "./claude.ts";
+
+// Replaces fetch with a fake Messages API answering every request with `respond`
+const withFakeClaude = async (
+  respond: () => Response,
+  fn: (requests: Array<Record<string, unknown>>) => Promise<void>,
+): Promise<void> => {
+  const originalFetch = globalThis.fetch;
+  const requests: Array<Record<string, unknown>> = [];
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    requests.push(JSON.parse(String(init?.body)));
+    return Promise.resolve(respond());
+  };
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+};
+
+const sseResponse = (events: Array<{ type: string } & Record<string, unknown>>): Response =>
+  new Response(
+    events.map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(""),
+    { headers: { "Content-Type": "text/event-stream" } },
+  );
+
+const createLLM = () =>
+  createClaudeLLM({ provider: "claude", apiKey: "sk-ant-test", model: "claude-test" });
+
+const weatherTool: ToolDefinition = {
+  name: "get_weather",
+  description: "Weather of a city",
+  parameters: { city: { type: "string" } },
+  handler: ({ city }) => ({ city, sky: "sunny" }),
+};
+
+Deno.test("Claude round-trips text, tool_use and tool_result blocks", async () => {
+  const responses = [
+    {
+      model: "claude-test",
+      content: [
+        { type: "text", text: "Checking." },
+        { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Tallinn" } },
+      ],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 20, output_tokens: 10 },
+    },
+    {
+      content: [{ type: "text", text: "Sunny in Tallinn." }],
+      stop_reason: "end_turn",
+    },
+  ];
+  let call = 0;
+
+  await withFakeClaude(() => Response.json(responses[call++]), async (requests) => {
+    const llm = createLLM();
+    const messages: LLMMessage[] = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather in Tallinn?" },
+    ];
+
+    const first = await llm.generateResponse(messages, [weatherTool]);
+    assertEquals(first.content, "Checking.");
+    assertEquals(first.stopReason, "tool_use");
+    assertEquals(first.usage?.totalTokens, 30);
+    const [toolUse] = getToolUseBlocks(first);
+    assertEquals(toolUse.input, { city: "Tallinn" });
+
+    messages.push(createAssistantMessage(first), {
+      role: "user",
+      content: [createToolResultBlock(toolUse.id, await weatherTool.handler(toolUse.input))],
+    });
+    const second = await llm.generateResponse(messages, [weatherTool]);
+    assertEquals(second.content, "Sunny in Tallinn.");
+    assertEquals(second.stopReason, "end_turn");
+
+    assertEquals(requests[1].system, [{ type: "text", text: "Be brief." }]);
+    assertEquals(requests[1].messages, [
+      { role: "user", content: "Weather in Tallinn?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Tallinn" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{
+          type: "tool_result",
+          tool_use_id: "toolu_1",
+          content: '{"city":"Tallinn","sky":"sunny"}',
+        }],
+      },
+    ]);
+  });
+});
+
+Deno.test("Claude translates stop reasons", async () => {
+  const stopReasons = ["end_turn", "max_tokens", "stop_sequence", "refusal", "pause_turn"];
+  let call = 0;
+
+  await withFakeClaude(
+    () =>
+      Response.json({
+        content: [{ type: "text", text: "ok" }],
+        stop_reason: stopReasons[call++],
+      }),
+    async () => {
+      const llm = createLLM();
+      const translated = [];
+      for (const _ of stopReasons) {
+        translated.push((await llm.generateResponse([{ role: "user", content: "hi" }])).stopReason);
+      }
+
+      assertEquals(translated, ["end_turn", "max_tokens", "stop_sequence", "refusal", "other"]);
+    },
+  );
+});
+
+Deno.test("Claude stream assembles text and tool_use blocks", async () => {
+  const respond = () =>
+    sseResponse([
+      {
+        type: "message_start",
+        message: { model: "claude-test", usage: { input_tokens: 12, output_tokens: 1 } },
+      },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Check" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "ing." } },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "get_weather", input: {} },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"city":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '"Tallinn"}' },
+      },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } },
+      { type: "message_stop" },
+    ]);
+
+  await withFakeClaude(respond, async (requests) => {
+    const events: LLMStreamEvent[] = [];
+    for await (
+      const event of createLLM().stream([{ role: "user", content: "Weather?" }], [weatherTool])
+    ) {
+      events.push(event);
+    }
+
+    assertEquals(requests[0].stream, true);
+    assertEquals(
+      events.flatMap((event) =>
+        event.type === "tool_call_delta" ? [[event.index, event.name, event.inputJsonDelta]] : []
+      ),
+      [[0, "get_weather", ""], [0, undefined, '{"city":'], [0, undefined, '"Tallinn"}']],
+    );
+
+    const stop = events.at(-1);
+    assertEquals(stop?.type, "stop");
+    if (stop?.type !== "stop") return;
+    assertEquals(stop.stopReason, "tool_use");
+    assertEquals(stop.response.contentBlocks, [
+      { type: "text", text: "Checking." },
+      { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Tallinn" } },
+    ]);
+    assertEquals(stop.response.usage?.totalTokens, 21);
+  });
+});
@@ -0,0 +1,139 @@
+// Helpers for working with structured LLM content blocks
+import type {
+  LLMContentBlock,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamEvent,
+  TextContentBlock,
+  ToolResultContentBlock,
+  ToolUseContentBlock,
+} from "../types.ts";
+
+/**
+ * Normalizes message content to an array of content blocks.
+ *
+ * @param content Plain string or content blocks
+ * @returns Content blocks (a string becomes a single text block, empty string none)
+ */
+export function toContentBlocks(content: string | LLMContentBlock[]): LLMContentBlock[] {
+  if (typeof content !== "string") {
+    return content;
+  }
+  return content ? [{ type: "text", text: content }] : [];
+}
+
+/**
+ * Extracts the plain text from message content, joining all text blocks.
+ *
+ * @param content Plain string or content blocks
+ * @returns Concatenated text
+ *
+ * @example
+ * ```ts
+ * const text = getTextContent(message.content);
+ * ```
+ */
+export function getTextContent(content: string | LLMContentBlock[]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .filter((block): block is TextContentBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+}
+
+/**
+ * Returns the tool_use blocks of a response, i.e. the tools the model wants to call.
+ *
+ * @param response LLM response
+ * @returns Tool use blocks (empty if the model did not request tools)
+ */
+export function getToolUseBlocks(response: LLMResponse): ToolUseContentBlock[] {
+  return (response.contentBlocks || []).filter(
+    (block): block is ToolUseContentBlock => block.type === "tool_use",
+  );
+}
+
+/**
+ * Builds the assistant message that echoes a response back into the conversation.
+ *
+ * Preserves tool_use blocks so a following tool_result message can reference them.
+ *
+ * @param response LLM response
+ * @returns Assistant message
+ */
+export function createAssistantMessage(response: LLMResponse): LLMMessage {
+  return {
+    role: "assistant",
+    content: response.contentBlocks && response.contentBlocks.length > 0
+      ? response.contentBlocks
+      : response.content,
+  };
+}
+
+/**
+ * Creates a tool_result block for a tool_use block.
+ *
+ * Non-string results are serialized as JSON.
+ *
+ * @param toolUseId ID of the tool_use block being answered
+ * @param result Tool handler result
+ * @param isError Whether the tool failed
+ * @returns Tool result block
+ */
+export function createToolResultBlock(
+  toolUseId: string,
+  result: unknown,
+  isError = false,
+): ToolResultContentBlock {
+  return {
+    type: "tool_result",
+    toolUseId,
+    content: typeof result === "string" ? result : JSON.stringify(result),
+    ...(isError ? { isError } : {}),
+  };
+}
+
+/**
+ * Parses the accumulated JSON input of a streamed tool call.
+ *
+ * @param json Concatenated input JSON deltas
+ * @returns Parsed input object (empty object for empty or malformed input)
+ */
+export function parseToolInput(json: string): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Consumes a stream of LLM events and returns the final response.
+ *
+ * @param events Stream events from `LLMModel.stream()`
+ * @param onChunk Optional callback invoked with every text delta
+ * @returns Final response carried by the "stop" event
+ * @throws Error if the stream ends without a "stop" event
+ *
+ * @example
+ * ```ts
+ * const response = await collectStream(llm.stream(messages), (text) => console.log(text));
+ * ```
+ */
+export async function collectStream(
+  events: AsyncIterable<LLMStreamEvent>,
+  onChunk?: (chunk: string) => void,
+): Promise<LLMResponse> {
+  for await (const event of events) {
+    if (event.type === "text_delta") {
+      onChunk?.(event.text);
+    } else if (event.type === "stop") {
+      return event.response;
+    }
+  }
+  throw new Error("LLM stream ended without a stop event");
+}
@@ -0,0 +1,69 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { LLMResponse, LLMStreamEvent } from "../types.ts";
+import {
+  collectStream,
+  createAssistantMessage,
+  createToolResultBlock,
+  getTextContent,
+  parseToolInput,
+  toContentBlocks,
+} from "./content.ts";
+
+Deno.test("content helpers convert between strings and text blocks", () => {
+  assertEquals(toContentBlocks("hi"), [{ type: "text", text: "hi" }]);
+  assertEquals(toContentBlocks(""), []);
+  assertEquals(
+    getTextContent([
+      { type: "text", text: "Fire " },
+      { type: "tool_use", id: "toolu_1", name: "search", input: {} },
+      { type: "text", text: "exits" },
+    ]),
+    "Fire exits",
+  );
+});
+
+Deno.test("createAssistantMessage keeps tool_use blocks and createToolResultBlock serializes results", () => {
+  const response: LLMResponse = {
+    content: "",
+    contentBlocks: [{ type: "tool_use", id: "toolu_1", name: "search", input: { q: "exit" } }],
+  };
+
+  assertEquals(createAssistantMessage(response), {
+    role: "assistant",
+    content: response.contentBlocks!,
+  });
+  assertEquals(createAssistantMessage({ content: "plain" }), {
+    role: "assistant",
+    content: "plain",
+  });
+  assertEquals(createToolResultBlock("toolu_1", { hits: 2 }, true), {
+    type: "tool_result",
+    toolUseId: "toolu_1",
+    content: '{"hits":2}',
+    isError: true,
+  });
+});
+
+Deno.test("parseToolInput falls back to an empty object for malformed input", () => {
+  assertEquals(parseToolInput('{"city":"Tallinn"}'), { city: "Tallinn" });
+  assertEquals(parseToolInput(""), {});
+  assertEquals(parseToolInput('{"city":'), {});
+  assertEquals(parseToolInput("[1, 2]"), {});
+});
+
+Deno.test("collectStream forwards text deltas and returns the stop event's response", async () => {
+  async function* events(withStop: boolean): AsyncGenerator<LLMStreamEvent> {
+    yield { type: "text_delta", text: "Fire " };
+    yield { type: "text_delta", text: "exits" };
+    if (withStop) {
+      yield { type: "stop", stopReason: "end_turn", response: { content: "Fire exits" } };
+    }
+  }
+  const chunks: string[] = [];
+
+  const response = await collectStream(events(true), (chunk) => chunks.push(chunk));
+
+  assertEquals(chunks, ["Fire ", "exits"]);
+  assertEquals(response.content, "Fire exits");
+  await assertRejects(() => collectStream(events(false)), Error, "without a stop event");
+});
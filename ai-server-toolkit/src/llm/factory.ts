@@ -0,0 +1,31 @@
+// LLM provider dispatch
+import type { LLMConfig, LLMModel } from "../types.ts";
+import { createClaudeLLM } from "./claude.ts";
+import { createOpenAILLM } from "./openai.ts";
+
+/**
+ * Creates an LLM client for the provider named in the configuration.
+ *
+ * "claude" uses the Anthropic Messages API, "openai" the OpenAI Chat Completions API,
+ * and "local" any OpenAI-compatible server reachable at `config.baseUrl`.
+ *
+ * @param config LLM configuration
+ * @returns LLM model implementing the LLMModel interface
+ * @throws Error if the provider is not supported
+ *
+ * @example
+ * ```ts
+ * const llm = createLLM({ provider: "openai", apiKey: "sk-...", model: "gpt-4o-mini" });
+ * ```
+ */
+export function createLLM(config: LLMConfig): LLMModel {
+  switch (config.provider) {
+    case "claude":
+      return createClaudeLLM(config);
+    case "openai":
+    case "local":
+      return createOpenAILLM(config);
+    default:
+      throw new Error(`Unsupported LLM provider: ${(config as LLMConfig).provider}`);
+  }
+}
@@ -0,0 +1,30 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import type { LLMConfig } from "../types.ts";
+import { createLLM } from "./factory.ts";
+
+Deno.test("createLLM sends local providers to their OpenAI-compatible server", async () => {
+  const originalFetch = globalThis.fetch;
+  const urls: string[] = [];
+  globalThis.fetch = (input: string | URL | Request) => {
+    urls.push(String(input));
+    return Promise.resolve(
+      Response.json({ choices: [{ message: { content: "hi" }, finish_reason: "stop" }] }),
+    );
+  };
+  try {
+    const llm = createLLM({ provider: "local", apiKey: "", baseUrl: "http://localhost:8000/v1/" });
+
+    assertEquals((await llm.generateResponse([{ role: "user", content: "hello" }])).content, "hi");
+    assertEquals(urls, ["http://localhost:8000/v1/chat/completions"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("createLLM rejects unknown providers", () => {
+  assertThrows(
+    () => createLLM({ provider: "gemini", apiKey: "key" } as unknown as LLMConfig),
+    Error,
+    "Unsupported LLM provider: gemini",
+  );
+});
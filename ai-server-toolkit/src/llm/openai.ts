@@ -0,0 +1,517 @@
+// Functional OpenAI Chat Completions integration (also covers OpenAI-compatible servers)
+import {
+  createRateLimiter,
+  createRateLimitKey,
+  estimateTokens,
+  type RateLimitCallOptions,
+  type RateLimitState,
+  withRateLimit,
+} from "../utils/rate-limiter.ts";
+import { createProviderHttpError, withRetry } from "../utils/retry.ts";
+import type {
+  GenerateResponseOptions,
+  LLMConfig,
+  LLMContentBlock,
+  LLMMessage,
+  LLMModel,
+  LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+  LLMUsage,
+  MediaSource,
+  RetryConfig,
+  ToolDefinition,
+} from "../types.ts";
+import { collectStream, getTextContent, parseToolInput } from "./content.ts";
+import { parseSSEStream } from "./sse.ts";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+interface OpenAIChatState {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  rateLimiter: RateLimitState;
+  retry?: RetryConfig;
+}
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { file_data: string; filename?: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIChatMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIChatRequestBody {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens: number;
+  temperature: number;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  tools?: Array<{
+    type: "function";
+    function: {
+      name: string;
+      description: string;
+      parameters: {
+        type: string;
+        properties: Record<string, unknown>;
+      };
+    };
+  }>;
+}
+
+interface OpenAIChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface OpenAIChatResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIChatUsage;
+  error?: { message: string };
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIChatUsage | null;
+}
+
+const toDataUrl = (source: MediaSource): string => {
+  return source.type === "base64" ? `data:${source.mediaType};base64,${source.data}` : source.url;
+};
+
+const toContentPart = (block: LLMContentBlock): OpenAIContentPart => {
+  switch (block.type) {
+    case "text":
+      return { type: "text", text: block.text };
+    case "image":
+      return { type: "image_url", image_url: { url: toDataUrl(block.source) } };
+    case "document":
+      if (block.source.type !== "base64") {
+        throw new Error("OpenAI chat API only supports base64 document sources");
+      }
+      return {
+        type: "file",
+        file: {
+          file_data: toDataUrl(block.source),
+          ...(block.title ? { filename: block.title } : {}),
+        },
+      };
+    default:
+      throw new Error(`Content block "${block.type}" cannot be sent as an OpenAI content part`);
+  }
+};
+
+/**
+ * Converts toolkit messages to Chat Completions messages.
+ *
+ * tool_use blocks become assistant tool_calls and every tool_result block becomes
+ * a separate "tool" role message, as the Chat Completions API expects.
+ */
+const toOpenAIMessages = (messages: LLMMessage[]): OpenAIChatMessage[] => {
+  const result: OpenAIChatMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      result.push({ role: "system", content: getTextContent(msg.content) });
+      continue;
+    }
+
+    if (typeof msg.content === "string") {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const toolCalls: OpenAIToolCall[] = [];
+      for (const block of msg.content) {
+        if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: JSON.stringify(block.input) },
+          });
+        }
+      }
+      const text = getTextContent(msg.content);
+      result.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    const parts: OpenAIContentPart[] = [];
+    for (const block of msg.content) {
+      if (block.type === "tool_result") {
+        result.push({
+          role: "tool",
+          tool_call_id: block.toolUseId,
+          content: typeof block.content === "string"
+            ? block.content
+            : getTextContent(block.content),
+        });
+      } else {
+        parts.push(toContentPart(block));
+      }
+    }
+    if (parts.length > 0) {
+      result.push({ role: "user", content: parts });
+    }
+  }
+
+  return result;
+};
+
+const toOpenAITools = (tools: ToolDefinition[]): OpenAIChatRequestBody["tools"] => {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: {
+        type: "object",
+        properties: tool.parameters,
+      },
+    },
+  }));
+};
+
+const toStopReason = (finishReason?: string | null): LLMStopReason | undefined => {
+  if (!finishReason) return undefined;
+  switch (finishReason) {
+    case "stop":
+      return "end_turn";
+    case "tool_calls":
+    case "function_call":
+      return "tool_use";
+    case "length":
+      return "max_tokens";
+    case "content_filter":
+      return "refusal";
+    default:
+      return "other";
+  }
+};
+
+const toUsage = (usage: OpenAIChatUsage): LLMUsage => {
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+    cacheReadInputTokens: usage.prompt_tokens_details?.cached_tokens,
+  };
+};
+
+const fromOpenAIOutput = (
+  text: string,
+  toolCalls: Array<{ id: string; name: string; arguments: string }>,
+): LLMContentBlock[] => {
+  const blocks: LLMContentBlock[] = [];
+  if (text) {
+    blocks.push({ type: "text", text });
+  }
+  for (const call of toolCalls) {
+    blocks.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.name,
+      input: parseToolInput(call.arguments),
+    });
+  }
+  return blocks;
+};
+
+/**
+ * Creates an OpenAI Chat Completions client with rate limiting.
+ *
+ * Works with the OpenAI API and any OpenAI-compatible server (vLLM, llama.cpp server,
+ * Ollama, ...) via `baseUrl`. With provider "local" the API key is optional and the
+ * base URL defaults to a local Ollama instance.
+ *
+ * @param config LLM configuration with API key, model, base URL, and parameters
+ * @returns OpenAI LLM model implementing the LLMModel interface
+ *
+ * @example
+ * ```ts
+ * const llm = createOpenAILLM({
+ *   provider: "openai",
+ *   apiKey: "sk-...",
+ *   model: "gpt-4o-mini",
+ * });
+ *
+ * const local = createOpenAILLM({
+ *   provider: "local",
+ *   apiKey: "",
+ *   baseUrl: "http://localhost:8000/v1",
+ *   model: "meta-llama/Llama-3.1-8B-Instruct",
+ * });
+ * ```
+ */
+export function createOpenAILLM(config: LLMConfig): LLMModel {
+  const isLocal = config.provider === "local";
+  if (!config.apiKey && !isLocal) {
+    throw new Error("OpenAI API key is required");
+  }
+
+  const defaultBaseUrl = isLocal
+    ? Deno.env.get("LOCAL_LLM_BASE_URL") || DEFAULT_LOCAL_BASE_URL
+    : Deno.env.get("OPENAI_BASE_URL") || DEFAULT_OPENAI_BASE_URL;
+  const defaultModel = isLocal
+    ? Deno.env.get("LOCAL_LLM_DEFAULT_MODEL") || "llama3.1"
+    : Deno.env.get("OPENAI_DEFAULT_MODEL") || "gpt-4o-mini";
+  const defaultMaxTokens = parseInt(Deno.env.get("OPENAI_DEFAULT_MAX_TOKENS") || "4096", 10);
+  const defaultTemperature = parseFloat(Deno.env.get("OPENAI_DEFAULT_TEMPERATURE") || "0.7");
+  const defaultRequestsPerMinute = parseInt(
+    Deno.env.get("OPENAI_RATE_LIMIT_PER_MINUTE") || "500",
+    10,
+  );
+
+  const state: OpenAIChatState = {
+    apiKey: config.apiKey,
+    baseUrl: (config.baseUrl || defaultBaseUrl).replace(/\/+$/, ""),
+    model: config.model || defaultModel,
+    maxTokens: config.maxTokens || defaultMaxTokens,
+    temperature: config.temperature ?? defaultTemperature,
+    rateLimiter: createRateLimiter({
+      requestsPerMinute: defaultRequestsPerMinute,
+      storeKey: createRateLimitKey("openai", config.apiKey),
+      ...config.rateLimit,
+    }),
+    retry: config.retry,
+  };
+
+  const buildRequestBody = (
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): OpenAIChatRequestBody => {
+    let chatMessages = toOpenAIMessages(messages);
+
+    // options.system replaces system messages, mirroring the Claude adapter
+    if (options?.system && options.system.length > 0) {
+      chatMessages = [
+        { role: "system", content: options.system.map((block) => block.text).join("\n\n") },
+        ...chatMessages.filter((msg) => msg.role !== "system"),
+      ];
+    }
+
+    return {
+      model: state.model,
+      messages: chatMessages,
+      max_tokens: state.maxTokens,
+      temperature: state.temperature,
+      ...(tools && tools.length > 0 ? { tools: toOpenAITools(tools) } : {}),
+    };
+  };
+
+  const postChatCompletion = async (body: OpenAIChatRequestBody): Promise<Response> => {
+    const response = await fetch(`${state.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        ...(state.apiKey ? { "Authorization": `Bearer ${state.apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await createProviderHttpError("OpenAI", response);
+    }
+
+    return response;
+  };
+
+  // Every attempt passes the rate limiter; transient failures are retried per state.retry
+  const sendRequest = async <T>(
+    operation: string,
+    fn: () => Promise<T>,
+    rateLimitOptions?: RateLimitCallOptions<T>,
+  ): Promise<T> => {
+    return await withRetry(
+      () => withRateLimit(state.rateLimiter, fn, rateLimitOptions),
+      state.retry,
+      operation,
+    );
+  };
+
+  // Charges the prompt plus the completion budget against tokensPerMinute up front
+  const estimateRequestTokens = (body: { max_tokens: number }): number => {
+    return estimateTokens(JSON.stringify(body)) + body.max_tokens;
+  };
+
+  const generateResponse = async (
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): Promise<LLMResponse> => {
+    const requestBody = buildRequestBody(messages, tools, options);
+    return await sendRequest("openai.generateResponse", async () => {
+      const response = await postChatCompletion(requestBody);
+      const data = await response.json() as OpenAIChatResponse;
+
+      if (data.error) {
+        throw new Error(`OpenAI API error: ${data.error.message}`);
+      }
+
+      const choice = data.choices?.[0];
+      if (!choice) {
+        throw new Error("Invalid response from OpenAI API");
+      }
+
+      const text = choice.message?.content || "";
+      const contentBlocks = fromOpenAIOutput(
+        text,
+        (choice.message?.tool_calls || []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+      );
+
+      return {
+        content: text,
+        contentBlocks,
+        stopReason: toStopReason(choice.finish_reason),
+        usage: data.usage ? toUsage(data.usage) : undefined,
+        metadata: {
+          model: data.model,
+          stopReason: choice.finish_reason,
+        },
+      };
+    }, {
+      estimatedTokens: estimateRequestTokens(requestBody),
+      getActualTokens: (result) => result.usage?.totalTokens,
+    });
+  };
+
+  async function* stream(
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): AsyncGenerator<LLMStreamEvent> {
+    const requestBody = buildRequestBody(messages, tools, options);
+    const response = await sendRequest("openai.stream", async () => {
+      return await postChatCompletion({
+        ...requestBody,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+    }, { estimatedTokens: estimateRequestTokens(requestBody) });
+
+    if (!response.body) {
+      throw new Error("OpenAI API error: empty streaming response");
+    }
+
+    let fullContent = "";
+    let model = state.model;
+    let finishReason: string | null | undefined;
+    let usage: LLMUsage | undefined;
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    for await (const event of parseSSEStream(response.body)) {
+      if (!event.data || event.data === "[DONE]") continue;
+      const data = JSON.parse(event.data) as OpenAIChatChunk;
+      model = data.model || model;
+      const choice = data.choices?.[0];
+
+      const text = choice?.delta?.content || "";
+      if (text) {
+        fullContent += text;
+        yield { type: "text_delta", text };
+      }
+
+      for (const delta of choice?.delta?.tool_calls || []) {
+        const call = toolCalls[delta.index] ||
+          (toolCalls[delta.index] = { id: "", name: "", arguments: "" });
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.arguments += delta.function.arguments;
+        yield {
+          type: "tool_call_delta",
+          index: delta.index,
+          ...(delta.id ? { id: delta.id } : {}),
+          ...(delta.function?.name ? { name: delta.function.name } : {}),
+          inputJsonDelta: delta.function?.arguments || "",
+        };
+      }
+
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (data.usage) {
+        usage = toUsage(data.usage);
+        yield { type: "usage", usage };
+      }
+    }
+
+    const stopReason = toStopReason(finishReason);
+    yield {
+      type: "stop",
+      stopReason,
+      response: {
+        content: fullContent,
+        contentBlocks: fromOpenAIOutput(fullContent, toolCalls.filter(Boolean)),
+        stopReason,
+        usage,
+        metadata: {
+          model,
+          stopReason: finishReason,
+          streaming: true,
+        },
+      },
+    };
+  }
+
+  const streamResponse = async (
+    messages: LLMMessage[],
+    onChunk?: (chunk: string) => void,
+    tools?: ToolDefinition[],
+  ): Promise<LLMResponse> => {
+    return await collectStream(stream(messages, tools), onChunk);
+  };
+
+  return {
+    generateResponse,
+    streamResponse,
+    stream,
+  };
+}
@@ -0,0 +1,177 @@
+import { assertEquals } from "@std/assert";
+import type { LLMMessage, LLMStreamEvent, ToolDefinition } from "../types.ts";
+import { createToolResultBlock } from "./content.ts";
+import { createOpenAILLM } from "./openai.ts";
+
+// Replaces fetch with a fake Chat Completions API answering every request with `respond`
+const withFakeOpenAI = async (
+  respond: () => Response,
+  fn: (requests: Array<Record<string, unknown>>) => Promise<void>,
+): Promise<void> => {
+  const originalFetch = globalThis.fetch;
+  const requests: Array<Record<string, unknown>> = [];
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    requests.push(JSON.parse(String(init?.body)));
+    return Promise.resolve(respond());
+  };
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+};
+
+const sseResponse = (chunks: unknown[]): Response =>
+  new Response(
+    [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join(""),
+    { headers: { "Content-Type": "text/event-stream" } },
+  );
+
+const createLLM = () =>
+  createOpenAILLM({ provider: "openai", apiKey: "sk-test", model: "gpt-test" });
+
+const weatherTool: ToolDefinition = {
+  name: "get_weather",
+  description: "Weather of a city",
+  parameters: { city: { type: "string" } },
+  handler: ({ city }) => ({ city, sky: "sunny" }),
+};
+
+Deno.test("OpenAI generateResponse returns tool calls as tool_use blocks", async () => {
+  const respond = () =>
+    Response.json({
+      model: "gpt-test",
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"city":"Tallinn"}' },
+            },
+            {
+              id: "call_2",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"city":"Riga"}' },
+            },
+          ],
+        },
+        finish_reason: "tool_calls",
+      }],
+      usage: { prompt_tokens: 20, completion_tokens: 10, total_tokens: 30 },
+    });
+
+  await withFakeOpenAI(respond, async (requests) => {
+    const response = await createLLM().generateResponse(
+      [{ role: "user", content: "Weather in Tallinn and Riga?" }],
+      [weatherTool],
+    );
+
+    assertEquals(response.content, "");
+    assertEquals(response.contentBlocks, [
+      { type: "tool_use", id: "call_1", name: "get_weather", input: { city: "Tallinn" } },
+      { type: "tool_use", id: "call_2", name: "get_weather", input: { city: "Riga" } },
+    ]);
+    assertEquals(response.stopReason, "tool_use");
+    assertEquals(response.usage?.totalTokens, 30);
+    assertEquals(requests[0].tools, [{
+      type: "function",
+      function: {
+        name: "get_weather",
+        description: "Weather of a city",
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+      },
+    }]);
+  });
+});
+
+Deno.test("OpenAI sends tool_use and tool_result blocks as tool_calls and tool messages", async () => {
+  const respond = () =>
+    Response.json({
+      choices: [{ message: { content: "Sunny in Tallinn." }, finish_reason: "stop" }],
+    });
+
+  await withFakeOpenAI(respond, async (requests) => {
+    const messages: LLMMessage[] = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather in Tallinn?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "call_1", name: "get_weather", input: { city: "Tallinn" } },
+        ],
+      },
+      { role: "user", content: [createToolResultBlock("call_1", { sky: "sunny" })] },
+    ];
+
+    const response = await createLLM().generateResponse(messages, [weatherTool]);
+
+    assertEquals(response.content, "Sunny in Tallinn.");
+    assertEquals(response.stopReason, "end_turn");
+    assertEquals(requests[0].messages, [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather in Tallinn?" },
+      {
+        role: "assistant",
+        content: "Checking.",
+        tool_calls: [{
+          id: "call_1",
+          type: "function",
+          function: { name: "get_weather", arguments: '{"city":"Tallinn"}' },
+        }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: '{"sky":"sunny"}' },
+    ]);
+  });
+});
+
+Deno.test("OpenAI stream assembles interleaved deltas of several tool calls", async () => {
+  const toolCallDelta = (index: number, fields: Record<string, unknown>) => ({
+    choices: [{ delta: { tool_calls: [{ index, ...fields }] } }],
+  });
+  const respond = () =>
+    sseResponse([
+      { model: "gpt-test", choices: [{ delta: { content: "Checking " } }] },
+      { choices: [{ delta: { content: "both." } }] },
+      toolCallDelta(0, { id: "call_1", function: { name: "get_weather", arguments: "" } }),
+      toolCallDelta(1, { id: "call_2", function: { name: "get_weather", arguments: '{"ci' } }),
+      toolCallDelta(0, { function: { arguments: '{"city":' } }),
+      toolCallDelta(1, { function: { arguments: 'ty":"Riga"}' } }),
+      toolCallDelta(0, { function: { arguments: '"Tallinn"}' } }),
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+      { choices: [], usage: { prompt_tokens: 12, completion_tokens: 8 } },
+    ]);
+
+  await withFakeOpenAI(respond, async (requests) => {
+    const events: LLMStreamEvent[] = [];
+    for await (const event of createLLM().stream([{ role: "user", content: "Weather?" }])) {
+      events.push(event);
+    }
+
+    assertEquals(requests[0].stream, true);
+    assertEquals(
+      events.filter((event) => event.type === "text_delta").map((event) => event.text),
+      ["Checking ", "both."],
+    );
+    assertEquals(
+      events.flatMap((event) =>
+        event.type === "tool_call_delta" ? [[event.index, event.inputJsonDelta]] : []
+      ),
+      [[0, ""], [1, '{"ci'], [0, '{"city":'], [1, 'ty":"Riga"}'], [0, '"Tallinn"}']],
+    );
+
+    const stop = events.at(-1);
+    assertEquals(stop?.type, "stop");
+    if (stop?.type !== "stop") return;
+    assertEquals(stop.stopReason, "tool_use");
+    assertEquals(stop.response.content, "Checking both.");
+    assertEquals(stop.response.contentBlocks, [
+      { type: "text", text: "Checking both." },
+      { type: "tool_use", id: "call_1", name: "get_weather", input: { city: "Tallinn" } },
+      { type: "tool_use", id: "call_2", name: "get_weather", input: { city: "Riga" } },
+    ]);
+    assertEquals(stop.response.usage?.totalTokens, 20);
+  });
+});
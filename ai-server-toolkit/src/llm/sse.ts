@@ -0,0 +1,154 @@
+// Server-Sent Events parsing and encoding for streaming LLM responses
+import type { LLMStreamEvent } from "../types.ts";
+
+/**
+ * A single Server-Sent Event
+ */
+export interface SSEEvent {
+  /** Event name from the `event:` field ("message" if absent) */
+  event: string;
+  /** Data lines joined with "\n" */
+  data: string;
+  /** Event ID from the `id:` field */
+  id?: string;
+}
+
+/**
+ * Parses a Server-Sent Events byte stream into events.
+ *
+ * Bytes are buffered until a full event (terminated by a blank line) has arrived,
+ * so events that span network chunk boundaries are reassembled instead of dropped.
+ * Handles `\n`, `\r\n` and `\r` line endings, multi-line `data:` fields and comments.
+ *
+ * @param body Response body stream
+ * @returns Async iterable of parsed events
+ *
+ * @example
+ * ```ts
+ * for await (const event of parseSSEStream(response.body!)) {
+ *   if (event.data === "[DONE]") break;
+ *   console.log(event.event, JSON.parse(event.data));
+ * }
+ * ```
+ */
+export async function* parseSSEStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventName = "";
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+
+  const processLine = (line: string): SSEEvent | null => {
+    // Blank line dispatches the pending event
+    if (line === "") {
+      if (dataLines.length === 0) {
+        eventName = "";
+        return null;
+      }
+      const event: SSEEvent = {
+        event: eventName || "message",
+        data: dataLines.join("\n"),
+        ...(eventId !== undefined ? { id: eventId } : {}),
+      };
+      eventName = "";
+      dataLines = [];
+      return event;
+    }
+
+    // Comment line
+    if (line.startsWith(":")) return null;
+
+    const colonIndex = line.indexOf(":");
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") eventName = value;
+    else if (field === "data") dataLines.push(value);
+    else if (field === "id") eventId = value;
+
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Split on any line ending; keep the trailing partial line in the buffer.
+      // A trailing "\r" may be the first half of "\r\n", so wait for more data.
+      let match: RegExpExecArray | null;
+      const lineEnding = /\r\n|\n|\r(?!$)/g;
+      let consumed = 0;
+      while ((match = lineEnding.exec(buffer)) !== null) {
+        const event = processLine(buffer.slice(consumed, match.index));
+        consumed = match.index + match[0].length;
+        if (event) yield event;
+      }
+      buffer = buffer.slice(consumed);
+
+      if (done) {
+        // Flush a final event that was not terminated by a blank line
+        if (buffer.length > 0) {
+          processLine(buffer.replace(/\r$/, ""));
+          buffer = "";
+        }
+        const event = processLine("");
+        if (event) yield event;
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Encodes stream events as a byte stream for HTTP responses.
+ *
+ * "sse" produces `event: <type>` / `data: <json>` frames suitable for EventSource
+ * clients, "ndjson" produces one JSON object per line.
+ *
+ * @param events Stream events, e.g. from `llm.stream()`
+ * @param format Output format (default: "sse")
+ * @returns ReadableStream that can be passed directly to `new Response()`
+ *
+ * @example
+ * ```ts
+ * const body = createEventStream(llm.stream(messages));
+ * return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+ * ```
+ */
+export function createEventStream(
+  events: AsyncIterable<LLMStreamEvent>,
+  format: "sse" | "ndjson" = "sse",
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = events[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const json = JSON.stringify(value);
+        controller.enqueue(
+          encoder.encode(
+            format === "sse" ? `event: ${value.type}\ndata: ${json}\n\n` : `${json}\n`,
+          ),
+        );
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { assertEquals } from "@std/assert";
+import type { LLMStreamEvent } from "../types.ts";
+import { createEventStream, parseSSEStream, type SSEEvent } from "./sse.ts";
+
+const streamOf = (chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const parse = async (chunks: string[]): Promise<SSEEvent[]> => {
+  const events: SSEEvent[] = [];
+  for await (const event of parseSSEStream(streamOf(chunks))) events.push(event);
+  return events;
+};
+
+Deno.test("parseSSEStream reassembles events split across chunks", async () => {
+  const events = await parse(["event: delta\nda", 'ta: {"text":', '"hi"}\n', "\ndata: [DONE]\n\n"]);
+
+  assertEquals(events, [
+    { event: "delta", data: '{"text":"hi"}' },
+    { event: "message", data: "[DONE]" },
+  ]);
+});
+
+Deno.test("parseSSEStream handles CRLF and CR line endings, also split mid-ending", async () => {
+  const events = await parse(["data: a\r", "\n\r\n", "data: b\r\r", "data: c\r\n\r\n"]);
+
+  assertEquals(events.map((event) => event.data), ["a", "b", "c"]);
+});
+
+Deno.test("parseSSEStream joins multi-line data and skips comments", async () => {
+  const events = await parse([": keep-alive\n\n", "id: 7\ndata: line one\ndata:line two\n\n"]);
+
+  assertEquals(events, [{ event: "message", data: "line one\nline two", id: "7" }]);
+});
+
+Deno.test("parseSSEStream flushes a final event without a trailing blank line", async () => {
+  const events = await parse(["data: first\n\n", "event: end\ndata: last"]);
+
+  assertEquals(events.map((event) => [event.event, event.data]), [
+    ["message", "first"],
+    ["end", "last"],
+  ]);
+});
+
+Deno.test("createEventStream output parses back into the same events", async () => {
+  async function* source(): AsyncGenerator<LLMStreamEvent> {
+    yield { type: "text_delta", text: "Hello\nworld" };
+    yield { type: "stop", stopReason: "end_turn", response: { content: "Hello\nworld" } };
+  }
+
+  const parsed: SSEEvent[] = [];
+  for await (const event of parseSSEStream(createEventStream(source()))) parsed.push(event);
+
+  assertEquals(parsed.map((event) => event.event), ["text_delta", "stop"]);
+  assertEquals(JSON.parse(parsed[0].data), { type: "text_delta", text: "Hello\nworld" });
+});
+
+Deno.test("createEventStream writes one JSON object per line in ndjson format", async () => {
+  async function* source(): AsyncGenerator<LLMStreamEvent> {
+    yield { type: "text_delta", text: "a" };
+    yield { type: "text_delta", text: "b" };
+  }
+
+  const text = await new Response(createEventStream(source(), "ndjson")).text();
+
+  assertEquals(text.trim().split("\n").map((line) => JSON.parse(line).text), ["a", "b"]);
+});
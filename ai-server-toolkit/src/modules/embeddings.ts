@@ -10,4 +10,11 @@ export {
   embedText,
   embedTexts,
 } from "../embeddings/openai.ts";
-
+export { createLocalEmbeddings } from "../embeddings/local.ts";
+export { createEmbeddings, isEmbeddingModel } from "../embeddings/factory.ts";
+export {
+  type CachedEmbeddingModel,
+  createCachedEmbeddings,
+  type EmbeddingCacheOptions,
+  type EmbeddingCacheStats,
+} from "../embeddings/cache.ts";
@@ -6,7 +6,9 @@
 
 import type {
   AgentConfig,
+  EmbeddingConfig,
   EmbeddingModel,
+  LLMConfig,
   LLMMessage,
   LLMModel,
   SearchOptions,
@@ -22,9 +24,14 @@ import { createSearchTool } from "../agents/base.ts";
  * Creates a complete AI system with vector store, embeddings, and LLM capabilities.
  *
  * This is the main factory function for setting up an AI-powered server with all necessary components.
- * It initializes LanceDB for vector storage, OpenAI for embeddings, and Claude for LLM capabilities.
+ * It initializes LanceDB for vector storage, the configured embedding provider (OpenAI or the
+ * offline "local" provider), and the configured LLM provider (Claude, OpenAI or a local
+ * OpenAI-compatible server).
  *
- * @param config Configuration object with vector store, embeddings, and LLM settings
+ * A single embedding model is created (or the injected one used) and shared with the vector
+ * store, so both use the same client, cache and rate limiter.
+ *
+ * @param config Configuration object with vector store, embeddings (config or model), and LLM settings
  * @returns Promise resolving to AI system with embeddings, vectorStore, llm, and convenience methods
  */
 export async function createAISystem(config: {
@@ -33,17 +40,8 @@ export async function createAISystem(config: {
     path: string;
     dimensions?: number;
   };
-  embeddings: {
-    provider: "openai";
-    apiKey: string;
-    model?: string;
-    dimensions?: number;
-  };
-  llm: {
-    provider: "claude";
-    apiKey: string;
-    model?: string;
-  };
+  embeddings: EmbeddingConfig | EmbeddingModel;
+  llm: LLMConfig;
 }): Promise<{
   embeddings: EmbeddingModel;
   vectorStore: VectorStore;
@@ -57,7 +55,7 @@ export async function createAISystem(config: {
   ) => Promise<import("../types.ts").LLMResponse>;
   createAgent: (config: AgentConfig) => AgentState;
 }> {
-  const { createOpenAIEmbeddings } = await import("../embeddings/openai.ts");
+  const { createEmbeddings, isEmbeddingModel } = await import("../embeddings/factory.ts");
   const {
     createLanceDB,
     initializeTable,
@@ -65,12 +63,14 @@ export async function createAISystem(config: {
     addDocument,
     addDocuments,
   } = await import("../vector-store/lancedb.ts");
-  const { createClaudeLLM, generateResponse } = await import(
-    "../llm/claude.ts"
-  );
+  const { generateResponse } = await import("../llm/claude.ts");
+  const { createLLM } = await import("../llm/factory.ts");
   const { createAgent } = await import("../agents/base.ts");
 
-  const embeddings = createOpenAIEmbeddings(config.embeddings);
+  const embeddings = isEmbeddingModel(config.embeddings) ? config.embeddings : createEmbeddings({
+    ...config.embeddings,
+    dimensions: config.embeddings.dimensions ?? config.vectorStore.dimensions,
+  });
 
   const vectorStore = await createLanceDB(
     {
@@ -78,12 +78,13 @@ export async function createAISystem(config: {
       path: config.vectorStore.path,
       dimensions: config.vectorStore.dimensions,
     },
-    config.embeddings,
+    // Share one embedder (and its rate limiter) between the system and the vector store
+    embeddings,
   );
 
   await initializeTable(vectorStore);
 
-  const llm = createClaudeLLM(config.llm);
+  const llm = createLLM(config.llm);
 
   return {
     embeddings,
@@ -212,4 +213,3 @@ Use the search tool to find relevant information before answering questions.`,
     },
   };
 }
-
@@ -0,0 +1,24 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createAISystem } from "./factories.ts";
+
+Deno.test("createAISystem shares an injected embedding model with its vector store", async () => {
+  const path = await Deno.makeTempDir({ prefix: "ai_system_test_" });
+  const embeddings = createHashEmbeddings({ dimensions: 16 });
+  try {
+    const system = await createAISystem({
+      vectorStore: { provider: "lancedb", path, dimensions: 16 },
+      embeddings,
+      llm: { provider: "claude", apiKey: "test-key" },
+    });
+
+    await system.addDocument({ id: "doc", content: "shared embedder" });
+    const [result] = await system.search("shared embedder");
+
+    assertStrictEquals(system.embeddings, embeddings);
+    assertEquals(result.id, "doc");
+    assertEquals(embeddings.calls, [["shared embedder"], ["shared embedder"]]);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
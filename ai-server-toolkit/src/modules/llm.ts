@@ -5,4 +5,16 @@
  */
 
 export { createClaudeLLM, generateResponse, streamResponse } from "../llm/claude.ts";
+export { createOpenAILLM } from "../llm/openai.ts";
+export { createLLM } from "../llm/factory.ts";
 
+export {
+  collectStream,
+  createAssistantMessage,
+  createToolResultBlock,
+  getTextContent,
+  getToolUseBlocks,
+  parseToolInput,
+  toContentBlocks,
+} from "../llm/content.ts";
+export { createEventStream, parseSSEStream, type SSEEvent } from "../llm/sse.ts";
@@ -0,0 +1,31 @@
+/**
+ * Testing utilities module exports
+ *
+ * Scripted and deterministic models plus record/replay wrappers for running agents,
+ * RAG and workspace flows without network access.
+ */
+
+export {
+  createMockLLM,
+  type MockLLM,
+  type MockLLMCall,
+  type MockLLMOptions,
+  type MockLLMReply,
+  type MockLLMResponse,
+  replayResponse,
+} from "../testing/mock-llm.ts";
+export {
+  createHashEmbeddings,
+  type HashEmbeddingModel,
+  type HashEmbeddingsOptions,
+} from "../testing/mock-embeddings.ts";
+export {
+  createRecordReplayEmbeddings,
+  createRecordReplayLLM,
+  type FixtureFile,
+  type FixtureMode,
+  type FixtureStoreOptions,
+  type FixtureStoreState,
+  openFixtureStore,
+  saveFixtureStore,
+} from "../testing/record-replay.ts";
@@ -7,14 +7,26 @@
 // Rate limiter utilities
 export {
   canMakeRequest,
+  createKVRateLimiter,
   createRateLimiter,
+  createRateLimitKey,
   estimateTokens,
   getWaitTime,
+  type RateLimitCallOptions,
   type RateLimitState,
   recordRequest,
   withRateLimit,
 } from "../utils/rate-limiter.ts";
 
+// Retry utilities
+export {
+  createProviderHttpError,
+  isNetworkError,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from "../utils/retry.ts";
+
 // Document utilities
 export {
   contentTypeToMimeType,
@@ -55,4 +67,3 @@ export * from "../utils/errors.ts";
  * @since 1.11.0
  */
 export * from "../services/crud-service.ts";
-
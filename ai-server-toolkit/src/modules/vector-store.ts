@@ -14,23 +14,111 @@ export {
   createLanceDB,
   // Workspace-specific functions
   createWorkspaceTable,
+  declareMetadataSchema,
   deleteDocument,
   deleteWorkspaceDocument,
   deleteWorkspaceTable,
   getDocument,
+  getDocuments,
   getStats,
   getWorkspaceDocument,
+  getWorkspaceDocuments,
   initializeTable,
   type LanceDBState,
+  type LanceDBVectorStore,
+  listTableMetadataFields,
   listWorkspaceTables,
+  type OptimizeTableStats,
+  replaceTable,
+  type ScalarIndexType,
   searchByEmbedding,
   searchSimilar,
   searchWorkspace,
   searchWorkspaceByEmbedding,
+  type TableIndexInfo,
   updateDocument,
   updateWorkspaceDocument,
+  type VectorIndexOptions,
+  type VectorIndexType,
 } from "../vector-store/lancedb.ts";
 
+// In-memory vector store (no native dependencies, JSON snapshots)
+export {
+  createMemoryVectorStore,
+  type MemoryVectorStore,
+  type MemoryVectorStoreSnapshot,
+} from "../vector-store/memory.ts";
+
+// Deno KV vector store (small workspaces, runs on KV alone)
+export { createDenoKVVectorStore, type DenoKVVectorStore } from "../vector-store/deno-kv.ts";
+
+export {
+  compileFilter,
+  compileObjectFilter,
+  compileSqlFilter,
+  type FilterPredicate,
+  type FilterRecord,
+} from "../vector-store/sql-filter.ts";
+
+// Typed filter expressions (escaped LanceDB SQL for local and cloud layouts)
+export {
+  columnName,
+  compileFilterExpression,
+  type FilterCompileOptions,
+  isFilterExpression,
+  objectToFilterExpression,
+  where,
+} from "../vector-store/filter.ts";
+
+// Metadata codec (local struct / Cloud meta_* columns, typed by a schema)
+export {
+  createMetadataCodec,
+  inferMetadataSchema,
+  type MetadataCodec,
+  type MetadataCodecOptions,
+  metadataFieldNamesFromArrow,
+  type MetadataFieldType,
+  type MetadataSchema,
+  metadataSchemaFromArrow,
+} from "../vector-store/metadata-codec.ts";
+
+// Keyword search and hybrid result fusion
+export {
+  createInvertedIndex,
+  fuseSearchResults,
+  type InvertedIndex,
+  runSearchMode,
+  type SearchModeHandlers,
+  tokenizeForSearch,
+} from "../vector-store/hybrid.ts";
+
+// Federated search across several tables or workspaces
+export {
+  type FederatedSearchOptions,
+  type FederatedSearchResult,
+  type FederatedSearchTarget,
+  type ScoreNormalization,
+  searchAcrossTables,
+} from "../vector-store/federated.ts";
+
+// Post-retrieval stage: chunk dedupe, MMR and reranking
+export {
+  applyMMR,
+  applyPostRetrieval,
+  createLLMReranker,
+  dedupeAdjacentChunks,
+  type LLMRerankerOptions,
+  type PostRetrievalContext,
+} from "../vector-store/rerank.ts";
+
+// Table export and import (JSONL / Parquet)
+export {
+  exportDocuments,
+  type ExportedRow,
+  importDocuments,
+  type TableTransferHandlers,
+} from "../vector-store/transfer.ts";
+
 // Vector store schemas - single source of truth for metadata structures
 export {
   type BaseDocumentMetadata,
@@ -42,6 +130,7 @@ export {
   extractMetadataFromResult,
   type FileVectorMetadata,
   getFieldName,
+  RULE_METADATA_SCHEMA,
   ruleToVectorMetadata,
   type RuleVectorMetadata,
   transformMetadataForStorage,
@@ -49,9 +138,16 @@ export {
 
 // Schema registry for multi-table workspace management
 export {
+  compareSchemaVersions,
   createWorkspaceTableRegistry,
+  type MigrateTableOptions,
   type TableConfig,
+  type TableMigration,
+  type TableMigrationProgress,
+  type TableSchemaRecord,
+  type TableSchemaStatus,
   type WorkspaceTableRegistry,
+  type WorkspaceTableRegistryOptions,
 } from "../vector-store/schema-registry.ts";
 
 // Vector database connection management
@@ -61,4 +157,3 @@ export {
   type VectorDBConnectionConfig,
   type VectorDBConnectionManager,
 } from "../vector-store/connection-manager.ts";
-
@@ -16,8 +16,10 @@ export {
   getDocument as getWorkspaceDocumentMeta,
   getWorkspace,
   getWorkspaceStats,
+  getWorkspaceVectorTable,
   listDocuments as listWorkspaceDocuments,
   listWorkspaces,
+  resolveWorkspaceTableName,
   updateDocument as updateWorkspaceDocumentMeta,
   updateWorkspace,
 } from "../workspace/kv-store.ts";
@@ -32,3 +34,17 @@ export {
   updateWorkspaceCoordinated,
 } from "../workspace/coordinator.ts";
 
+export {
+  exportWorkspace,
+  importWorkspace,
+  type WorkspaceExport,
+  type WorkspaceExportManifest,
+  type WorkspaceImportResult,
+} from "../workspace/backup.ts";
+
+export {
+  createEmbeddingMigration,
+  type EmbeddingMigration,
+  type EmbeddingMigrationConfig,
+  getEmbeddingMigrationCheckpoint,
+} from "../workspace/embedding-migration.ts";
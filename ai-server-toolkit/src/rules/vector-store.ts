@@ -1,9 +1,10 @@
 // Rules vector storage using LanceDB
 // Enables semantic search over rules for RAG applications
 
-import { deleteWorkspaceDocument } from "../vector-store/lancedb.ts";
+import { declareMetadataSchema, deleteWorkspaceDocument } from "../vector-store/lancedb.ts";
 import {
   createRulesSampleMetadata,
+  RULE_METADATA_SCHEMA,
   ruleToVectorMetadata,
   type RuleVectorMetadata,
 } from "../vector-store/schemas.ts";
@@ -21,19 +22,39 @@ function getRulesTableName(workspaceId: string): string {
 }
 
 /**
- * Initialize rules vector table for a workspace
+ * Get the rules table name, declaring the rule metadata types to the store
  */
-export async function initializeRulesVectorTable(
-  vectorStore: VectorStore,
-  workspaceId: string,
-): Promise<void> {
+function useRulesTable(vectorStore: VectorStore, workspaceId: string): string {
   const tableName = getRulesTableName(workspaceId);
+  declareMetadataSchema(vectorStore, tableName, RULE_METADATA_SCHEMA);
+  return tableName;
+}
+
+/**
+ * Create the rules table from sample metadata if it does not exist yet
+ */
+async function ensureRulesTable(vectorStore: VectorStore, tableName: string): Promise<void> {
+  if ((await vectorStore.listTables()).includes(tableName)) return;
+
   const schemaDoc: VectorDocument = {
     id: "_schema_init",
     content: "schema initialization",
     metadata: createRulesSampleMetadata() as unknown as Record<string, unknown>,
   };
   await vectorStore.createTable(tableName, schemaDoc);
+  // The schema definition document only defines the columns
+  await vectorStore.deleteDocument(schemaDoc.id, tableName);
+}
+
+/**
+ * Initialize rules vector table for a workspace
+ */
+export async function initializeRulesVectorTable(
+  vectorStore: VectorStore,
+  workspaceId: string,
+): Promise<void> {
+  const tableName = useRulesTable(vectorStore, workspaceId);
+  await ensureRulesTable(vectorStore, tableName);
   logger.info("Initialized rules vector table", { tableName });
 }
 
@@ -45,14 +66,8 @@ export async function embedRule(
   workspaceId: string,
   rule: Rule,
 ): Promise<void> {
-  const tableName = getRulesTableName(workspaceId);
-
-  const schemaDoc: VectorDocument = {
-    id: "_schema_init",
-    content: "schema initialization",
-    metadata: createRulesSampleMetadata() as unknown as Record<string, unknown>,
-  };
-  await vectorStore.createTable(tableName, schemaDoc);
+  const tableName = useRulesTable(vectorStore, workspaceId);
+  await ensureRulesTable(vectorStore, tableName);
 
   const metadata = ruleToVectorMetadata(rule);
 
@@ -112,7 +127,7 @@ export async function searchRulesVector(
     };
   },
 ): Promise<Array<{ rule: Partial<Rule>; score: number }>> {
-  const tableName = getRulesTableName(workspaceId);
+  const tableName = useRulesTable(vectorStore, workspaceId);
   const limit = options?.limit || 10;
 
   // Build filter object for VectorStore
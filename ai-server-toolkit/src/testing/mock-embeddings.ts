@@ -0,0 +1,94 @@
+// Deterministic hash-based EmbeddingModel for tests and offline examples
+import type { EmbeddingModel } from "../types.ts";
+
+/**
+ * Options for createHashEmbeddings
+ */
+export interface HashEmbeddingsOptions {
+  /** Vector dimensions (default: 1536, matching text-embedding-3-small) */
+  dimensions?: number;
+  /** Simulated latency per call in milliseconds */
+  delayMs?: number;
+}
+
+/**
+ * Hash embedding model with access to the embedded texts
+ */
+export interface HashEmbeddingModel extends EmbeddingModel {
+  /** Every batch passed to the model, in order (embedText records a batch of one) */
+  calls: string[][];
+}
+
+// FNV-1a 32-bit hash
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic pseudo-random unit-ish vector for a token (xorshift32 seeded by the hash)
+const tokenVector = (token: string, dimensions: number): Float64Array => {
+  const vector = new Float64Array(dimensions);
+  let seed = hashString(token) || 1;
+  for (let i = 0; i < dimensions; i++) {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    vector[i] = ((seed >>> 0) / 0xffffffff) * 2 - 1;
+  }
+  return vector;
+};
+
+/**
+ * Creates a deterministic embedding model that needs no network access.
+ *
+ * Each lowercase word is mapped to a pseudo-random vector seeded by its hash and the
+ * normalized sum of the word vectors is returned. The same text always produces the
+ * same vector, and texts sharing words have a higher cosine similarity, so vector
+ * search and RAG flows behave plausibly in tests.
+ *
+ * @param options Dimensions and simulated latency
+ * @returns Embedding model implementing the EmbeddingModel interface
+ *
+ * @example
+ * ```ts
+ * const embeddings = createHashEmbeddings({ dimensions: 256 });
+ * const [a, b] = await embeddings.embedTexts(["refund policy", "our refund policy"]);
+ * console.log(calculateSimilarity(a, b)); // high
+ * ```
+ */
+export function createHashEmbeddings(options: HashEmbeddingsOptions = {}): HashEmbeddingModel {
+  const dimensions = options.dimensions || 1536;
+  const calls: string[][] = [];
+
+  const embed = (text: string): number[] => {
+    const sum = new Float64Array(dimensions);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [text];
+    for (const token of tokens) {
+      const vector = tokenVector(token, dimensions);
+      for (let i = 0; i < dimensions; i++) {
+        sum[i] += vector[i];
+      }
+    }
+
+    const norm = Math.sqrt(sum.reduce((acc, value) => acc + value * value, 0)) || 1;
+    return Array.from(sum, (value) => value / norm);
+  };
+
+  const embedTexts = async (texts: string[]): Promise<number[][]> => {
+    calls.push([...texts]);
+    if (options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+    return texts.map(embed);
+  };
+
+  return {
+    calls,
+    embedText: async (text: string) => (await embedTexts([text]))[0],
+    embedTexts,
+  };
+}
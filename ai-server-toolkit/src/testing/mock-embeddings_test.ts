@@ -0,0 +1,38 @@
+import { assertAlmostEquals, assertEquals, assertGreater } from "@std/assert";
+import { scoreFunctions } from "../vector-store/distance.ts";
+import { createHashEmbeddings } from "./mock-embeddings.ts";
+
+Deno.test("createHashEmbeddings is deterministic and unit length", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: 64 });
+
+  const [a, b] = await embeddings.embedTexts(["fire exit width", "fire exit width"]);
+  const norm = Math.sqrt(a.reduce((sum, value) => sum + value * value, 0));
+
+  assertEquals(a.length, 64);
+  assertEquals(a, b);
+  assertAlmostEquals(norm, 1, 1e-9);
+});
+
+Deno.test("createHashEmbeddings ranks texts sharing words as more similar", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: 256 });
+
+  const query = await embeddings.embedText("fire exit doors");
+  const [related, unrelated] = await embeddings.embedTexts([
+    "doors of the fire exit",
+    "parking lot layout",
+  ]);
+
+  assertGreater(
+    scoreFunctions.cosine(query, related),
+    scoreFunctions.cosine(query, unrelated),
+  );
+});
+
+Deno.test("createHashEmbeddings records every batch", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: 8 });
+
+  await embeddings.embedTexts(["a", "b"]);
+  await embeddings.embedText("c");
+
+  assertEquals(embeddings.calls, [["a", "b"], ["c"]]);
+});
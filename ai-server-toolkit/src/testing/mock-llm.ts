@@ -0,0 +1,228 @@
+// Scripted LLMModel for tests and offline examples
+import type {
+  GenerateResponseOptions,
+  LLMContentBlock,
+  LLMMessage,
+  LLMModel,
+  LLMResponse,
+  LLMStopReason,
+  LLMStreamEvent,
+  LLMUsage,
+  ToolDefinition,
+} from "../types.ts";
+import { collectStream, getTextContent } from "../llm/content.ts";
+
+/**
+ * A request received by a mock LLM
+ */
+export interface MockLLMCall {
+  messages: LLMMessage[];
+  tools?: ToolDefinition[];
+  options?: GenerateResponseOptions;
+}
+
+/**
+ * A scripted reply of a mock LLM
+ */
+export interface MockLLMResponse {
+  /** Text content of the reply */
+  text?: string;
+  /** Tool calls the model requests; IDs are generated when omitted */
+  toolCalls?: Array<{ id?: string; name: string; input?: Record<string, unknown> }>;
+  /** Stop reason (default: "tool_use" when toolCalls are present, otherwise "end_turn") */
+  stopReason?: LLMStopReason;
+  /** Token usage reported with the reply */
+  usage?: Partial<LLMUsage>;
+  /** Error to throw instead of replying (e.g. a rate limit error) */
+  error?: Error;
+  /** Simulated latency in milliseconds */
+  delayMs?: number;
+}
+
+/**
+ * A scripted reply, or a function computing it from the request
+ */
+export type MockLLMReply =
+  | MockLLMResponse
+  | ((call: MockLLMCall) => MockLLMResponse | Promise<MockLLMResponse>);
+
+/**
+ * Options for createMockLLM
+ */
+export interface MockLLMOptions {
+  /** Replies returned in order, one per request */
+  responses?: MockLLMReply[];
+  /** Reply used once the queue is empty (default: throw) */
+  fallback?: MockLLMReply;
+  /** Model name reported in response metadata */
+  model?: string;
+}
+
+/**
+ * Mock LLM with access to the recorded requests
+ */
+export interface MockLLM extends LLMModel {
+  /** Every request received, in order */
+  calls: MockLLMCall[];
+  /** Appends replies to the queue */
+  enqueue(...replies: MockLLMReply[]): void;
+  /** Number of queued replies not yet consumed */
+  remaining(): number;
+}
+
+/**
+ * Creates a scripted LLM that returns queued replies instead of calling a provider.
+ *
+ * Each request consumes the next reply. Replies can contain text, tool calls, usage
+ * numbers and stop reasons, can throw errors to simulate provider failures, or can be
+ * functions that compute the reply from the request. `stream()` emits the reply as
+ * word-sized text deltas, tool call deltas, usage and stop events like a real provider.
+ *
+ * @param options Queued replies, fallback reply and model name
+ * @returns Mock LLM implementing the LLMModel interface
+ *
+ * @example
+ * ```ts
+ * const llm = createMockLLM({
+ *   responses: [
+ *     { toolCalls: [{ name: "calculator", input: { expression: "250 * 0.15" } }] },
+ *     { text: "15% of 250 is 37.5", usage: { promptTokens: 40, completionTokens: 8 } },
+ *   ],
+ * });
+ *
+ * const agent = createAgent({ ...config, tools: [createCalculatorTool()], llm });
+ * const result = await runAgent(agent, "Calculate 15% of 250");
+ * assertEquals(llm.calls.length, 2);
+ * ```
+ */
+export function createMockLLM(options: MockLLMOptions = {}): MockLLM {
+  const queue: MockLLMReply[] = [...(options.responses || [])];
+  const calls: MockLLMCall[] = [];
+  const model = options.model || "mock-llm";
+  let toolCallCounter = 0;
+
+  const nextReply = async (call: MockLLMCall): Promise<MockLLMResponse> => {
+    calls.push(call);
+    const reply = queue.length > 0 ? queue.shift()! : options.fallback;
+    if (!reply) {
+      throw new Error(`Mock LLM has no scripted response left for call ${calls.length}`);
+    }
+
+    const response = typeof reply === "function" ? await reply(call) : reply;
+    if (response.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+    }
+    if (response.error) {
+      throw response.error;
+    }
+    return response;
+  };
+
+  const toLLMResponse = (reply: MockLLMResponse): LLMResponse => {
+    const contentBlocks: LLMContentBlock[] = [];
+    if (reply.text) {
+      contentBlocks.push({ type: "text", text: reply.text });
+    }
+    for (const toolCall of reply.toolCalls || []) {
+      contentBlocks.push({
+        type: "tool_use",
+        id: toolCall.id || `mock_tool_${++toolCallCounter}`,
+        name: toolCall.name,
+        input: toolCall.input || {},
+      });
+    }
+
+    const promptTokens = reply.usage?.promptTokens ?? 0;
+    const completionTokens = reply.usage?.completionTokens ?? 0;
+    const stopReason = reply.stopReason ??
+      (reply.toolCalls?.length ? "tool_use" : "end_turn");
+
+    return {
+      content: getTextContent(contentBlocks),
+      contentBlocks,
+      stopReason,
+      usage: {
+        ...reply.usage,
+        promptTokens,
+        completionTokens,
+        totalTokens: reply.usage?.totalTokens ?? promptTokens + completionTokens,
+      },
+      metadata: { model, stopReason },
+    };
+  };
+
+  const generateResponse = async (
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): Promise<LLMResponse> => {
+    return toLLMResponse(await nextReply({ messages, tools, options }));
+  };
+
+  async function* stream(
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): AsyncGenerator<LLMStreamEvent> {
+    yield* replayResponse(await generateResponse(messages, tools, options));
+  }
+
+  const streamResponse = async (
+    messages: LLMMessage[],
+    onChunk?: (chunk: string) => void,
+    tools?: ToolDefinition[],
+  ): Promise<LLMResponse> => {
+    return await collectStream(stream(messages, tools), onChunk);
+  };
+
+  return {
+    calls,
+    enqueue: (...replies: MockLLMReply[]) => {
+      queue.push(...replies);
+    },
+    remaining: () => queue.length,
+    generateResponse,
+    streamResponse,
+    stream,
+  };
+}
+
+/**
+ * Converts a complete response into the stream events a provider would emit.
+ *
+ * Text is split into word-sized deltas; tool inputs are sent as a single JSON delta.
+ *
+ * @param response Complete LLM response
+ * @returns Async iterable of stream events ending with a "stop" event
+ *
+ * @example
+ * ```ts
+ * const response = await collectStream(replayResponse(savedResponse), console.log);
+ * ```
+ */
+export async function* replayResponse(response: LLMResponse): AsyncGenerator<LLMStreamEvent> {
+  const blocks = response.contentBlocks ||
+    (response.content ? [{ type: "text" as const, text: response.content }] : []);
+
+  let toolIndex = 0;
+  for (const block of blocks) {
+    if (block.type === "text") {
+      for (const chunk of block.text.match(/\S+\s*|\s+/g) || []) {
+        yield { type: "text_delta", text: chunk };
+      }
+    } else if (block.type === "tool_use") {
+      yield {
+        type: "tool_call_delta",
+        index: toolIndex++,
+        id: block.id,
+        name: block.name,
+        inputJsonDelta: JSON.stringify(block.input),
+      };
+    }
+  }
+
+  if (response.usage) {
+    yield { type: "usage", usage: response.usage };
+  }
+  yield { type: "stop", stopReason: response.stopReason, response };
+}
@@ -0,0 +1,81 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { LLMStreamEvent } from "../types.ts";
+import { collectStream } from "../llm/content.ts";
+import { createMockLLM, replayResponse } from "./mock-llm.ts";
+
+Deno.test("createMockLLM returns queued replies in order and records calls", async () => {
+  const llm = createMockLLM({
+    responses: [{ text: "first" }, { text: "second", usage: { promptTokens: 3 } }],
+  });
+
+  const first = await llm.generateResponse([{ role: "user", content: "a" }]);
+  const second = await llm.generateResponse([{ role: "user", content: "b" }]);
+
+  assertEquals(first.content, "first");
+  assertEquals(first.stopReason, "end_turn");
+  assertEquals(second.content, "second");
+  assertEquals(second.usage, { promptTokens: 3, completionTokens: 0, totalTokens: 3 });
+  assertEquals(llm.calls.map((call) => call.messages[0].content), ["a", "b"]);
+  assertEquals(llm.remaining(), 0);
+});
+
+Deno.test("createMockLLM builds tool_use blocks with generated IDs", async () => {
+  const llm = createMockLLM({
+    responses: [{ toolCalls: [{ name: "search", input: { query: "fire" } }] }],
+  });
+
+  const response = await llm.generateResponse([{ role: "user", content: "find" }]);
+
+  assertEquals(response.stopReason, "tool_use");
+  assertEquals(response.contentBlocks, [
+    { type: "tool_use", id: "mock_tool_1", name: "search", input: { query: "fire" } },
+  ]);
+});
+
+Deno.test("createMockLLM throws scripted errors and fails when the queue is empty", async () => {
+  const llm = createMockLLM({ responses: [{ error: new Error("overloaded") }] });
+
+  await assertRejects(() => llm.generateResponse([]), Error, "overloaded");
+  await assertRejects(() => llm.generateResponse([]), Error, "no scripted response left");
+});
+
+Deno.test("createMockLLM computes replies from the request and uses the fallback", async () => {
+  const llm = createMockLLM({
+    responses: [(call) => ({ text: `echo: ${call.messages.at(-1)?.content}` })],
+    fallback: { text: "fallback" },
+  });
+  llm.enqueue({ text: "queued" });
+
+  assertEquals((await llm.generateResponse([{ role: "user", content: "hi" }])).content, "echo: hi");
+  assertEquals((await llm.generateResponse([])).content, "queued");
+  assertEquals((await llm.generateResponse([])).content, "fallback");
+});
+
+Deno.test("createMockLLM streams text and tool calls like a provider", async () => {
+  const llm = createMockLLM({
+    responses: [{
+      text: "Let me check",
+      toolCalls: [{ id: "t1", name: "a", input: { x: 1 } }, { id: "t2", name: "b" }],
+    }],
+  });
+
+  const events: LLMStreamEvent[] = [];
+  for await (const event of llm.stream([])) events.push(event);
+
+  const text = events.flatMap((event) => event.type === "text_delta" ? [event.text] : []);
+  const toolDeltas = events.filter((event) => event.type === "tool_call_delta");
+  assertEquals(text.join(""), "Let me check");
+  assertEquals(toolDeltas.map((event) => event.type === "tool_call_delta" && event.index), [0, 1]);
+  assertEquals(events.at(-1)?.type, "stop");
+});
+
+Deno.test("replayResponse round-trips through collectStream", async () => {
+  const chunks: string[] = [];
+  const response = await collectStream(
+    replayResponse({ content: "one two three", stopReason: "end_turn" }),
+    (chunk) => chunks.push(chunk),
+  );
+
+  assertEquals(chunks, ["one ", "two ", "three"]);
+  assertEquals(response.content, "one two three");
+});
@@ -0,0 +1,295 @@
+// Record real provider exchanges to a fixture file and replay them offline
+import type {
+  EmbeddingModel,
+  GenerateResponseOptions,
+  LLMMessage,
+  LLMModel,
+  LLMResponse,
+  LLMStreamEvent,
+  ToolDefinition,
+} from "../types.ts";
+import { collectStream } from "../llm/content.ts";
+import { createNotFoundError, createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { replayResponse } from "./mock-llm.ts";
+
+const logger = createSubLogger("record-replay");
+
+const FIXTURE_VERSION = 1;
+
+/**
+ * How a fixture store treats requests:
+ * - "record": always call the real provider and save the exchange
+ * - "replay": only answer from the fixture file, never touch the network
+ * - "auto": replay when a fixture exists, otherwise record it
+ */
+export type FixtureMode = "record" | "replay" | "auto";
+
+/**
+ * Contents of a fixture file
+ */
+export interface FixtureFile {
+  version: number;
+  /** LLM exchanges keyed by the SHA-256 of the request */
+  llm: Record<string, { request: unknown; response: LLMResponse }>;
+  /** Embeddings keyed by the SHA-256 of the text */
+  embeddings: Record<string, { text: string; embedding: number[] }>;
+}
+
+/**
+ * Fixture file shared by record/replay wrappers
+ */
+export interface FixtureStoreState {
+  path: string;
+  mode: FixtureMode;
+  data: FixtureFile;
+  /** Serializes writes from concurrent recordings */
+  pendingWrite: Promise<void>;
+}
+
+/**
+ * Options for openFixtureStore
+ */
+export interface FixtureStoreOptions {
+  /** Path of the JSON fixture file */
+  path: string;
+  /** Mode (default: "replay", or the AI_FIXTURE_MODE environment variable) */
+  mode?: FixtureMode;
+}
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
+// Tool handlers are functions and do not take part in the request identity
+const toRequestRecord = (
+  messages: LLMMessage[],
+  tools?: ToolDefinition[],
+  options?: GenerateResponseOptions,
+) => ({
+  messages,
+  tools: tools?.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  })),
+  options,
+});
+
+/**
+ * Opens a fixture file for recording or replaying provider exchanges.
+ *
+ * A missing file starts an empty fixture set (it is created on the first recording).
+ *
+ * @param options Fixture path and mode
+ * @returns Fixture store for use with the record/replay wrappers
+ * @throws AppError (VALIDATION_ERROR) if the file has an unsupported format
+ *
+ * @example
+ * ```ts
+ * // Record once with real keys: AI_FIXTURE_MODE=record deno test -A
+ * // CI replays offline:          deno test -A
+ * const fixtures = await openFixtureStore({ path: "./tests/fixtures/rag.json" });
+ * ```
+ */
+export async function openFixtureStore(options: FixtureStoreOptions): Promise<FixtureStoreState> {
+  const mode = options.mode || (Deno.env.get("AI_FIXTURE_MODE") as FixtureMode) || "replay";
+  let data: FixtureFile = { version: FIXTURE_VERSION, llm: {}, embeddings: {} };
+
+  try {
+    const parsed = JSON.parse(await Deno.readTextFile(options.path)) as FixtureFile;
+    if (parsed.version !== FIXTURE_VERSION) {
+      throw createValidationError("Unsupported fixture file version", {
+        path: options.path,
+        version: parsed.version,
+      });
+    }
+    data = { ...data, ...parsed };
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+
+  logger.debug("Opened fixture store", {
+    path: options.path,
+    mode,
+    llmFixtures: Object.keys(data.llm).length,
+    embeddingFixtures: Object.keys(data.embeddings).length,
+  });
+
+  return { path: options.path, mode, data, pendingWrite: Promise.resolve() };
+}
+
+/**
+ * Writes the fixture file once all pending recordings have been saved.
+ *
+ * @param store Fixture store
+ */
+export async function saveFixtureStore(store: FixtureStoreState): Promise<void> {
+  store.pendingWrite = store.pendingWrite.then(() =>
+    Deno.writeTextFile(store.path, JSON.stringify(store.data, null, 2) + "\n")
+  );
+  await store.pendingWrite;
+}
+
+const requireModel = <T>(store: FixtureStoreState, model: T | undefined, what: string): T => {
+  if (!model) {
+    throw createNotFoundError(`No ${what} fixture recorded and no live ${what} to record from`, {
+      path: store.path,
+      mode: store.mode,
+    });
+  }
+  return model;
+};
+
+/**
+ * Wraps an LLM so its exchanges are recorded to, or replayed from, a fixture file.
+ *
+ * Requests are identified by the SHA-256 of their messages, tool definitions and
+ * options. Streaming calls are recorded as their final response and replayed as
+ * word-sized deltas.
+ *
+ * @param store Fixture store from openFixtureStore
+ * @param llm Real LLM to record from (optional in "replay" mode)
+ * @returns LLM implementing the LLMModel interface
+ * @throws AppError (NOT_FOUND) from its methods when replaying a request without fixture
+ *
+ * @example
+ * ```ts
+ * const fixtures = await openFixtureStore({ path: "./tests/fixtures/agent.json" });
+ * const llm = createRecordReplayLLM(
+ *   fixtures,
+ *   fixtures.mode === "replay" ? undefined : createLLM({ provider: "claude", apiKey }),
+ * );
+ * ```
+ */
+export function createRecordReplayLLM(store: FixtureStoreState, llm?: LLMModel): LLMModel {
+  const lookup = async (request: ReturnType<typeof toRequestRecord>) => {
+    const key = await sha256(JSON.stringify(request));
+    const fixture = store.mode === "record" ? undefined : store.data.llm[key];
+    if (!fixture && store.mode === "replay") {
+      throw createNotFoundError("No LLM fixture recorded for request", { path: store.path, key });
+    }
+    return { key, response: fixture?.response };
+  };
+
+  const save = async (
+    key: string,
+    request: ReturnType<typeof toRequestRecord>,
+    response: LLMResponse,
+  ) => {
+    store.data.llm[key] = { request, response };
+    await saveFixtureStore(store);
+  };
+
+  const generateResponse = async (
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): Promise<LLMResponse> => {
+    const request = toRequestRecord(messages, tools, options);
+    const { key, response } = await lookup(request);
+    if (response) return response;
+
+    const recorded = await requireModel(store, llm, "LLM").generateResponse(
+      messages,
+      tools,
+      options,
+    );
+    await save(key, request, recorded);
+    return recorded;
+  };
+
+  async function* stream(
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): AsyncGenerator<LLMStreamEvent> {
+    const request = toRequestRecord(messages, tools, options);
+    const { key, response } = await lookup(request);
+    if (response) {
+      yield* replayResponse(response);
+      return;
+    }
+
+    // Forward the live events and save the final response
+    for await (const event of requireModel(store, llm, "LLM").stream(messages, tools, options)) {
+      if (event.type === "stop") {
+        await save(key, request, event.response);
+      }
+      yield event;
+    }
+  }
+
+  const streamResponse = async (
+    messages: LLMMessage[],
+    onChunk?: (chunk: string) => void,
+    tools?: ToolDefinition[],
+  ): Promise<LLMResponse> => {
+    return await collectStream(stream(messages, tools), onChunk);
+  };
+
+  return { generateResponse, streamResponse, stream };
+}
+
+/**
+ * Wraps an embedding model so embeddings are recorded to, or replayed from, a fixture file.
+ *
+ * Embeddings are stored per text, so replay works regardless of how texts are batched.
+ * Only texts without a fixture are sent to the real model, in one batch.
+ *
+ * @param store Fixture store from openFixtureStore
+ * @param model Real embedding model to record from (optional in "replay" mode)
+ * @returns Embedding model implementing the EmbeddingModel interface
+ * @throws AppError (NOT_FOUND) from its methods when replaying a text without fixture
+ *
+ * @example
+ * ```ts
+ * const embeddings = createRecordReplayEmbeddings(fixtures, createOpenAIEmbeddings(config));
+ * ```
+ */
+export function createRecordReplayEmbeddings(
+  store: FixtureStoreState,
+  model?: EmbeddingModel,
+): EmbeddingModel {
+  const embedTexts = async (texts: string[]): Promise<number[][]> => {
+    const keys = await Promise.all(texts.map((text) => sha256(text)));
+    const results: Array<number[] | undefined> = keys.map((key) =>
+      store.mode === "record" ? undefined : store.data.embeddings[key]?.embedding
+    );
+
+    const missing = results
+      .map((embedding, index) => (embedding ? -1 : index))
+      .filter((index) => index !== -1);
+    if (missing.length === 0) {
+      return results as number[][];
+    }
+
+    if (store.mode === "replay") {
+      throw createNotFoundError("No embedding fixture recorded for text", {
+        path: store.path,
+        text: texts[missing[0]].slice(0, 100),
+      });
+    }
+
+    const embeddings = await requireModel(store, model, "embedding model").embedTexts(
+      missing.map((index) => texts[index]),
+    );
+    missing.forEach((index, i) => {
+      results[index] = embeddings[i];
+      store.data.embeddings[keys[index]] = { text: texts[index], embedding: embeddings[i] };
+    });
+    await saveFixtureStore(store);
+
+    return results as number[][];
+  };
+
+  return {
+    embedText: async (text: string) => (await embedTexts([text]))[0],
+    embedTexts,
+  };
+}
@@ -0,0 +1,52 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { ErrorCode } from "../utils/errors.ts";
+import { createHashEmbeddings } from "./mock-embeddings.ts";
+import { createMockLLM } from "./mock-llm.ts";
+import {
+  createRecordReplayEmbeddings,
+  createRecordReplayLLM,
+  openFixtureStore,
+} from "./record-replay.ts";
+
+Deno.test("createRecordReplayLLM records live responses and replays them offline", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.remove(path);
+  const messages = [{ role: "user" as const, content: "What is Deno?" }];
+
+  const live = createMockLLM({ responses: [{ text: "A runtime" }] });
+  const recorder = createRecordReplayLLM(
+    await openFixtureStore({ path, mode: "record" }),
+    live,
+  );
+  assertEquals((await recorder.generateResponse(messages)).content, "A runtime");
+
+  // A fresh store reads the fixture file; no live model is needed
+  const replayer = createRecordReplayLLM(await openFixtureStore({ path, mode: "replay" }));
+  assertEquals((await replayer.generateResponse(messages)).content, "A runtime");
+  assertEquals((await replayer.streamResponse(messages)).content, "A runtime");
+
+  const error = await assertRejects(() =>
+    replayer.generateResponse([{ role: "user", content: "Something else" }])
+  );
+  assertEquals((error as { code?: string }).code, ErrorCode.NOT_FOUND);
+  await Deno.remove(path);
+});
+
+Deno.test("createRecordReplayEmbeddings only embeds texts missing from the fixture", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.remove(path);
+  const live = createHashEmbeddings({ dimensions: 8 });
+
+  const store = await openFixtureStore({ path, mode: "auto" });
+  const embeddings = createRecordReplayEmbeddings(store, live);
+  const [first] = await embeddings.embedTexts(["alpha"]);
+  const [again, second] = await embeddings.embedTexts(["alpha", "beta"]);
+
+  assertEquals(again, first);
+  assertEquals(live.calls, [["alpha"], ["beta"]]);
+
+  const replayed = createRecordReplayEmbeddings(await openFixtureStore({ path, mode: "replay" }));
+  assertEquals(await replayed.embedText("beta"), second);
+  await assertRejects(() => replayed.embedText("gamma"), Error, "No embedding fixture");
+  await Deno.remove(path);
+});
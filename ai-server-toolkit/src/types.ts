@@ -11,6 +11,8 @@ export interface VectorStore {
     tableName?: string,
   ): Promise<SearchResult[]>;
   getDocument(id: string, tableName?: string): Promise<VectorDocument | null>;
+  /** Looks up documents by ID in the order given; IDs that are not found are skipped */
+  getDocuments(ids: string[], tableName?: string): Promise<VectorDocument[]>;
   deleteDocument(id: string, tableName?: string): Promise<void>;
   updateDocument(doc: VectorDocument, tableName?: string): Promise<void>;
   createTable(tableName: string, schemaDefinitionDocument?: VectorDocument): Promise<void>;
@@ -18,6 +20,25 @@ export interface VectorStore {
   getStats(tableName?: string): Promise<VectorStoreStats>;
   listTables(): Promise<string[]>;
   clear(tableName?: string): Promise<void>;
+  /** Inserts documents or replaces all rows with the same ID, without a window where they are missing */
+  upsertDocuments(docs: VectorDocument[], tableName?: string): Promise<void>;
+  /** Deletes all documents matching the filter and returns how many were deleted */
+  deleteWhere(filter: SearchFilter, tableName?: string): Promise<number>;
+  /** Counts documents matching the filter (all documents when omitted) */
+  countWhere(filter?: SearchFilter, tableName?: string): Promise<number>;
+  /** Lists documents matching a filter one page at a time (see ListDocumentsPage for the order) */
+  listDocuments(options?: ListDocumentsOptions, tableName?: string): Promise<ListDocumentsPage>;
+  /** Streams the rows of a table (id, content, metadata, vector) as JSONL or Parquet */
+  exportTable(
+    options?: ExportTableOptions,
+    tableName?: string,
+  ): Promise<ReadableStream<Uint8Array>>;
+  /** Loads rows written by exportTable, creating the table if it does not exist */
+  importTable(
+    source: ReadableStream<Uint8Array> | Uint8Array,
+    options?: ImportTableOptions,
+    tableName?: string,
+  ): Promise<ImportTableResult>;
 }
 
 export interface LLMModel {
@@ -31,6 +52,11 @@ export interface LLMModel {
     onChunk?: (chunk: string) => void,
     tools?: ToolDefinition[],
   ): Promise<LLMResponse>;
+  stream(
+    messages: LLMMessage[],
+    tools?: ToolDefinition[],
+    options?: GenerateResponseOptions,
+  ): AsyncIterable<LLMStreamEvent>;
 }
 
 export interface EmbeddingModel {
@@ -56,37 +82,245 @@ export interface SearchResult {
   [key: string]: unknown;
 }
 
+/**
+ * SQL WHERE clause passed to the store unescaped
+ *
+ * @deprecated Build filters with `where`; wrap trusted SQL in `where.sql()` to mark it explicitly
+ */
+export type RawSQLFilter = string;
+
+/**
+ * Document filter: typed expression (see `where`), metadata object, or a raw SQL WHERE
+ * string (deprecated, see RawSQLFilter)
+ */
+export type SearchFilter = FilterExpression | Record<string, unknown> | RawSQLFilter;
+
+/**
+ * Options for VectorStore.listDocuments
+ */
+export interface ListDocumentsOptions {
+  filter?: SearchFilter;
+  /**
+   * Page size (default: 100). The memory and Deno KV stores count distinct IDs, so rows
+   * sharing an ID stay on one page; LanceDB counts rows.
+   */
+  limit?: number;
+  /** Cursor returned as `nextCursor` by the previous page; the page continues after it */
+  cursor?: string;
+  includeEmbeddings?: boolean;
+}
+
+/**
+ * A page of VectorStore.listDocuments results.
+ *
+ * The memory and Deno KV stores list by ID, LanceDB in storage order (by row address,
+ * so every page reads at most `limit + 1` rows). Cursors are keyset based, so writes
+ * between pages never shift pages: documents added behind the cursor are skipped,
+ * documents added after it are listed. LanceDB appends rewritten rows (upserts,
+ * compaction), so a row rewritten during a listing may be listed again, never skipped.
+ */
+export interface ListDocumentsPage {
+  documents: VectorDocument[];
+  /** Opaque cursor of the next page; undefined on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * File format of VectorStore.exportTable / importTable
+ */
+export type TableExportFormat = "jsonl" | "parquet";
+
+/**
+ * Options for VectorStore.exportTable
+ */
+export interface ExportTableOptions {
+  /** Output format (default: "jsonl") */
+  format?: TableExportFormat;
+  /** Only export documents matching this filter */
+  filter?: SearchFilter;
+  /** Rows read from the store per page (default: 1000) */
+  batchSize?: number;
+}
+
+/**
+ * Options for VectorStore.importTable
+ */
+export interface ImportTableOptions {
+  /** Input format (default: "jsonl") */
+  format?: TableExportFormat;
+  /** "upsert" replaces rows with the same ID, "append" adds them (default: "upsert") */
+  mode?: "upsert" | "append";
+  /** Rows written to the store per call (default: 1000) */
+  batchSize?: number;
+}
+
+/**
+ * Result of VectorStore.importTable
+ */
+export interface ImportTableResult {
+  imported: number;
+}
+
 export interface SearchOptions {
   limit?: number;
   threshold?: number;
-  filter?: Record<string, unknown> | string; // Can be object or SQL WHERE string
+  filter?: SearchFilter;
   includeEmbeddings?: boolean;
+  /** Retrieval mode of text searches (default: "vector"); searchByEmbedding is always "vector" */
+  mode?: SearchMode;
+  /** How "hybrid" mode fuses the vector and keyword rankings (default: "rrf") */
+  fusion?: "rrf" | "weighted";
+  /** Relative weights of the vector and keyword rankings in "hybrid" mode (default: 1 each) */
+  hybridWeights?: { vector?: number; keyword?: number };
+  /** Rank constant of reciprocal rank fusion (default: 60) */
+  rrfK?: number;
+  /** Drop results that repeat an adjacent chunk (`metadata.documentId`/`chunkIndex`) of a better result */
+  dedupe?: boolean | { adjacency?: number };
+  /** Diversify results with maximal marginal relevance (lambda 0 = diverse, 1 = relevant; default: 0.5) */
+  mmr?: boolean | { lambda?: number };
+  /** Reorders the candidates of text searches (e.g. createLLMReranker) */
+  reranker?: Reranker;
+  /** Candidates retrieved before dedupe, MMR and reranking (default: 4x limit) */
+  candidateLimit?: number;
+  /** Embedding of the query text, when already computed (the store's model must match) */
+  queryEmbedding?: number[];
+}
+
+/**
+ * Reorders search results by relevance to the query (LLM judge, cross-encoder, ...)
+ */
+export interface Reranker {
+  rerank(query: string, results: SearchResult[]): Promise<SearchResult[]>;
 }
 
+/**
+ * Literal value a metadata field can be compared with
+ */
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Typed filter expression.
+ *
+ * Fields name document metadata (`"category"`, nested `"source.page"`) or the
+ * top-level `"id"` and `"content"` columns. Build expressions with the `where` helpers.
+ */
+export type FilterExpression =
+  | { op: "eq" | "ne"; field: string; value: FilterValue }
+  | { op: "gt" | "gte" | "lt" | "lte"; field: string; value: string | number }
+  | { op: "in"; field: string; values: FilterValue[] }
+  | { op: "contains"; field: string; value: FilterValue }
+  | { op: "exists"; field: string }
+  | { op: "and" | "or"; filters: FilterExpression[] }
+  | { op: "not"; filter: FilterExpression }
+  /** Trusted SQL WHERE clause, passed through unescaped (see `where.sql`) */
+  | { op: "sql"; sql: string };
+
+/**
+ * Search mode: vector similarity, keyword relevance (BM25 / full-text) or both fused
+ */
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
 export interface VectorStoreConfig {
-  provider: "lancedb" | "pinecone" | "chroma";
+  provider: "lancedb" | "memory" | "deno-kv" | "pinecone" | "chroma";
   path?: string;
   apiKey?: string;
   environment?: string;
   dimensions?: number;
   region?: string;
   tableName?: string;
+  /** Distance metric used to rank search results (default: "cosine"; "l2" for LanceDB) */
+  metric?: DistanceMetric;
+  /** LanceDB: row count at which a vector index is built automatically (default: 100000, 0 disables) */
+  autoIndexThreshold?: number;
+  /** Vector encoding of the "deno-kv" provider: float32 or 8-bit scalar quantized (default: "none") */
+  quantization?: "none" | "int8";
 }
 
+/**
+ * Distance metric for vector search. Scores are the similarity (`1 - distance`) for
+ * "cosine" and "dot", and `1 / (1 + squared distance)` for "l2", which stays in (0, 1].
+ */
+export type DistanceMetric = "cosine" | "dot" | "l2";
+
 export interface EmbeddingConfig {
   provider: "openai" | "local";
   apiKey?: string;
   model?: string;
   dimensions?: number;
+  /** Token limit of a single input (default: 8191, the OpenAI embedding model limit) */
   maxTokens?: number;
+  /** What to do with inputs over maxTokens (default: "truncate") */
+  oversizedInputPolicy?: "truncate" | "split-average" | "error";
+  /** Maximum number of inputs per request (default: 2048) */
+  maxBatchSize?: number;
+  /** Maximum estimated tokens per request (default: 300000) */
+  maxBatchTokens?: number;
+  /** Maximum number of requests in flight at once (default: 4) */
+  maxConcurrency?: number;
+  retry?: RetryConfig;
+  /** Overrides for the client's built-in rate limiter */
+  rateLimit?: Partial<RateLimitConfig>;
+  /** Character n-gram sizes used by the "local" provider (default: [3, 5]) */
+  ngramRange?: [number, number];
 }
 
 export interface LLMMessage {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: string | LLMContentBlock[];
   metadata?: Record<string, unknown>;
 }
 
+// Content blocks - structured message/response content shared by all LLM providers
+
+export interface TextContentBlock {
+  type: "text";
+  text: string;
+}
+
+export interface ToolUseContentBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultContentBlock {
+  type: "tool_result";
+  toolUseId: string;
+  content: string | Array<TextContentBlock | ImageContentBlock>;
+  isError?: boolean;
+}
+
+export type MediaSource =
+  | { type: "base64"; mediaType: string; data: string }
+  | { type: "url"; url: string };
+
+export interface ImageContentBlock {
+  type: "image";
+  source: MediaSource;
+}
+
+export interface DocumentContentBlock {
+  type: "document";
+  source: MediaSource;
+  title?: string;
+}
+
+export type LLMContentBlock =
+  | TextContentBlock
+  | ToolUseContentBlock
+  | ToolResultContentBlock
+  | ImageContentBlock
+  | DocumentContentBlock;
+
+export type LLMStopReason =
+  | "end_turn"
+  | "tool_use"
+  | "max_tokens"
+  | "stop_sequence"
+  | "refusal"
+  | "other";
+
 export interface CacheControl {
   type: "ephemeral" | "ephemeral-1h";
 }
@@ -101,22 +335,52 @@ export interface LLMConfig {
   provider: "claude" | "openai" | "local";
   apiKey: string;
   model?: string;
+  /** Base URL for OpenAI-compatible APIs (e.g. vLLM, llama.cpp server, Ollama) */
+  baseUrl?: string;
   maxTokens?: number;
   temperature?: number;
+  retry?: RetryConfig;
+  /** Overrides for the client's built-in rate limiter */
+  rateLimit?: Partial<RateLimitConfig>;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
 }
 
 export interface LLMResponse {
+  /** Concatenated text of all text blocks */
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-    cacheCreationInputTokens?: number;
-    cacheReadInputTokens?: number;
-  };
+  contentBlocks?: LLMContentBlock[];
+  stopReason?: LLMStopReason;
+  usage?: LLMUsage;
   metadata?: Record<string, unknown>;
 }
 
+// Events emitted by LLMModel.stream()
+export type LLMStreamEvent =
+  | { type: "text_delta"; text: string }
+  | {
+    type: "tool_call_delta";
+    /**
+     * Position of the tool call among the tool calls of the response (0 for the first
+     * call, whatever text comes before it), the same for every provider
+     */
+    index: number;
+    /** Set on the first delta of a tool call */
+    id?: string;
+    /** Set on the first delta of a tool call */
+    name?: string;
+    /** Partial JSON of the tool input */
+    inputJsonDelta: string;
+  }
+  | { type: "usage"; usage: LLMUsage }
+  | { type: "stop"; stopReason?: LLMStopReason; response: LLMResponse };
+
 export interface ToolDefinition<
   TParams = Record<string, unknown>,
   TResult = unknown,
@@ -134,6 +398,8 @@ export interface AgentConfig {
   tools?: ToolDefinition[];
   llm: LLMConfig | LLMModel;
   memory?: boolean;
+  /** Maximum number of tool-use rounds per runAgent call (default: 10) */
+  maxIterations?: number;
 }
 
 export interface AgentResult {
@@ -156,6 +422,33 @@ export interface RateLimitConfig {
   requestsPerMinute: number;
   requestsPerHour?: number;
   requestsPerDay?: number;
+  /** Token budget per rolling minute; calls are charged via withRateLimit options */
+  tokensPerMinute?: number;
+  /** "reject" (default) fails immediately when limited, "queue" waits FIFO for capacity */
+  mode?: "reject" | "queue";
+  /** Maximum number of queued callers in "queue" mode (default: unlimited) */
+  maxQueueDepth?: number;
+  /** Maximum time a caller waits in the queue before failing (default: unlimited) */
+  queueTimeoutMs?: number;
+  /** "memory" (default) keeps counters per process, "kv" shares them through Deno KV */
+  store?: "memory" | "kv";
+  /** Budget identifier for the "kv" store; processes with the same key share limits */
+  storeKey?: string;
+}
+
+export interface RetryConfig {
+  /** Maximum retries after the first attempt (default: 5, 0 disables retrying) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff (default: 500ms) */
+  initialDelayMs?: number;
+  /** Upper bound for a single backoff delay (default: 30s) */
+  maxDelayMs?: number;
+  /** Give up when the next wait would exceed this time since the first attempt (default: 2min) */
+  maxElapsedMs?: number;
+  /** Backoff growth factor per attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize delays to spread out concurrent retries (default: true) */
+  jitter?: boolean;
 }
 
 export interface VectorStoreStats {
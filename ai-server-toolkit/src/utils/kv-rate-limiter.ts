@@ -0,0 +1,207 @@
+// Deno KV-backed rate limit counters shared by every process using the same KV
+import type { RateLimitConfig } from "../types.ts";
+import { createServiceUnavailableError } from "./errors.ts";
+import { getKV, type KVConnectionOptions } from "./kv-helper.ts";
+import { createSubLogger } from "./logger.ts";
+
+const logger = createSubLogger("kv-rate-limiter");
+
+const KV_PREFIX = "rate_limits";
+const MAX_COMMIT_ATTEMPTS = 10;
+// Upper bound of the random pause between conflicting commits, doubled per attempt
+const COMMIT_BACKOFF_MS = 5;
+const MAX_COMMIT_BACKOFF_MS = 100;
+
+/**
+ * Distributed backend of a rate limiter
+ */
+export interface KVRateLimitBackend {
+  /** Budget identifier; processes using the same key share one budget */
+  key: string;
+  /** KV connection options passed to getKV() */
+  connection?: KVConnectionOptions;
+  /** Number of local callers currently waiting in "queue" mode */
+  waiting: number;
+}
+
+/**
+ * Result of an attempt to take a slot from the shared budget
+ */
+export interface KVRateLimitAcquisition {
+  /** 0 when the slot was taken, otherwise how long to wait before trying again */
+  waitMs: number;
+  /** Start of the minute window the tokens were charged to */
+  tokenWindowStart?: number;
+}
+
+interface KVWindow {
+  name: "minute" | "hour" | "day" | "tokens";
+  size: number;
+  limit: number;
+  /** Amount added to the counter when the slot is taken */
+  increment: number;
+  /** Amount that must still fit into the window */
+  required: number;
+}
+
+const getWindows = (config: RateLimitConfig, tokens: number): KVWindow[] => {
+  const windows: KVWindow[] = [
+    { name: "minute", size: 60_000, limit: config.requestsPerMinute, increment: 1, required: 1 },
+  ];
+  if (config.requestsPerHour) {
+    windows.push({
+      name: "hour",
+      size: 3_600_000,
+      limit: config.requestsPerHour,
+      increment: 1,
+      required: 1,
+    });
+  }
+  if (config.requestsPerDay) {
+    windows.push({
+      name: "day",
+      size: 86_400_000,
+      limit: config.requestsPerDay,
+      increment: 1,
+      required: 1,
+    });
+  }
+  if (config.tokensPerMinute && tokens > 0) {
+    // A single oversized call is allowed once the window is empty
+    windows.push({
+      name: "tokens",
+      size: 60_000,
+      limit: config.tokensPerMinute,
+      increment: tokens,
+      required: Math.min(tokens, config.tokensPerMinute),
+    });
+  }
+  return windows;
+};
+
+// Spreads out processes whose commits keep conflicting
+const commitBackoff = (attempt: number): Promise<void> => {
+  const delayMs = Math.random() * Math.min(MAX_COMMIT_BACKOFF_MS, COMMIT_BACKOFF_MS * 2 ** attempt);
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+};
+
+const windowStartOf = (now: number, size: number): number => Math.floor(now / size) * size;
+
+const windowKey = (backend: KVRateLimitBackend, name: string, start: number): Deno.KvKey => [
+  KV_PREFIX,
+  backend.key,
+  name,
+  start,
+];
+
+/**
+ * Creates the KV backend for a rate limiter.
+ *
+ * @param key Budget identifier shared by all processes (e.g. derived from the API key)
+ * @param connection Optional KV connection options passed to getKV()
+ * @returns KV rate limit backend
+ */
+export function createKVRateLimitBackend(
+  key: string,
+  connection?: KVConnectionOptions,
+): KVRateLimitBackend {
+  return { key, connection, waiting: 0 };
+}
+
+/**
+ * Atomically takes one request (and optionally tokens) from the shared budget.
+ *
+ * Uses fixed minute/hour/day windows stored under `["rate_limits", key, window, start]`.
+ * All counters are checked and incremented in one atomic commit, so concurrent
+ * processes can never overrun a limit; conflicting commits are retried after a short
+ * random backoff.
+ *
+ * @param backend KV rate limit backend
+ * @param config Rate limit configuration
+ * @param tokens Tokens to charge against tokensPerMinute
+ * @returns Acquisition result; `waitMs` is 0 when the slot was taken
+ * @throws AppError (SERVICE_UNAVAILABLE, retryable by withRetry) if the counters stay
+ *   contended for too many attempts
+ */
+export async function acquireKVRateLimit(
+  backend: KVRateLimitBackend,
+  config: RateLimitConfig,
+  tokens = 0,
+): Promise<KVRateLimitAcquisition> {
+  const kv = await getKV(backend.connection);
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const now = Date.now();
+    const windows = getWindows(config, tokens);
+    const keys = windows.map((window) =>
+      windowKey(backend, window.name, windowStartOf(now, window.size))
+    );
+    const entries = await kv.getMany<number[]>(keys);
+
+    let waitMs = 0;
+    windows.forEach((window, i) => {
+      const used = entries[i].value ?? 0;
+      if (used + window.required > window.limit) {
+        waitMs = Math.max(waitMs, windowStartOf(now, window.size) + window.size - now);
+      }
+    });
+    if (waitMs > 0) {
+      return { waitMs };
+    }
+
+    let atomic = kv.atomic();
+    windows.forEach((window, i) => {
+      atomic = atomic
+        .check(entries[i])
+        .set(keys[i], (entries[i].value ?? 0) + window.increment, {
+          expireIn: window.size * 2,
+        });
+    });
+
+    const result = await atomic.commit();
+    if (result.ok) {
+      const tokenWindow = windows.find((window) => window.name === "tokens");
+      return {
+        waitMs: 0,
+        tokenWindowStart: tokenWindow ? windowStartOf(now, tokenWindow.size) : undefined,
+      };
+    }
+    await commitBackoff(attempt);
+  }
+
+  logger.warn("Rate limit counters contended, giving up", { key: backend.key });
+  throw createServiceUnavailableError(
+    `Rate limit counters for "${backend.key}" are contended, try again`,
+    { key: backend.key, attempts: MAX_COMMIT_ATTEMPTS },
+  );
+}
+
+/**
+ * Corrects a token charge once the real usage of a call is known.
+ *
+ * @param backend KV rate limit backend
+ * @param windowStart Start of the minute window the estimate was charged to
+ * @param delta Actual tokens minus estimated tokens (may be negative)
+ */
+export async function adjustKVTokens(
+  backend: KVRateLimitBackend,
+  windowStart: number,
+  delta: number,
+): Promise<void> {
+  if (delta === 0) return;
+
+  const kv = await getKV(backend.connection);
+  const key = windowKey(backend, "tokens", windowStart);
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const entry = await kv.get<number>(key);
+    const result = await kv.atomic()
+      .check(entry)
+      .set(key, Math.max(0, (entry.value ?? 0) + delta), { expireIn: 120_000 })
+      .commit();
+    if (result.ok) return;
+    await commitBackoff(attempt);
+  }
+
+  logger.warn("Could not reconcile token usage", { key: backend.key, delta });
+}
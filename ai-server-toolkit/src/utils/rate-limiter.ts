@@ -1,18 +1,64 @@
 // Functional rate limiter for API calls
 import type { RateLimitConfig } from "../types.ts";
+import { createRateLimitError } from "./errors.ts";
+import type { KVConnectionOptions } from "./kv-helper.ts";
+import {
+  acquireKVRateLimit,
+  adjustKVTokens,
+  createKVRateLimitBackend,
+  type KVRateLimitBackend,
+} from "./kv-rate-limiter.ts";
 
 export interface RateLimitState {
   requests: number[];
+  /** Token charges within the last minute (only used with tokensPerMinute) */
+  tokens: Array<{ timestamp: number; count: number }>;
+  /** Callers waiting for capacity in "queue" mode, in FIFO order */
+  queue: RateLimitWaiter[];
+  /** Timer that drains the queue once capacity frees up */
+  drainTimer?: ReturnType<typeof setTimeout>;
+  /** Shared Deno KV budget; when set, limits are enforced across processes */
+  kv?: KVRateLimitBackend;
   config: RateLimitConfig;
 }
 
+interface RateLimitWaiter {
+  tokens: number;
+  resolve: (charge: TokenCharge | undefined) => void;
+  reject: (error: Error) => void;
+  timeoutTimer?: ReturnType<typeof setTimeout>;
+}
+
+type TokenCharge = { timestamp: number; count: number };
+
+/**
+ * Per-call options for withRateLimit
+ */
+export interface RateLimitCallOptions<T> {
+  /** Tokens to charge against tokensPerMinute before the call (e.g. from estimateTokens) */
+  estimatedTokens?: number;
+  /** Returns the real token usage of the call, replacing the estimate once known */
+  getActualTokens?: (result: T) => number | undefined;
+}
+
+const ONE_MINUTE = 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
 /**
  * Creates a rate limiter for controlling API request frequency.
  *
  * Tracks request timestamps and enforces per-minute, per-hour, and per-day limits
- * to prevent exceeding API quotas.
+ * plus an optional tokens-per-minute budget to prevent exceeding API quotas.
+ *
+ * In the default "reject" mode calls fail as soon as a limit is reached. In "queue"
+ * mode callers wait in FIFO order until capacity frees up, bounded by `maxQueueDepth`
+ * and `queueTimeoutMs`.
+ *
+ * With `store: "kv"` the budget lives in Deno KV under `storeKey`, so every process
+ * using the same key shares it (see createKVRateLimiter).
  *
- * @param config Rate limit configuration (requests per minute/hour/day)
+ * @param config Rate limit configuration (requests per minute/hour/day, tokens, mode)
  * @returns Rate limiter state for use with withRateLimit
  *
  * @example
@@ -22,19 +68,130 @@ export interface RateLimitState {
  *   requestsPerHour: 1000,
  *   requestsPerDay: 10000
  * });
+ *
+ * // Wait for capacity instead of failing, with a token budget
+ * const queued = createRateLimiter({
+ *   requestsPerMinute: 50,
+ *   tokensPerMinute: 40000,
+ *   mode: "queue",
+ *   maxQueueDepth: 100,
+ *   queueTimeoutMs: 120000
+ * });
  * ```
  */
 export function createRateLimiter(config: RateLimitConfig): RateLimitState {
   return {
     requests: [],
+    tokens: [],
+    queue: [],
+    ...(config.store === "kv"
+      ? { kv: createKVRateLimitBackend(config.storeKey || "default") }
+      : {}),
     config,
   };
 }
 
+/**
+ * Derives a KV budget key from a provider name and API key.
+ *
+ * The API key is hashed (FNV-1a) so it is never written to KV; processes using the
+ * same key end up sharing one budget.
+ *
+ * @param provider Provider name (e.g. "anthropic")
+ * @param apiKey Provider API key
+ * @returns Budget key such as "anthropic:1a2b3c4d"
+ */
+export function createRateLimitKey(provider: string, apiKey: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < apiKey.length; i++) {
+    hash ^= apiKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${provider}:${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Creates a rate limiter whose budget is shared through Deno KV.
+ *
+ * Counters are updated with atomic operations through `getKV()`, so several
+ * isolates or processes sharing one API key enforce a single per-minute/hour/day
+ * (and tokens-per-minute) budget. Use it with withRateLimit exactly like the
+ * in-memory limiter. Windows are fixed (aligned to the minute/hour/day), so up to
+ * twice a limit can pass around a window boundary.
+ *
+ * @param config Rate limit configuration
+ * @param key Budget identifier shared by all processes (e.g. "anthropic:production")
+ * @param connection Optional KV connection options passed to getKV()
+ * @returns Rate limiter state for use with withRateLimit
+ *
+ * @example
+ * ```ts
+ * const rateLimiter = createKVRateLimiter(
+ *   { requestsPerMinute: 50, requestsPerHour: 1000, mode: "queue" },
+ *   "anthropic:production",
+ * );
+ *
+ * const result = await withRateLimit(rateLimiter, () => llm.generateResponse(messages));
+ * ```
+ */
+export function createKVRateLimiter(
+  config: RateLimitConfig,
+  key: string,
+  connection?: KVConnectionOptions,
+): RateLimitState {
+  return {
+    requests: [],
+    tokens: [],
+    queue: [],
+    kv: createKVRateLimitBackend(key, connection),
+    config: { ...config, store: "kv", storeKey: key },
+  };
+}
+
+const pruneState = (state: RateLimitState, now: number): void => {
+  state.requests = state.requests.filter((timestamp) => now - timestamp < ONE_DAY);
+  state.tokens = state.tokens.filter((charge) => now - charge.timestamp < ONE_MINUTE);
+};
+
+const countSince = (timestamps: number[], now: number, window: number): number => {
+  return timestamps.filter((timestamp) => now - timestamp < window).length;
+};
+
+// Time until enough requests leave the window for the count to drop below the limit
+const requestWaitTime = (
+  timestamps: number[],
+  now: number,
+  window: number,
+  limit: number,
+): number => {
+  const inWindow = timestamps.filter((timestamp) => now - timestamp < window).sort((a, b) => a - b);
+  if (inWindow.length < limit) return 0;
+  return window - (now - inWindow[inWindow.length - limit]);
+};
+
+// Time until enough tokens leave the minute window for the new charge to fit
+const tokenWaitTime = (state: RateLimitState, now: number, tokens: number): number => {
+  const limit = state.config.tokensPerMinute;
+  if (!limit) return 0;
+  const charges = [...state.tokens].sort((a, b) => a.timestamp - b.timestamp);
+  let used = charges.reduce((sum, charge) => sum + charge.count, 0);
+  // A single oversized call is allowed once the window is empty
+  const needed = Math.min(tokens, limit);
+  for (const charge of charges) {
+    if (used + needed <= limit) break;
+    used -= charge.count;
+    if (used + needed <= limit) {
+      return ONE_MINUTE - (now - charge.timestamp);
+    }
+  }
+  return used + needed <= limit ? 0 : ONE_MINUTE;
+};
+
 /**
  * Checks if a request can be made without exceeding rate limits.
  *
  * @param state Rate limiter state
+ * @param tokens Tokens the request would charge against tokensPerMinute
  * @returns True if request can proceed, false if rate limited
  *
  * @example
@@ -44,35 +201,23 @@ export function createRateLimiter(config: RateLimitConfig): RateLimitState {
  * }
  * ```
  */
-export function canMakeRequest(state: RateLimitState): boolean {
+export function canMakeRequest(state: RateLimitState, tokens = 0): boolean {
   const now = Date.now();
-  const oneMinute = 60 * 1000;
-  const oneHour = 60 * 60 * 1000;
-  const oneDay = 24 * 60 * 60 * 1000;
 
   // Clean old requests
-  state.requests = state.requests.filter((timestamp) => {
-    return now - timestamp < oneDay;
-  });
+  pruneState(state, now);
 
   // Check per-minute limit
-  const recentRequests = state.requests.filter((timestamp) => {
-    return now - timestamp < oneMinute;
-  });
-
-  if (recentRequests.length >= state.config.requestsPerMinute) {
+  if (countSince(state.requests, now, ONE_MINUTE) >= state.config.requestsPerMinute) {
     return false;
   }
 
   // Check hourly limit if specified
-  if (state.config.requestsPerHour) {
-    const hourlyRequests = state.requests.filter((timestamp) => {
-      return now - timestamp < oneHour;
-    });
-
-    if (hourlyRequests.length >= state.config.requestsPerHour) {
-      return false;
-    }
+  if (
+    state.config.requestsPerHour &&
+    countSince(state.requests, now, ONE_HOUR) >= state.config.requestsPerHour
+  ) {
+    return false;
   }
 
   // Check daily limit if specified
@@ -82,52 +227,218 @@ export function canMakeRequest(state: RateLimitState): boolean {
     }
   }
 
-  return true;
+  // Check token budget if specified
+  return tokenWaitTime(state, now, tokens) === 0;
 }
 
 /**
- * Records a request timestamp for rate limit tracking.
+ * Records a request timestamp (and its token charge) for rate limit tracking.
  *
  * @param state Rate limiter state
+ * @param tokens Tokens to charge against tokensPerMinute
  */
-export function recordRequest(state: RateLimitState): void {
-  state.requests.push(Date.now());
+export function recordRequest(state: RateLimitState, tokens = 0): void {
+  chargeRequest(state, tokens);
 }
 
+const chargeRequest = (state: RateLimitState, tokens: number): TokenCharge | undefined => {
+  const now = Date.now();
+  state.requests.push(now);
+  if (tokens <= 0 || !state.config.tokensPerMinute) return undefined;
+  const charge = { timestamp: now, count: tokens };
+  state.tokens.push(charge);
+  return charge;
+};
+
+// Releases queued callers in FIFO order while capacity is available
+const drainQueue = (state: RateLimitState): void => {
+  if (state.drainTimer !== undefined) {
+    clearTimeout(state.drainTimer);
+    state.drainTimer = undefined;
+  }
+
+  while (state.queue.length > 0 && canMakeRequest(state, state.queue[0].tokens)) {
+    const waiter = state.queue.shift()!;
+    if (waiter.timeoutTimer !== undefined) clearTimeout(waiter.timeoutTimer);
+    waiter.resolve(chargeRequest(state, waiter.tokens));
+  }
+
+  if (state.queue.length > 0) {
+    const waitMs = Math.max(getWaitTime(state, state.queue[0].tokens), 10);
+    state.drainTimer = setTimeout(() => drainQueue(state), waitMs);
+  }
+};
+
+// Waits for a slot in "queue" mode and returns the token charge made for the caller
+const acquireQueued = (
+  state: RateLimitState,
+  tokens: number,
+): Promise<TokenCharge | undefined> => {
+  if (state.queue.length === 0 && canMakeRequest(state, tokens)) {
+    return Promise.resolve(chargeRequest(state, tokens));
+  }
+
+  const { maxQueueDepth, queueTimeoutMs } = state.config;
+  if (maxQueueDepth !== undefined && state.queue.length >= maxQueueDepth) {
+    return Promise.reject(
+      createRateLimitError("Rate limit queue is full", {
+        maxQueueDepth,
+        retryAfterMs: getWaitTime(state, tokens),
+      }),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter: RateLimitWaiter = { tokens, resolve, reject };
+
+    if (queueTimeoutMs !== undefined) {
+      waiter.timeoutTimer = setTimeout(() => {
+        state.queue = state.queue.filter((entry) => entry !== waiter);
+        reject(
+          createRateLimitError("Rate limit queue timeout", {
+            queueTimeoutMs,
+            retryAfterMs: getWaitTime(state, tokens),
+          }),
+        );
+      }, queueTimeoutMs);
+    }
+
+    state.queue.push(waiter);
+    drainQueue(state);
+  });
+};
+
 /**
  * Executes a function with automatic rate limiting.
  *
- * Checks rate limits before execution and throws an error if exceeded.
- * Automatically records the request timestamp.
+ * In "reject" mode (default) checks rate limits before execution and throws a rate
+ * limit error if exceeded; the error carries `details.retryAfterMs`, so `withRetry`
+ * can wait and try again. In "queue" mode waits for capacity in FIFO order instead.
+ * Automatically records the request timestamp and token charge, in Deno KV for
+ * limiters created with `store: "kv"` or createKVRateLimiter.
  *
  * @param state Rate limiter state
  * @param fn Async function to execute
+ * @param options Optional token estimate and usage reconciliation
  * @returns Promise resolving to function result
- * @throws Error if rate limit is exceeded
+ * @throws AppError (RATE_LIMIT_EXCEEDED) if rate limit is exceeded, the queue is full,
+ *   or the queue wait times out
  *
  * @example
  * ```ts
  * const result = await withRateLimit(rateLimiter, async () => {
  *   return await embedText(embeddings, "some text");
  * });
+ *
+ * // Charge an estimate up front and correct it with the real usage
+ * const response = await withRateLimit(
+ *   rateLimiter,
+ *   () => llm.generateResponse(messages),
+ *   {
+ *     estimatedTokens: estimateTokens(prompt),
+ *     getActualTokens: (res) => res.usage?.totalTokens,
+ *   },
+ * );
  * ```
  */
 export async function withRateLimit<T>(
   state: RateLimitState,
   fn: () => Promise<T>,
+  options?: RateLimitCallOptions<T>,
 ): Promise<T> {
-  if (!canMakeRequest(state)) {
-    throw new Error("Rate limit exceeded");
+  if (state.kv) {
+    return await withKVRateLimit(state, state.kv, fn, options);
+  }
+
+  const tokens = options?.estimatedTokens ?? 0;
+  let charge: TokenCharge | undefined;
+
+  if (state.config.mode === "queue") {
+    charge = await acquireQueued(state, tokens);
+  } else {
+    if (!canMakeRequest(state, tokens)) {
+      throw createRateLimitError("Rate limit exceeded", {
+        retryAfterMs: getWaitTime(state, tokens),
+      });
+    }
+    charge = chargeRequest(state, tokens);
   }
 
-  recordRequest(state);
-  return await fn();
+  const result = await fn();
+
+  const actualTokens = options?.getActualTokens?.(result);
+  if (actualTokens !== undefined) {
+    if (charge) {
+      charge.count = actualTokens;
+    } else if (actualTokens > 0 && state.config.tokensPerMinute) {
+      state.tokens.push({ timestamp: Date.now(), count: actualTokens });
+    }
+  }
+
+  return result;
 }
 
+// Distributed variant of withRateLimit: the slot is taken from the shared KV budget.
+// Queue mode polls the budget; ordering is FIFO only approximately across processes.
+const withKVRateLimit = async <T>(
+  state: RateLimitState,
+  backend: KVRateLimitBackend,
+  fn: () => Promise<T>,
+  options?: RateLimitCallOptions<T>,
+): Promise<T> => {
+  const tokens = options?.estimatedTokens ?? 0;
+  const { mode, maxQueueDepth, queueTimeoutMs } = state.config;
+
+  let acquisition = await acquireKVRateLimit(backend, state.config, tokens);
+  if (acquisition.waitMs > 0) {
+    if (mode !== "queue") {
+      throw createRateLimitError("Rate limit exceeded", { retryAfterMs: acquisition.waitMs });
+    }
+    if (maxQueueDepth !== undefined && backend.waiting >= maxQueueDepth) {
+      throw createRateLimitError("Rate limit queue is full", {
+        maxQueueDepth,
+        retryAfterMs: acquisition.waitMs,
+      });
+    }
+
+    const deadline = queueTimeoutMs !== undefined ? Date.now() + queueTimeoutMs : Infinity;
+    backend.waiting++;
+    try {
+      while (acquisition.waitMs > 0) {
+        // Jitter spreads processes that wake up at the same window boundary
+        const delayMs = acquisition.waitMs + Math.random() * 100;
+        if (Date.now() + delayMs > deadline) {
+          throw createRateLimitError("Rate limit queue timeout", {
+            queueTimeoutMs,
+            retryAfterMs: acquisition.waitMs,
+          });
+        }
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        acquisition = await acquireKVRateLimit(backend, state.config, tokens);
+      }
+    } finally {
+      backend.waiting--;
+    }
+  }
+
+  // Keep the local view in sync for canMakeRequest/getWaitTime callers
+  state.requests.push(Date.now());
+
+  const result = await fn();
+
+  const actualTokens = options?.getActualTokens?.(result);
+  if (actualTokens !== undefined && acquisition.tokenWindowStart !== undefined) {
+    await adjustKVTokens(backend, acquisition.tokenWindowStart, actualTokens - tokens);
+  }
+
+  return result;
+};
+
 /**
  * Calculates how long to wait before the next request can be made.
  *
  * @param state Rate limiter state
+ * @param tokens Tokens the request would charge against tokensPerMinute
  * @returns Wait time in milliseconds (0 if request can be made immediately)
  *
  * @example
@@ -139,24 +450,24 @@ export async function withRateLimit<T>(
  * }
  * ```
  */
-export function getWaitTime(state: RateLimitState): number {
-  if (canMakeRequest(state)) {
+export function getWaitTime(state: RateLimitState, tokens = 0): number {
+  if (canMakeRequest(state, tokens)) {
     return 0;
   }
 
   const now = Date.now();
-  const oneMinute = 60 * 1000;
-
-  const recentRequests = state.requests.filter((timestamp) => {
-    return now - timestamp < oneMinute;
-  });
-
-  if (recentRequests.length >= state.config.requestsPerMinute) {
-    const oldestRequest = Math.min(...recentRequests);
-    return oneMinute - (now - oldestRequest);
+  const waits = [
+    requestWaitTime(state.requests, now, ONE_MINUTE, state.config.requestsPerMinute),
+    tokenWaitTime(state, now, tokens),
+  ];
+  if (state.config.requestsPerHour) {
+    waits.push(requestWaitTime(state.requests, now, ONE_HOUR, state.config.requestsPerHour));
+  }
+  if (state.config.requestsPerDay) {
+    waits.push(requestWaitTime(state.requests, now, ONE_DAY, state.config.requestsPerDay));
   }
 
-  return 0;
+  return Math.max(0, ...waits);
 }
 
 /**
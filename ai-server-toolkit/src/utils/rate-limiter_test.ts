@@ -0,0 +1,146 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { type AppError, isAppError } from "./errors.ts";
+import { closeKV, getKV, resetKV } from "./kv-helper.ts";
+import {
+  canMakeRequest,
+  createKVRateLimiter,
+  createRateLimiter,
+  getWaitTime,
+  withRateLimit,
+} from "./rate-limiter.ts";
+import { isRetryableError } from "./retry.ts";
+
+const ONE_MINUTE = 60_000;
+
+// Request timestamps that leave the minute window after `expiresInMs`
+const expiringAt = (count: number, expiresInMs: number): number[] =>
+  Array.from({ length: count }, () => Date.now() - ONE_MINUTE + expiresInMs);
+
+const rejection = async (promise: Promise<unknown>): Promise<AppError> => {
+  try {
+    await promise;
+  } catch (error) {
+    assert(isAppError(error));
+    return error;
+  }
+  throw new Error("Expected the call to be rejected");
+};
+
+Deno.test("withRateLimit rejects over the limit with a retry hint", async () => {
+  const limiter = createRateLimiter({ requestsPerMinute: 2 });
+
+  await withRateLimit(limiter, () => Promise.resolve(1));
+  await withRateLimit(limiter, () => Promise.resolve(2));
+  const error = await rejection(withRateLimit(limiter, () => Promise.resolve(3)));
+
+  assertEquals(error.message, "Rate limit exceeded");
+  const retryAfterMs = error.details?.retryAfterMs as number;
+  assert(retryAfterMs > 59_000 && retryAfterMs <= ONE_MINUTE);
+  assertEquals(limiter.requests.length, 2);
+});
+
+Deno.test("withRateLimit queues callers in FIFO order until capacity frees up", async () => {
+  const limiter = createRateLimiter({ requestsPerMinute: 1, mode: "queue" });
+  limiter.requests = expiringAt(1, 30);
+
+  const order: number[] = [];
+  const first = withRateLimit(limiter, () => Promise.resolve(order.push(1)));
+  const second = withRateLimit(limiter, () => Promise.resolve(order.push(2)));
+  assertEquals(limiter.queue.length, 2);
+
+  // The expiring slot lets the first caller in; the second waits a full minute
+  await first;
+  assertEquals(order, [1]);
+  assertEquals(limiter.queue.length, 1);
+
+  clearTimeout(limiter.drainTimer);
+  limiter.requests = [];
+  limiter.queue.shift()!.resolve(undefined);
+  await second;
+  assertEquals(order, [1, 2]);
+});
+
+Deno.test("withRateLimit bounds the queue by depth and wait time", async () => {
+  const limiter = createRateLimiter({
+    requestsPerMinute: 1,
+    mode: "queue",
+    maxQueueDepth: 1,
+    queueTimeoutMs: 20,
+  });
+  limiter.requests = expiringAt(1, ONE_MINUTE);
+
+  const waiting = rejection(withRateLimit(limiter, () => Promise.resolve()));
+  const full = await rejection(withRateLimit(limiter, () => Promise.resolve()));
+  const timedOut = await waiting;
+
+  assertEquals(full.message, "Rate limit queue is full");
+  assertEquals(timedOut.message, "Rate limit queue timeout");
+  assertEquals(limiter.queue.length, 0);
+  clearTimeout(limiter.drainTimer);
+});
+
+Deno.test("withRateLimit charges tokens and replaces estimates with actual usage", async () => {
+  const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1000 });
+
+  await withRateLimit(limiter, () => Promise.resolve({ total: 900 }), {
+    estimatedTokens: 100,
+    getActualTokens: (result) => result.total,
+  });
+
+  assertEquals(limiter.tokens.map((charge) => charge.count), [900]);
+  assert(canMakeRequest(limiter, 100));
+  assert(!canMakeRequest(limiter, 101));
+  assert(getWaitTime(limiter, 101) > 59_000);
+  // A call larger than the whole budget still runs once the window is empty
+  limiter.tokens = [];
+  assert(canMakeRequest(limiter, 5000));
+});
+
+Deno.test("createKVRateLimiter shares one budget through Deno KV", async () => {
+  const dir = await Deno.makeTempDir();
+  resetKV();
+  try {
+    const connection = { kvPath: `${dir}/rate-limit.kv` };
+    const config = { requestsPerMinute: 2 };
+    const processA = createKVRateLimiter(config, "test:shared", connection);
+    const processB = createKVRateLimiter(config, "test:shared", connection);
+
+    await withRateLimit(processA, () => Promise.resolve());
+    await withRateLimit(processB, () => Promise.resolve());
+
+    await assertRejects(
+      () => withRateLimit(processA, () => Promise.resolve()),
+      Error,
+      "Rate limit exceeded",
+    );
+  } finally {
+    await closeKV();
+    resetKV();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("createKVRateLimiter reports counters that stay contended as retryable", async () => {
+  const dir = await Deno.makeTempDir();
+  resetKV();
+  try {
+    const connection = { kvPath: `${dir}/rate-limit.kv` };
+    const kv = await getKV(connection);
+    // Every commit loses against another process
+    const atomic = kv.atomic.bind(kv);
+    kv.atomic = () => {
+      const operation = atomic();
+      operation.commit = () => Promise.resolve({ ok: false });
+      return operation;
+    };
+    const limiter = createKVRateLimiter({ requestsPerMinute: 2 }, "test:contended", connection);
+
+    const error = await rejection(withRateLimit(limiter, () => Promise.resolve()));
+    assertEquals(error.code, "SERVICE_UNAVAILABLE");
+    assert(isRetryableError(error));
+  } finally {
+    await closeKV();
+    resetKV();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
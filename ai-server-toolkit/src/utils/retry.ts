@@ -0,0 +1,227 @@
+// Functional retry policy with exponential backoff for provider HTTP calls
+import type { RetryConfig } from "../types.ts";
+import {
+  type AppError,
+  createRateLimitError,
+  createServiceUnavailableError,
+  ErrorCode,
+  isAppError,
+} from "./errors.ts";
+import { createSubLogger } from "./logger.ts";
+
+const logger = createSubLogger("retry");
+
+const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  maxElapsedMs: 120_000,
+  backoffMultiplier: 2,
+  jitter: true,
+};
+
+// 529 is Anthropic's "overloaded" status
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Parses a delay in milliseconds from provider response headers.
+ *
+ * Supports `retry-after-ms`, `retry-after` (seconds or HTTP date) and, when a
+ * request or token budget is exhausted, the `anthropic-ratelimit-*-reset` timestamps.
+ *
+ * @param headers Response headers
+ * @returns Delay in milliseconds, or undefined if the headers carry no hint
+ *
+ * @example
+ * ```ts
+ * const waitMs = parseRetryAfter(response.headers);
+ * ```
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // Anthropic: find the latest reset among exhausted budgets
+  let resetMs: number | undefined;
+  for (const budget of ["requests", "tokens", "input-tokens", "output-tokens"]) {
+    const remaining = headers.get(`anthropic-ratelimit-${budget}-remaining`);
+    const reset = headers.get(`anthropic-ratelimit-${budget}-reset`);
+    if (remaining !== "0" || !reset) continue;
+    const date = Date.parse(reset);
+    if (!isNaN(date)) {
+      resetMs = Math.max(resetMs ?? 0, date - Date.now());
+    }
+  }
+  return resetMs;
+}
+
+/**
+ * Creates an error for a failed provider HTTP response.
+ *
+ * Rate limit (429) and overload/server (5xx, 529, 408, 409) responses become retryable
+ * AppErrors carrying the status and any Retry-After hint in `details`; other statuses
+ * become plain errors.
+ *
+ * @param provider Provider name used in the message (e.g. "Claude", "OpenAI")
+ * @param response Failed fetch response (its body is consumed)
+ * @returns Error describing the failure
+ *
+ * @example
+ * ```ts
+ * if (!response.ok) {
+ *   throw await createProviderHttpError("OpenAI", response);
+ * }
+ * ```
+ */
+export async function createProviderHttpError(
+  provider: string,
+  response: Response,
+): Promise<Error> {
+  const body = await response.text();
+  const message = `${provider} API error: ${response.status} - ${body}`;
+
+  if (!RETRYABLE_STATUS_CODES.has(response.status)) {
+    return new Error(message);
+  }
+
+  const details = {
+    provider,
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers),
+  };
+  return response.status === 429
+    ? createRateLimitError(message, details)
+    : createServiceUnavailableError(message, details);
+}
+
+// Messages of the TypeError fetch rejects with (Deno, undici, browsers)
+const FETCH_FAILURE_PATTERN =
+  /^(fetch failed|error sending request|failed to fetch|network ?error)/i;
+
+/**
+ * Checks whether an error is a network failure raised by fetch.
+ *
+ * fetch rejects with a TypeError carrying the underlying network error as `cause` (or
+ * a "fetch failed" style message). Other TypeErrors, such as reading a property of
+ * undefined while parsing a response, are programming errors and do not match.
+ *
+ * @param error Error thrown by the operation
+ * @returns True for DNS, connection and socket failures of fetch
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) return false;
+  const cause = (error as { cause?: unknown }).cause;
+  return cause instanceof Error || FETCH_FAILURE_PATTERN.test(error.message);
+}
+
+/**
+ * Checks whether an error is worth retrying.
+ *
+ * Retries rate limit and service unavailable AppErrors (including those created by
+ * createProviderHttpError and withRateLimit), network failures raised by fetch (see
+ * isNetworkError) and timeouts.
+ *
+ * @param error Error thrown by the operation
+ * @returns True if the operation should be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAppError(error)) {
+    return error.code === ErrorCode.RATE_LIMIT_EXCEEDED ||
+      error.code === ErrorCode.SERVICE_UNAVAILABLE;
+  }
+  if (isNetworkError(error)) {
+    return true;
+  }
+  return error instanceof Error &&
+    (error.name === "ConnectionError" || error.name === "TimedOut" ||
+      error.name === "TimeoutError");
+}
+
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!isAppError(error)) return undefined;
+  const retryAfterMs = (error as AppError).details?.retryAfterMs;
+  return typeof retryAfterMs === "number" ? retryAfterMs : undefined;
+};
+
+const computeBackoff = (attempt: number, config: Required<RetryConfig>): number => {
+  const exponential = Math.min(
+    config.maxDelayMs,
+    config.initialDelayMs * Math.pow(config.backoffMultiplier, attempt),
+  );
+  // Full jitter spreads retries from concurrent callers
+  return config.jitter ? Math.random() * exponential : exponential;
+};
+
+/**
+ * Executes a function, retrying transient failures with exponential backoff.
+ *
+ * Waits for the server's Retry-After hint when one is available, otherwise for a
+ * jittered exponential delay. Gives up after `maxRetries` retries or when the next
+ * wait would exceed `maxElapsedMs` since the first attempt.
+ *
+ * @param fn Async function to execute
+ * @param config Optional retry configuration (merged with defaults)
+ * @param operation Optional operation name for logging
+ * @returns Promise resolving to function result
+ * @throws The last error if it is not retryable or retries are exhausted
+ *
+ * @example
+ * ```ts
+ * const data = await withRetry(
+ *   () => withRateLimit(rateLimiter, () => callProvider()),
+ *   { maxRetries: 3 },
+ *   "embeddings",
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  config?: RetryConfig,
+  operation?: string,
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_CONFIG, ...config };
+  const startTime = Date.now();
+
+  for (let attempt = 0;; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs = retryAfterMs !== undefined
+        ? Math.max(retryAfterMs, computeBackoff(0, policy))
+        : computeBackoff(attempt, policy);
+
+      if (Date.now() - startTime + delayMs > policy.maxElapsedMs) {
+        throw error;
+      }
+
+      logger.warn("Retrying after transient error", {
+        operation,
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs: Math.round(delayMs),
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { assert, assertEquals, assertFalse, assertRejects } from "@std/assert";
+import { createRateLimitError, createValidationError, ErrorCode, isAppError } from "./errors.ts";
+import {
+  createProviderHttpError,
+  isNetworkError,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+} from "./retry.ts";
+
+const fastRetry = { initialDelayMs: 1, maxDelayMs: 2, jitter: false };
+
+const failingTimes = <T>(failures: unknown[], value: T) => {
+  let calls = 0;
+  const fn = () => {
+    calls++;
+    return calls <= failures.length ? Promise.reject(failures[calls - 1]) : Promise.resolve(value);
+  };
+  return { fn, calls: () => calls };
+};
+
+Deno.test("isNetworkError matches fetch failures only", () => {
+  assert(isNetworkError(new TypeError("fetch failed", { cause: new Error("ECONNRESET") })));
+  assert(isNetworkError(new TypeError("error sending request for url (https://api.example.com)")));
+  assertFalse(isNetworkError(new TypeError("Cannot read properties of undefined (reading 'x')")));
+  assertFalse(isNetworkError(new Error("fetch failed")));
+});
+
+Deno.test("isRetryableError retries rate limits and unavailable services, not bad requests", () => {
+  assert(isRetryableError(createRateLimitError("slow down")));
+  assert(isRetryableError(Object.assign(new Error("timed out"), { name: "TimeoutError" })));
+  assertFalse(isRetryableError(createValidationError("bad input")));
+  assertFalse(isRetryableError(new TypeError("x is not a function")));
+});
+
+Deno.test("withRetry retries transient failures until the call succeeds", async () => {
+  const { fn, calls } = failingTimes(
+    [createRateLimitError("429"), new TypeError("fetch failed", { cause: new Error("reset") })],
+    "ok",
+  );
+
+  assertEquals(await withRetry(fn, fastRetry), "ok");
+  assertEquals(calls(), 3);
+});
+
+Deno.test("withRetry does not retry programming errors", async () => {
+  const { fn, calls } = failingTimes([new TypeError("response.data is undefined")], "ok");
+
+  await assertRejects(() => withRetry(fn, fastRetry), TypeError, "response.data");
+  assertEquals(calls(), 1);
+});
+
+Deno.test("withRetry gives up after maxRetries and rethrows the last error", async () => {
+  const failures = [1, 2, 3].map((n) => createRateLimitError(`attempt ${n}`));
+  const { fn, calls } = failingTimes(failures, "ok");
+
+  await assertRejects(() => withRetry(fn, { ...fastRetry, maxRetries: 2 }), Error, "attempt 3");
+  assertEquals(calls(), 3);
+});
+
+Deno.test("withRetry stops when the Retry-After hint exceeds maxElapsedMs", async () => {
+  const { fn, calls } = failingTimes([createRateLimitError("429", { retryAfterMs: 60_000 })], "ok");
+
+  await assertRejects(() => withRetry(fn, { ...fastRetry, maxElapsedMs: 1_000 }), Error, "429");
+  assertEquals(calls(), 1);
+});
+
+Deno.test("parseRetryAfter reads milliseconds, seconds and exhausted Anthropic budgets", () => {
+  assertEquals(parseRetryAfter(new Headers({ "retry-after-ms": "250" })), 250);
+  assertEquals(parseRetryAfter(new Headers({ "retry-after": "2" })), 2000);
+  assertEquals(parseRetryAfter(new Headers()), undefined);
+
+  const reset = new Date(Date.now() + 10_000).toISOString();
+  const waitMs = parseRetryAfter(
+    new Headers({
+      "anthropic-ratelimit-tokens-remaining": "0",
+      "anthropic-ratelimit-tokens-reset": reset,
+    }),
+  );
+  assert(waitMs !== undefined && waitMs > 8_000 && waitMs <= 10_000);
+});
+
+Deno.test("createProviderHttpError maps retryable statuses to AppErrors", async () => {
+  const rateLimited = await createProviderHttpError(
+    "OpenAI",
+    new Response("slow down", { status: 429, headers: { "retry-after": "1" } }),
+  );
+  const badRequest = await createProviderHttpError("OpenAI", new Response("bad", { status: 400 }));
+
+  assert(isAppError(rateLimited));
+  assertEquals(rateLimited.code, ErrorCode.RATE_LIMIT_EXCEEDED);
+  assertEquals(rateLimited.details?.retryAfterMs, 1000);
+  assertFalse(isAppError(badRequest));
+  assertEquals(badRequest.message, "OpenAI API error: 400 - bad");
+});
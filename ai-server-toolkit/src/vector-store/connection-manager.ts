@@ -1,9 +1,12 @@
 // Vector Database Connection Manager
 // Provides singleton connection management for vector databases
-// Supports multiple providers (currently LanceDB, extensible)
+// Supports multiple providers (LanceDB, in-memory and Deno KV, extensible)
 
 import { createLanceDB, type LanceDBState } from "./lancedb.ts";
-import type { EmbeddingConfig, VectorStoreConfig } from "../types.ts";
+import { createMemoryVectorStore } from "./memory.ts";
+import { createDenoKVVectorStore } from "./deno-kv.ts";
+import type { EmbeddingConfig, EmbeddingModel, VectorStoreConfig } from "../types.ts";
+import type { WorkspaceKVState } from "../workspace/types.ts";
 
 /**
  * Connection manager interface for vector database connections
@@ -29,11 +32,14 @@ export interface VectorDBConnectionManager {
 
 /**
  * Configuration for vector database connection manager
- * Currently supports LanceDB, but designed to be extensible
+ * Supports the "lancedb", "memory" and "deno-kv" providers
  */
 export interface VectorDBConnectionConfig {
   vectorStore: VectorStoreConfig;
-  embedding: EmbeddingConfig;
+  /** Embedding configuration, or a pre-created EmbeddingModel to share */
+  embedding: EmbeddingConfig | EmbeddingModel;
+  /** Workspace KV state to store vectors in ("deno-kv" provider, default: opens KV at `vectorStore.path`) */
+  kvState?: WorkspaceKVState;
 }
 
 /**
@@ -82,19 +88,26 @@ export function createVectorDBConnectionManager(
     isInitializing = true;
     initPromise = (async () => {
       try {
-        // Currently only supports LanceDB
-        // Future: add provider abstraction layer here
-        if (config.vectorStore.provider !== "lancedb") {
-          throw new Error(
-            `Unsupported vector store provider: ${config.vectorStore.provider}. Only "lancedb" is currently supported.`,
-          );
+        switch (config.vectorStore.provider) {
+          case "lancedb":
+            connection = await createLanceDB(config.vectorStore, config.embedding);
+            break;
+          case "memory":
+            connection = await createMemoryVectorStore(config.vectorStore, config.embedding);
+            break;
+          case "deno-kv":
+            connection = await createDenoKVVectorStore(
+              config.vectorStore,
+              config.embedding,
+              config.kvState,
+            );
+            break;
+          default:
+            throw new Error(
+              `Unsupported vector store provider: ${config.vectorStore.provider}. Supported providers: "lancedb", "memory", "deno-kv".`,
+            );
         }
 
-        connection = await createLanceDB(
-          config.vectorStore,
-          config.embedding,
-        );
-
         isInitializing = false;
         return connection;
       } catch (error) {
@@ -129,7 +142,7 @@ export function createVectorDBConnectionManager(
  * Convenience function for common use case
  *
  * @param vectorStoreConfig Vector store configuration
- * @param embeddingConfig Embedding configuration
+ * @param embeddingConfig Embedding configuration or a pre-created EmbeddingModel
  * @returns Pre-configured connection manager
  *
  * @example
@@ -149,7 +162,7 @@ export function createVectorDBConnectionManager(
  */
 export function createDefaultConnectionManager(
   vectorStoreConfig: VectorStoreConfig,
-  embeddingConfig: EmbeddingConfig,
+  embeddingConfig: EmbeddingConfig | EmbeddingModel,
 ): VectorDBConnectionManager {
   return createVectorDBConnectionManager({
     vectorStore: vectorStoreConfig,
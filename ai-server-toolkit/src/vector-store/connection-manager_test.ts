@@ -0,0 +1,22 @@
+import { assert, assertEquals, assertStrictEquals } from "@std/assert";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createVectorDBConnectionManager } from "./connection-manager.ts";
+
+Deno.test("createVectorDBConnectionManager opens one store with the injected model", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: 8 });
+  const manager = createVectorDBConnectionManager({
+    vectorStore: { provider: "memory", dimensions: 8 },
+    embedding: embeddings,
+  });
+
+  const [first, second] = await Promise.all([manager.getConnection(), manager.getConnection()]);
+  await first.createTable("documents");
+  await first.addDocument({ id: "doc", content: "connection manager" });
+
+  assertStrictEquals(first, second);
+  assert(manager.isConnected());
+  assertEquals(embeddings.calls, [["connection manager"]]);
+
+  manager.reset();
+  assertEquals(manager.isConnected(), false);
+});
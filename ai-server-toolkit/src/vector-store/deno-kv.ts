@@ -0,0 +1,669 @@
+// Functional Deno KV vector store implementation (brute-force search, optional int8 quantization)
+import { createEmbeddings, isEmbeddingModel } from "../embeddings/factory.ts";
+import type {
+  DistanceMetric,
+  EmbeddingConfig,
+  EmbeddingModel,
+  ExportTableOptions,
+  ImportTableOptions,
+  ImportTableResult,
+  ListDocumentsOptions,
+  ListDocumentsPage,
+  SearchFilter,
+  SearchOptions,
+  SearchResult,
+  VectorDocument,
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreStats,
+} from "../types.ts";
+import { createNotFoundError, createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { closeWorkspaceKV, createWorkspaceKV } from "../workspace/kv-store.ts";
+import type { WorkspaceKVState } from "../workspace/types.ts";
+import { scoreFunctions } from "./distance.ts";
+import { createInvertedIndex, runSearchMode } from "./hybrid.ts";
+import { decodeKeysetCursor, DEFAULT_PAGE_SIZE, encodeKeysetCursor } from "./pagination.ts";
+import { applyPostRetrieval } from "./rerank.ts";
+import { compileFilter } from "./sql-filter.ts";
+import { exportDocuments, importDocuments, type TableTransferHandlers } from "./transfer.ts";
+
+const logger = createSubLogger("deno-kv-vector-store");
+
+const DEFAULT_TABLE_NAME = "documents";
+const DEFAULT_DIMENSIONS = 1536;
+const DEFAULT_SEARCH_LIMIT = 10;
+const TABLES_PREFIX = "vector_tables";
+const DOCUMENTS_PREFIX = "vector_documents";
+// Keeps each atomic commit well under the Deno KV 800 KiB / 1000 mutation limits
+const WRITE_BATCH_SIZE = 10;
+// Deno KV rejects values over 64 KiB; the margin covers the serialization overhead
+const MAX_VALUE_BYTES = 65_536 - 1_024;
+
+/**
+ * Vector store backed by Deno KV
+ */
+export interface DenoKVVectorStore extends VectorStore {
+  /** KV state the store reads and writes */
+  kvState: WorkspaceKVState;
+  /** Closes the KV connection if the store opened it itself */
+  close(): void;
+}
+
+interface KVTableMetadata {
+  name: string;
+  dimensions: number;
+  quantization: "none" | "int8";
+  createdAt: string;
+  lastUpdated: string;
+}
+
+interface KVStoredDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  vector: Float32Array | Int8Array;
+  // Dequantization factor for int8 vectors
+  scale?: number;
+}
+
+interface DenoKVVectorStoreState {
+  kvState: WorkspaceKVState;
+  ownsConnection: boolean;
+  tableName: string;
+  embeddings: EmbeddingModel;
+  dimensions: number;
+  metric: DistanceMetric;
+  quantization: "none" | "int8";
+}
+
+const encodeVector = (
+  embedding: number[],
+  quantization: "none" | "int8",
+): Pick<KVStoredDocument, "vector" | "scale"> => {
+  if (quantization === "none") {
+    return { vector: Float32Array.from(embedding) };
+  }
+  // Symmetric scalar quantization: the largest magnitude maps to ±127
+  const max = embedding.reduce((acc, value) => Math.max(acc, Math.abs(value)), 0);
+  const scale = max === 0 ? 1 : max / 127;
+  return {
+    vector: Int8Array.from(embedding, (value) => Math.round(value / scale)),
+    scale,
+  };
+};
+
+// Size of a string in V8 serialization: one byte per character for Latin-1, else two
+const serializedStringBytes = (value: string): number => {
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) > 0xff) return value.length * 2;
+  }
+  return value.length;
+};
+
+// Estimated size of a stored document as a KV value
+const estimateValueBytes = (doc: KVStoredDocument): number =>
+  serializedStringBytes(doc.id) + serializedStringBytes(doc.content) +
+  serializedStringBytes(JSON.stringify(doc.metadata)) + doc.vector.byteLength;
+
+const decodeVector = (doc: KVStoredDocument): Float32Array => {
+  if (doc.vector instanceof Float32Array) {
+    return doc.vector;
+  }
+  const scale = doc.scale ?? 1;
+  return Float32Array.from(doc.vector, (value) => value * scale);
+};
+
+/**
+ * Creates a vector store that keeps documents and embeddings in Deno KV.
+ *
+ * Meant for small workspaces (hundreds to a few thousand chunks) where running
+ * LanceDB next to Deno KV is overkill, e.g. on Deno Deploy. Search is a brute-force
+ * scan of the table ranked by `config.metric`, with the same object and SQL-subset
+ * filters as the in-memory store. With `quantization: "int8"` vectors are stored as
+ * 8-bit integers, cutting storage and read volume by 4x at a small accuracy cost.
+ * The "keyword" and "hybrid" search modes rank the scanned documents with BM25.
+ *
+ * Tables live under `["vector_tables", name]`, documents under
+ * `["vector_documents", table, id, entryId]`. Like the LanceDB store, tables must be
+ * created before use, document IDs are not unique and scores follow the metric
+ * (see DistanceMetric).
+ * A document (content, metadata and vector) is stored as one KV value, so it must fit
+ * the 64 KiB value limit of Deno KV; larger documents are rejected, chunk them first.
+ *
+ * @param config Vector store configuration (`dimensions`, `tableName`, `metric`, `quantization`, `path`)
+ * @param embedding Embedding configuration or a pre-created EmbeddingModel
+ * @param kvState Existing workspace KV state to share (default: opens KV at `config.path`)
+ * @returns Promise resolving to the Deno KV vector store
+ *
+ * @example
+ * ```ts
+ * const kvStore = await createWorkspaceKV({ provider: "deno-kv" });
+ * const vectorStore = await createDenoKVVectorStore(
+ *   { provider: "deno-kv", dimensions: 1536, quantization: "int8" },
+ *   { provider: "openai", apiKey: Deno.env.get("OPENAI_API_KEY") },
+ *   kvStore,
+ * );
+ * await vectorStore.createTable("workspace_abc123");
+ * const results = await vectorStore.search("fire safety", { limit: 5 }, "workspace_abc123");
+ * ```
+ */
+export async function createDenoKVVectorStore(
+  config: VectorStoreConfig,
+  embedding: EmbeddingConfig | EmbeddingModel,
+  kvState?: WorkspaceKVState,
+): Promise<DenoKVVectorStore> {
+  const state: DenoKVVectorStoreState = {
+    kvState: kvState || await createWorkspaceKV({ provider: "deno-kv", path: config.path }),
+    ownsConnection: !kvState,
+    tableName: config.tableName || DEFAULT_TABLE_NAME,
+    embeddings: isEmbeddingModel(embedding) ? embedding : createEmbeddings({
+      ...embedding,
+      dimensions: embedding.dimensions ?? config.dimensions,
+    }),
+    dimensions: config.dimensions || DEFAULT_DIMENSIONS,
+    metric: config.metric || "cosine",
+    quantization: config.quantization || "none",
+  };
+  const kv = state.kvState.kv;
+
+  // Internal Helpers
+
+  async function getTable(tableName?: string): Promise<KVTableMetadata> {
+    const name = tableName || state.tableName;
+    const entry = await kv.get<KVTableMetadata>([TABLES_PREFIX, name]);
+    if (!entry.value) {
+      throw createNotFoundError(`Table '${name}' was not found`, { tableName: name });
+    }
+    if (entry.value.dimensions !== state.dimensions) {
+      throw createValidationError("Table dimensions do not match the vector store", {
+        tableName: name,
+        expected: state.dimensions,
+        actual: entry.value.dimensions,
+      });
+    }
+    return entry.value;
+  }
+
+  async function touch(table: KVTableMetadata): Promise<void> {
+    await kv.set([TABLES_PREFIX, table.name], {
+      ...table,
+      lastUpdated: new Date().toISOString(),
+    });
+  }
+
+  function toStoredDocument(
+    table: KVTableMetadata,
+    document: VectorDocument,
+    embedding: number[],
+  ): KVStoredDocument {
+    if (embedding.length !== state.dimensions) {
+      throw createValidationError("Embedding dimensions do not match the vector store", {
+        documentId: document.id,
+        expected: state.dimensions,
+        actual: embedding.length,
+      });
+    }
+    const doc: KVStoredDocument = {
+      id: document.id,
+      content: document.content,
+      metadata: document.metadata || {},
+      ...encodeVector(embedding, table.quantization),
+    };
+    const size = estimateValueBytes(doc);
+    if (size > MAX_VALUE_BYTES) {
+      throw createValidationError("Document is too large for a Deno KV value", {
+        documentId: document.id,
+        estimatedBytes: size,
+        maxBytes: MAX_VALUE_BYTES,
+      });
+    }
+    return doc;
+  }
+
+  async function commit(atomic: Deno.AtomicOperation, failure: string): Promise<void> {
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error(failure);
+    }
+  }
+
+  async function writeDocuments(tableName: string, documents: KVStoredDocument[]): Promise<void> {
+    for (let i = 0; i < documents.length; i += WRITE_BATCH_SIZE) {
+      const atomic = kv.atomic();
+      for (const doc of documents.slice(i, i + WRITE_BATCH_SIZE)) {
+        atomic.set([DOCUMENTS_PREFIX, tableName, doc.id, crypto.randomUUID()], doc);
+      }
+      await commit(atomic, `Failed to write documents to table '${tableName}'`);
+    }
+  }
+
+  async function deleteByPrefix(prefix: Deno.KvKey): Promise<number> {
+    const failure = `Failed to delete entries under [${prefix.join(", ")}]`;
+    let deleted = 0;
+    let atomic = kv.atomic();
+    let pending = 0;
+    for await (const entry of kv.list({ prefix })) {
+      atomic.delete(entry.key);
+      deleted++;
+      if (++pending === WRITE_BATCH_SIZE) {
+        await commit(atomic, failure);
+        atomic = kv.atomic();
+        pending = 0;
+      }
+    }
+    if (pending > 0) {
+      await commit(atomic, failure);
+    }
+    return deleted;
+  }
+
+  async function scanDocuments(tableName: string): Promise<Deno.KvEntry<KVStoredDocument>[]> {
+    const entries: Deno.KvEntry<KVStoredDocument>[] = [];
+    for await (
+      const entry of kv.list<KVStoredDocument>({ prefix: [DOCUMENTS_PREFIX, tableName] })
+    ) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  async function embedDocuments(
+    table: KVTableMetadata,
+    documents: VectorDocument[],
+  ): Promise<KVStoredDocument[]> {
+    const missing = documents.filter((doc) => !doc.embedding);
+    const embeddings = missing.length > 0
+      ? await state.embeddings.embedTexts(missing.map((doc) => doc.content))
+      : [];
+
+    let next = 0;
+    return documents.map((doc) =>
+      toStoredDocument(table, doc, doc.embedding || embeddings[next++])
+    );
+  }
+
+  function toVectorDocument(doc: KVStoredDocument, includeEmbedding: boolean): VectorDocument {
+    return {
+      id: doc.id,
+      content: doc.content,
+      metadata: doc.metadata,
+      ...(includeEmbedding ? { embedding: Array.from(decodeVector(doc)) } : {}),
+    };
+  }
+
+  async function findDocument(
+    table: KVTableMetadata,
+    id: string,
+  ): Promise<VectorDocument | null> {
+    const prefix = [DOCUMENTS_PREFIX, table.name, id];
+    for await (const entry of kv.list<KVStoredDocument>({ prefix }, { limit: 1 })) {
+      return toVectorDocument(entry.value, true);
+    }
+    return null;
+  }
+
+  function toSearchResult(
+    doc: KVStoredDocument,
+    score: number,
+    options: SearchOptions,
+    vector?: Float32Array,
+  ): SearchResult {
+    return {
+      id: doc.id,
+      content: doc.content,
+      metadata: doc.metadata,
+      score,
+      ...(options.includeEmbeddings ? { embedding: Array.from(vector || decodeVector(doc)) } : {}),
+    };
+  }
+
+  // Implementation Methods
+
+  const createTable = async (
+    tableName: string,
+    schemaDefinitionDocument?: VectorDocument,
+  ): Promise<void> => {
+    const targetTable = tableName || state.tableName;
+    const now = new Date().toISOString();
+    const table: KVTableMetadata = {
+      name: targetTable,
+      dimensions: state.dimensions,
+      quantization: state.quantization,
+      createdAt: now,
+      lastUpdated: now,
+    };
+
+    const result = await kv.atomic()
+      .check({ key: [TABLES_PREFIX, targetTable], versionstamp: null })
+      .set([TABLES_PREFIX, targetTable], table)
+      .commit();
+    if (!result.ok) {
+      logger.debug("Table already exists", { tableName: targetTable });
+      return;
+    }
+
+    // Like LanceDB, a schema definition document is stored (callers delete it)
+    if (schemaDefinitionDocument) {
+      await writeDocuments(targetTable, [
+        toStoredDocument(
+          table,
+          schemaDefinitionDocument,
+          schemaDefinitionDocument.embedding || new Array(state.dimensions).fill(0),
+        ),
+      ]);
+    }
+    logger.info("Table created successfully", { tableName: targetTable });
+  };
+
+  const deleteTable = async (tableName: string): Promise<void> => {
+    await getTable(tableName);
+    await deleteByPrefix([DOCUMENTS_PREFIX, tableName]);
+    await kv.delete([TABLES_PREFIX, tableName]);
+    logger.info("Successfully dropped table", { tableName });
+  };
+
+  const addDocument = async (
+    document: VectorDocument,
+    tableName?: string,
+  ): Promise<void> => {
+    await addDocuments([document], tableName);
+  };
+
+  const addDocuments = async (
+    documents: VectorDocument[],
+    tableName?: string,
+  ): Promise<void> => {
+    if (documents.length === 0) return;
+    const table = await getTable(tableName);
+    const records = await embedDocuments(table, documents);
+    await writeDocuments(table.name, records);
+    await touch(table);
+    logger.debug("Added documents", { tableName: table.name, count: records.length });
+  };
+
+  const vectorSearch = async (
+    embedding: number[],
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    const table = await getTable(tableName);
+    if (embedding.length !== state.dimensions) {
+      throw createValidationError("Query embedding dimensions do not match the vector store", {
+        expected: state.dimensions,
+        actual: embedding.length,
+      });
+    }
+
+    const matches = compileFilter(options.filter);
+    const score = scoreFunctions[state.metric];
+    const documents = (await scanDocuments(table.name)).map((entry) => entry.value);
+
+    return documents
+      .filter(matches)
+      .map((doc) => {
+        const vector = decodeVector(doc);
+        return { doc, vector, score: score(embedding, vector) };
+      })
+      .filter((result) => !options.threshold || result.score >= options.threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit || DEFAULT_SEARCH_LIMIT)
+      .map(({ doc, vector, score }) => toSearchResult(doc, score, options, vector));
+  };
+
+  const searchByEmbedding = async (
+    embedding: number[],
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    return await applyPostRetrieval(
+      options,
+      { getQueryEmbedding: async () => embedding },
+      (stageOptions) => vectorSearch(embedding, stageOptions, tableName),
+    );
+  };
+
+  const keywordSearch = async (
+    query: string,
+    options: SearchOptions,
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    const table = await getTable(tableName);
+    const matches = compileFilter(options.filter);
+
+    // Documents are scanned on every search anyway, so the index is built per query
+    const keywordIndex = createInvertedIndex<KVStoredDocument>();
+    for (const { value: doc } of await scanDocuments(table.name)) {
+      keywordIndex.add(doc, doc.content);
+    }
+    return keywordIndex
+      .search(query, options.limit || DEFAULT_SEARCH_LIMIT, matches)
+      .map(({ ref, score }) => toSearchResult(ref, score, options));
+  };
+
+  const search = async (
+    query: string,
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    logger.debug("Searching table", { tableName: tableName || "default", mode: options.mode });
+    let queryEmbedding: Promise<number[]> | undefined = options.queryEmbedding
+      ? Promise.resolve(options.queryEmbedding)
+      : undefined;
+    const getQueryEmbedding = () => queryEmbedding ||= state.embeddings.embedText(query);
+
+    return await applyPostRetrieval(
+      options,
+      { query, getQueryEmbedding },
+      (stageOptions) =>
+        runSearchMode(stageOptions, {
+          vector: async (modeOptions) =>
+            await vectorSearch(await getQueryEmbedding(), modeOptions, tableName),
+          keyword: (modeOptions) => keywordSearch(query, modeOptions, tableName),
+        }),
+    );
+  };
+
+  const getDocument = async (
+    id: string,
+    tableName?: string,
+  ): Promise<VectorDocument | null> => {
+    return await findDocument(await getTable(tableName), id);
+  };
+
+  const getDocuments = async (
+    ids: string[],
+    tableName?: string,
+  ): Promise<VectorDocument[]> => {
+    const table = await getTable(tableName);
+    const documents = await Promise.all([...new Set(ids)].map((id) => findDocument(table, id)));
+    return documents.filter((doc): doc is VectorDocument => doc !== null);
+  };
+
+  const deleteDocument = async (
+    id: string,
+    tableName?: string,
+  ): Promise<void> => {
+    const table = await getTable(tableName);
+    await deleteByPrefix([DOCUMENTS_PREFIX, table.name, id]);
+    await touch(table);
+  };
+
+  const updateDocument = async (
+    document: VectorDocument,
+    tableName?: string,
+  ): Promise<void> => {
+    await upsertDocuments([document], tableName);
+  };
+
+  const upsertDocuments = async (
+    documents: VectorDocument[],
+    tableName?: string,
+  ): Promise<void> => {
+    if (documents.length === 0) return;
+    const table = await getTable(tableName);
+
+    // Like LanceDB merge_insert, the last document with an ID wins
+    const uniqueDocuments = [...new Map(documents.map((doc) => [doc.id, doc])).values()];
+    const records = await embedDocuments(table, uniqueDocuments);
+
+    // Each batch replaces the existing entries of its IDs in one atomic commit
+    for (let i = 0; i < records.length; i += WRITE_BATCH_SIZE) {
+      const atomic = kv.atomic();
+      for (const doc of records.slice(i, i + WRITE_BATCH_SIZE)) {
+        for await (const entry of kv.list({ prefix: [DOCUMENTS_PREFIX, table.name, doc.id] })) {
+          atomic.check(entry).delete(entry.key);
+        }
+        atomic.set([DOCUMENTS_PREFIX, table.name, doc.id, crypto.randomUUID()], doc);
+      }
+      await commit(atomic, `Failed to upsert documents in table '${table.name}'`);
+    }
+    await touch(table);
+    logger.debug("Upserted documents", { tableName: table.name, count: records.length });
+  };
+
+  const deleteWhere = async (
+    filter: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    if (!filter || (typeof filter === "object" && Object.keys(filter).length === 0)) {
+      throw createValidationError("deleteWhere requires a non-empty filter (use clear() instead)");
+    }
+    const table = await getTable(tableName);
+    const matches = compileFilter(filter);
+    const keys = (await scanDocuments(table.name))
+      .filter((entry) => matches(entry.value))
+      .map((entry) => entry.key);
+
+    for (let i = 0; i < keys.length; i += WRITE_BATCH_SIZE) {
+      const atomic = kv.atomic();
+      keys.slice(i, i + WRITE_BATCH_SIZE).forEach((key) => atomic.delete(key));
+      await commit(atomic, `Failed to delete documents from table '${table.name}'`);
+    }
+    await touch(table);
+    logger.debug("Deleted documents by filter", { tableName: table.name, count: keys.length });
+    return keys.length;
+  };
+
+  const countWhere = async (
+    filter?: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    const table = await getTable(tableName);
+    const matches = compileFilter(filter);
+    return (await scanDocuments(table.name)).filter((entry) => matches(entry.value)).length;
+  };
+
+  const listDocuments = async (
+    options: ListDocumentsOptions = {},
+    tableName?: string,
+  ): Promise<ListDocumentsPage> => {
+    const table = await getTable(tableName);
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const matches = compileFilter(options.filter);
+    const after = decodeKeysetCursor(options.cursor);
+    const prefix = [DOCUMENTS_PREFIX, table.name];
+    const documents: VectorDocument[] = [];
+
+    // Keys sort by document ID, so the page resumes right after the last listed ID;
+    // a page ends before the first match past `limit` IDs
+    const entries = kv.list<KVStoredDocument>(
+      after === undefined ? { prefix } : { prefix, start: [...prefix, after] },
+    );
+    let ids = 0;
+    for await (const entry of entries) {
+      if (entry.value.id === after || !matches(entry.value)) continue;
+      if (entry.value.id !== documents.at(-1)?.id && ++ids > limit) {
+        return { documents, nextCursor: encodeKeysetCursor(documents.at(-1)!.id) };
+      }
+      documents.push(toVectorDocument(entry.value, Boolean(options.includeEmbeddings)));
+    }
+    return { documents };
+  };
+
+  const getStats = async (tableName?: string): Promise<VectorStoreStats> => {
+    const table = await getTable(tableName);
+    let totalDocuments = 0;
+    for await (const _ of kv.list({ prefix: [DOCUMENTS_PREFIX, table.name] })) {
+      totalDocuments++;
+    }
+    const bytesPerValue = table.quantization === "int8" ? 1 : 4;
+    return {
+      totalDocuments,
+      totalSize: totalDocuments * state.dimensions * bytesPerValue,
+      lastUpdated: new Date(table.lastUpdated),
+    };
+  };
+
+  const listTables = async (): Promise<string[]> => {
+    const tables: string[] = [];
+    for await (const entry of kv.list<KVTableMetadata>({ prefix: [TABLES_PREFIX] })) {
+      tables.push(entry.value.name);
+    }
+    return tables;
+  };
+
+  const clear = async (tableName?: string): Promise<void> => {
+    const table = await getTable(tableName);
+    const deleted = await deleteByPrefix([DOCUMENTS_PREFIX, table.name]);
+    await touch(table);
+    logger.info("Cleared table", { tableName: table.name, deleted });
+  };
+
+  const transferHandlers = (tableName?: string): TableTransferHandlers => {
+    const targetTable = tableName || state.tableName;
+    return {
+      dimensions: state.dimensions,
+      listDocuments: (options) => listDocuments(options, targetTable),
+      tableExists: async () => (await listTables()).includes(targetTable),
+      createTable: (schemaDocument) => createTable(targetTable, schemaDocument),
+      addDocuments: (documents) => addDocuments(documents, targetTable),
+      upsertDocuments: (documents) => upsertDocuments(documents, targetTable),
+    };
+  };
+
+  const exportTable = async (
+    options: ExportTableOptions = {},
+    tableName?: string,
+  ): Promise<ReadableStream<Uint8Array>> => {
+    return await exportDocuments(options, transferHandlers(tableName));
+  };
+
+  const importTable = async (
+    source: ReadableStream<Uint8Array> | Uint8Array,
+    options: ImportTableOptions = {},
+    tableName?: string,
+  ): Promise<ImportTableResult> => {
+    return await importDocuments(source, options, transferHandlers(tableName));
+  };
+
+  const close = (): void => {
+    if (state.ownsConnection) {
+      closeWorkspaceKV(state.kvState);
+    }
+  };
+
+  return {
+    kvState: state.kvState,
+    addDocument,
+    addDocuments,
+    search,
+    searchByEmbedding,
+    getDocument,
+    getDocuments,
+    deleteDocument,
+    updateDocument,
+    createTable,
+    deleteTable,
+    getStats,
+    listTables,
+    clear,
+    upsertDocuments,
+    deleteWhere,
+    countWhere,
+    listDocuments,
+    exportTable,
+    importTable,
+    close,
+  };
+}
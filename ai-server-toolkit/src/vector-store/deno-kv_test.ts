@@ -0,0 +1,140 @@
+import { assert, assertAlmostEquals, assertEquals, assertRejects } from "@std/assert";
+import type { ListDocumentsPage, VectorStoreConfig } from "../types.ts";
+import { ErrorCode, isAppError } from "../utils/errors.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createWorkspaceKV } from "../workspace/kv-store.ts";
+import { createDenoKVVectorStore, type DenoKVVectorStore } from "./deno-kv.ts";
+
+const DIMENSIONS = 16;
+
+const withKVStore = async (
+  config: Partial<VectorStoreConfig>,
+  fn: (store: DenoKVVectorStore) => Promise<void>,
+): Promise<void> => {
+  const store = await createDenoKVVectorStore(
+    { provider: "deno-kv", path: ":memory:", dimensions: DIMENSIONS, ...config },
+    createHashEmbeddings({ dimensions: DIMENSIONS }),
+  );
+  try {
+    await store.createTable("documents");
+    await fn(store);
+  } finally {
+    store.close();
+  }
+};
+
+Deno.test("Deno KV store searches, filters and persists documents", async () => {
+  await withKVStore({}, async (store) => {
+    await store.addDocuments([
+      { id: "exit", content: "fire exit doors", metadata: { chapter: 3 } },
+      { id: "parking", content: "parking spaces", metadata: { chapter: 7 } },
+    ]);
+
+    const [best] = await store.search("fire exit");
+    const filtered = await store.search("fire exit", { filter: "metadata.chapter > 5" });
+
+    assertEquals(best.id, "exit");
+    assertEquals(filtered.map((r) => r.id), ["parking"]);
+    assertEquals((await store.getStats()).totalDocuments, 2);
+    assertEquals((await store.getDocument("parking"))?.metadata, { chapter: 7 });
+  });
+});
+
+Deno.test("Deno KV store gets documents by ID in the requested order", async () => {
+  await withKVStore({}, async (store) => {
+    await store.addDocuments([
+      { id: "a", content: "first" },
+      { id: "b", content: "second" },
+    ]);
+
+    const found = await store.getDocuments(["b", "missing", "a", "b"]);
+
+    assertEquals(found.map((doc) => doc.content), ["second", "first"]);
+    assertEquals(found[0].embedding?.length, DIMENSIONS);
+    assertEquals(await store.getDocument("missing"), null);
+  });
+});
+
+Deno.test("Deno KV store keeps int8 vectors close to the originals", async () => {
+  await withKVStore({ quantization: "int8" }, async (store) => {
+    const embedding = Array.from({ length: DIMENSIONS }, (_, i) => (i - 8) / 10);
+    await store.addDocument({ id: "q", content: "quantized", embedding });
+
+    const stored = await store.getDocument("q");
+
+    stored!.embedding!.forEach((value, i) => assertAlmostEquals(value, embedding[i], 0.01));
+    assertEquals((await store.getStats()).totalSize, DIMENSIONS);
+  });
+});
+
+Deno.test("Deno KV store lists filtered pages by ID and keeps duplicate IDs together", async () => {
+  await withKVStore({}, async (store) => {
+    await store.addDocuments(
+      ["d", "b", "a", "c", "b"].map((id) => ({ id, content: id, metadata: { keep: id !== "c" } })),
+    );
+    const ids = (page: ListDocumentsPage) => page.documents.map((doc) => doc.id);
+
+    const first = await store.listDocuments({ limit: 2, filter: { keep: true } });
+    await store.addDocument({ id: "0", content: "behind the cursor", metadata: { keep: true } });
+    const second = await store.listDocuments({
+      limit: 2,
+      filter: { keep: true },
+      cursor: first.nextCursor,
+    });
+
+    assertEquals(ids(first), ["a", "b", "b"]);
+    assertEquals(ids(second), ["d"]);
+    assertEquals(second.nextCursor, undefined);
+  });
+});
+
+Deno.test("Deno KV store rejects documents over the KV value limit", async () => {
+  await withKVStore({}, async (store) => {
+    const error = await assertRejects(() =>
+      store.addDocuments([
+        { id: "small", content: "fits" },
+        { id: "large", content: "ä€".repeat(20_000) },
+      ])
+    );
+
+    assert(isAppError(error));
+    assertEquals(error.code, ErrorCode.VALIDATION_ERROR);
+    assertEquals(error.details?.documentId, "large");
+    // Nothing is written when one document of the call is too large
+    assertEquals(await store.countWhere(), 0);
+  });
+});
+
+Deno.test("Deno KV store reports failed commits of deletes", async () => {
+  const kvState = await createWorkspaceKV({ provider: "deno-kv", path: ":memory:" });
+  let failCommits = false;
+  const kv = new Proxy(kvState.kv, {
+    get(target, property) {
+      if (property === "atomic") {
+        return () => {
+          const atomic = target.atomic();
+          const commit = atomic.commit.bind(atomic);
+          atomic.commit = () => failCommits ? Promise.resolve({ ok: false }) : commit();
+          return atomic;
+        };
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  const store = await createDenoKVVectorStore(
+    { provider: "deno-kv", dimensions: DIMENSIONS },
+    createHashEmbeddings({ dimensions: DIMENSIONS }),
+    { ...kvState, kv },
+  );
+  try {
+    await store.createTable("documents");
+    await store.addDocuments([{ id: "a", content: "a", metadata: { tag: "x" } }]);
+    failCommits = true;
+
+    await assertRejects(() => store.deleteWhere({ tag: "x" }), Error, "Failed to delete");
+    await assertRejects(() => store.clear(), Error, "Failed to delete");
+  } finally {
+    kvState.kv.close();
+  }
+});
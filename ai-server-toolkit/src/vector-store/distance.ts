@@ -0,0 +1,50 @@
+// Distance metrics shared by the pure-TypeScript vector stores
+import type { DistanceMetric } from "../types.ts";
+
+// Returns a score where higher is better, the same score distanceToScore gives LanceDB results
+export const scoreFunctions: Record<
+  DistanceMetric,
+  (a: ArrayLike<number>, b: ArrayLike<number>) => number
+> = {
+  cosine: (a, b) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  },
+  dot: (a, b) => {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return dot;
+  },
+  l2: (a, b) => {
+    // Squared euclidean distance, as reported by LanceDB
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      distance += (a[i] - b[i]) * (a[i] - b[i]);
+    }
+    return 1 / (1 + distance);
+  },
+};
+
+/**
+ * Converts a distance reported by LanceDB to a score where higher is better.
+ *
+ * Cosine and dot distances are `1 - similarity`, so the score is the similarity.
+ * Squared L2 distances are unbounded, so `1 - distance` would turn negative for
+ * far results; `1 / (1 + distance)` keeps L2 scores in (0, 1] for thresholds.
+ *
+ * @param metric Distance metric of the search
+ * @param distance Distance of a result
+ * @returns Score of the result
+ */
+export function distanceToScore(metric: DistanceMetric, distance: number): number {
+  return metric === "l2" ? 1 / (1 + distance) : 1 - distance;
+}
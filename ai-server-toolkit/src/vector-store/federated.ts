@@ -0,0 +1,265 @@
+// Federated search - one query over several tables, merged into one ranking
+import type {
+  DistanceMetric,
+  EmbeddingModel,
+  SearchFilter,
+  SearchOptions,
+  SearchResult,
+  VectorStore,
+} from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+
+const logger = createSubLogger("federated-search");
+
+const DEFAULT_SEARCH_LIMIT = 10;
+// Normalized score of results whose table shows no spread of scores to measure them by
+const NEUTRAL_SCORE = 0.5;
+
+// Score ranges of the vector metrics (see distanceToScore); dot products are unbounded
+const METRIC_SCORE_RANGES: Partial<Record<DistanceMetric, [number, number]>> = {
+  cosine: [-1, 1],
+  l2: [0, 1],
+};
+
+/**
+ * How the scores of each table are made comparable before merging:
+ * - "metric": vector scores are scaled from the metric's score range to 0..1, so a
+ *   table whose best match is weak still scores low
+ * - "zscore": standard scores of each table, mapped to 0..1 (0.5 is the table's mean),
+ *   for keyword and hybrid scores, whose scale depends on the table
+ * - "none": keeps the scores of the store
+ * - "auto": "metric" for vector searches given a cosine or l2 `metric`, "zscore" otherwise
+ */
+export type ScoreNormalization = "auto" | "metric" | "zscore" | "none";
+
+/**
+ * Table searched by searchAcrossTables, named directly or by its workspace
+ */
+export interface FederatedSearchTarget {
+  tableName?: string;
+  /** Workspace whose table is searched (see FederatedSearchOptions.resolveWorkspaceTable) */
+  workspaceId?: string;
+  /** Multiplier of the table's normalized scores (default: 1) */
+  weight?: number;
+  /** Results taken from this table at most (default: options.limit) */
+  limit?: number;
+  /** Filter for this table instead of options.filter */
+  filter?: SearchFilter;
+}
+
+/**
+ * Options for searchAcrossTables
+ */
+export interface FederatedSearchOptions extends SearchOptions {
+  /**
+   * Embedding model of the store; the query is then embedded once for all tables
+   * (otherwise every table search embeds it, unless `queryEmbedding` is given)
+   */
+  embeddings?: EmbeddingModel;
+  /** Score normalization per table (default: "auto") */
+  normalization?: ScoreNormalization;
+  /**
+   * Distance metric the store was created with, needed for "metric" normalization
+   * (stores default to different metrics: memory and KV "cosine", LanceDB "l2")
+   */
+  metric?: DistanceMetric;
+  /** Table of a workspace target (default: `workspace_{id}`) */
+  resolveWorkspaceTable?: (workspaceId: string) => string | Promise<string>;
+}
+
+/**
+ * Search result tagged with the table it came from
+ */
+export interface FederatedSearchResult extends SearchResult {
+  tableName: string;
+  workspaceId?: string;
+  /** Score of the table's own search, before normalization and weighting */
+  tableScore: number;
+}
+
+// Identifies a result again after reranking, which returns copies typed as SearchResult
+const resultKey = (result: SearchResult): string => `${result.id}\u0000${result.content}`;
+
+const toTarget = (target: string | FederatedSearchTarget): FederatedSearchTarget =>
+  typeof target === "string" ? { tableName: target } : target;
+
+const validateTarget = (target: FederatedSearchTarget): void => {
+  if (!target.tableName === !target.workspaceId) {
+    throw createValidationError("A search target needs either a tableName or a workspaceId", {
+      target,
+    });
+  }
+  if (target.weight !== undefined && !(target.weight >= 0)) {
+    throw createValidationError("Search target weights must not be negative", { target });
+  }
+};
+
+// Standard scores squashed to 0..1 by the logistic function; a table with one result or
+// equal scores has no spread to measure them by, so they get the neutral score
+const zScores = (scores: number[]): number[] => {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+  const deviation = Math.sqrt(variance);
+  if (!(deviation > 0)) return scores.map(() => NEUTRAL_SCORE);
+  return scores.map((score) => 1 / (1 + Math.exp(-(score - mean) / deviation)));
+};
+
+const normalizeScores = (
+  results: SearchResult[],
+  normalization: Exclude<ScoreNormalization, "auto">,
+  metric: DistanceMetric | undefined,
+): number[] => {
+  const scores = results.map((result) => result.score);
+  if (normalization === "none") return scores;
+  if (normalization === "zscore") return zScores(scores);
+
+  if (!metric) {
+    throw createValidationError(
+      `"metric" normalization needs the store's metric in options.metric`,
+    );
+  }
+  const range = METRIC_SCORE_RANGES[metric];
+  if (!range) {
+    throw createValidationError(`"metric" normalization needs a bounded metric, not ${metric}`, {
+      metric,
+    });
+  }
+  const [min, max] = range;
+  return scores.map((score) => Math.min(1, Math.max(0, (score - min) / (max - min))));
+};
+
+/**
+ * Searches several tables with one query and merges the results into one ranking.
+ *
+ * The tables are searched in parallel with the search options (mode, threshold, dedupe,
+ * MMR); given the store's `embeddings`, the query is embedded once for all of them.
+ * Each table's scores are normalized to 0..1, multiplied by the table's weight and
+ * merged, best first. Given the store's `metric`, vector scores are normalized against
+ * the metric's score range, so they keep their meaning across tables; keyword and
+ * hybrid scores, and vector scores of an unknown metric, as standard
+ * scores per table, where a table with a single result or equal scores gets 0.5 rather
+ * than a perfect score. A reranker runs once over the merged results, which makes their
+ * scores directly comparable; the table weights are then applied to the reranked
+ * scores. Every result carries its `tableName`, its `workspaceId` for workspace targets,
+ * and its original `tableScore`.
+ *
+ * @param store Vector store holding the tables
+ * @param targets Table names, or targets with a table or workspace and their weight, limit and filter
+ * @param query Search query
+ * @param options Search options plus score normalization and workspace table resolution
+ * @returns Merged results, best first, cut to `options.limit`
+ * @throws AppError (VALIDATION_ERROR) for no targets, targets without a table, negative
+ *   weights, or "metric" normalization without a metric or with the dot metric
+ *
+ * @example
+ * ```ts
+ * const results = await searchAcrossTables(
+ *   vectorStore,
+ *   [
+ *     { tableName: "company_standards", weight: 0.5, limit: 3 },
+ *     { workspaceId: "ws_123" },
+ *   ],
+ *   "fire exit width",
+ *   {
+ *     limit: 8,
+ *     embeddings, // the model the vector store was created with
+ *     metric: "l2", // and its metric
+ *     resolveWorkspaceTable: (id) => resolveWorkspaceTableName(kvStore, id),
+ *   },
+ * );
+ * results.forEach((r) => console.log(r.tableName, r.score.toFixed(2), r.content));
+ * ```
+ */
+export async function searchAcrossTables(
+  store: VectorStore,
+  targets: Array<string | FederatedSearchTarget>,
+  query: string,
+  options: FederatedSearchOptions = {},
+): Promise<FederatedSearchResult[]> {
+  if (targets.length === 0) {
+    throw createValidationError("searchAcrossTables requires at least one table");
+  }
+  const resolvedTargets = targets.map(toTarget);
+  resolvedTargets.forEach(validateTarget);
+
+  const {
+    normalization = "auto",
+    metric,
+    resolveWorkspaceTable = (workspaceId: string) => `workspace_${workspaceId}`,
+    embeddings,
+    reranker,
+    ...searchOptions
+  } = options;
+  const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+  const tableNormalization = normalization !== "auto"
+    ? normalization
+    : (options.mode ?? "vector") === "vector" && metric && METRIC_SCORE_RANGES[metric]
+    ? "metric"
+    : "zscore";
+
+  const [tableNames, queryEmbedding] = await Promise.all([
+    Promise.all(
+      resolvedTargets.map(async (target) =>
+        target.tableName || await resolveWorkspaceTable(target.workspaceId!)
+      ),
+    ),
+    // Keyword searches need no embedding
+    options.queryEmbedding ||
+    (options.mode === "keyword" ? undefined : embeddings?.embedText(query)),
+  ]);
+
+  const tableResults = await Promise.all(
+    resolvedTargets.map((target, i) =>
+      store.search(
+        query,
+        {
+          ...searchOptions,
+          limit: target.limit ?? limit,
+          filter: target.filter ?? options.filter,
+          queryEmbedding,
+        },
+        tableNames[i],
+      )
+    ),
+  );
+
+  const weights = new Map<FederatedSearchResult, number>();
+  let merged: FederatedSearchResult[] = tableResults.flatMap((results, i) => {
+    const { workspaceId, weight = 1 } = resolvedTargets[i];
+    const scores = normalizeScores(results, tableNormalization, metric);
+    return results.map((result, rank) => {
+      const tagged: FederatedSearchResult = {
+        ...result,
+        tableName: tableNames[i],
+        ...(workspaceId && { workspaceId }),
+        tableScore: result.score,
+        score: weight * scores[rank],
+      };
+      weights.set(tagged, weight);
+      return tagged;
+    });
+  });
+  merged.sort((a, b) => b.score - a.score);
+
+  if (reranker) {
+    // Map the reranked copies back to their tables, then weight the reranked scores
+    const origins = new Map<string, FederatedSearchResult[]>();
+    for (const result of merged) {
+      const key = resultKey(result);
+      origins.set(key, [...origins.get(key) || [], result]);
+    }
+    const reranked = await reranker.rerank(query, merged);
+    merged = reranked.flatMap((result) => {
+      const origin = origins.get(resultKey(result))?.shift();
+      return origin ? [{ ...origin, score: weights.get(origin)! * result.score }] : [];
+    });
+    merged.sort((a, b) => b.score - a.score);
+  }
+
+  logger.debug("Searched across tables", {
+    tables: tableNames.length,
+    results: merged.length,
+  });
+  return merged.slice(0, limit);
+}
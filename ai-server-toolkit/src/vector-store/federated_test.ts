@@ -0,0 +1,121 @@
+import { assert, assertAlmostEquals, assertEquals, assertRejects } from "@std/assert";
+import type { Reranker } from "../types.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "./memory.ts";
+import { searchAcrossTables } from "./federated.ts";
+
+const DIMENSIONS = 32;
+
+// "standards" holds close and distant matches of the query, "notes" one distant match
+const createStore = async () => {
+  const embeddings = createHashEmbeddings({ dimensions: DIMENSIONS });
+  const store = await createMemoryVectorStore(
+    { provider: "memory", dimensions: DIMENSIONS },
+    embeddings,
+  );
+  await store.createTable("standards");
+  await store.addDocuments([
+    { id: "exit-width", content: "fire exit width" },
+    { id: "exit-doors", content: "fire exit doors open outwards" },
+    { id: "parking", content: "parking spaces per flat" },
+  ], "standards");
+  await store.createTable("notes");
+  await store.addDocuments([{ id: "lunch", content: "team lunch on friday" }], "notes");
+  return { store, embeddings };
+};
+
+Deno.test("searchAcrossTables scores vector results against the metric's range", async () => {
+  const { store, embeddings } = await createStore();
+
+  const results = await searchAcrossTables(store, ["standards", "notes"], "fire exit width", {
+    embeddings,
+    metric: "cosine",
+  });
+
+  assertEquals(results[0].id, "exit-width");
+  assertAlmostEquals(results[0].score, 1);
+  const lunch = results.find((result) => result.id === "lunch")!;
+  assertEquals(lunch.tableName, "notes");
+  // The only result of its table keeps its weak cosine similarity
+  assertAlmostEquals(lunch.score, (lunch.tableScore + 1) / 2);
+  assert(lunch.score < results[1].score);
+});
+
+Deno.test("searchAcrossTables gives single-result tables a neutral standard score", async () => {
+  const { store } = await createStore();
+
+  const results = await searchAcrossTables(
+    store,
+    ["standards", "notes"],
+    "fire exit lunch",
+    { mode: "keyword" },
+  );
+
+  const lunch = results.find((result) => result.id === "lunch")!;
+  assertEquals(lunch.score, 0.5);
+  const standards = results.filter((result) => result.tableName === "standards");
+  assertEquals(standards.map((result) => result.id), ["exit-width", "exit-doors"]);
+  assertAlmostEquals(standards[0].score + standards[1].score, 1);
+});
+
+Deno.test("searchAcrossTables weights reranked scores and keeps result tables", async () => {
+  const { store, embeddings } = await createStore();
+  const reranker: Reranker = {
+    rerank: (_query, results) =>
+      Promise.resolve(results.map((result) => ({ ...result, score: 1 }))),
+  };
+
+  const results = await searchAcrossTables(
+    store,
+    [{ tableName: "standards", weight: 0.5 }, { tableName: "notes" }],
+    "fire exit width",
+    { embeddings, reranker },
+  );
+
+  assertEquals(results[0].id, "lunch");
+  assertEquals(results[0].score, 1);
+  assertEquals(results[0].tableName, "notes");
+  assertEquals(results.slice(1).map((result) => [result.tableName, result.score]), [
+    ["standards", 0.5],
+    ["standards", 0.5],
+    ["standards", 0.5],
+  ]);
+});
+
+Deno.test("searchAcrossTables uses standard scores for vector searches of an unknown metric", async () => {
+  const { store, embeddings } = await createStore();
+
+  const results = await searchAcrossTables(store, ["standards", "notes"], "fire exit width", {
+    embeddings,
+  });
+
+  assertEquals(results.find((result) => result.id === "lunch")!.score, 0.5);
+  assertEquals(results[0].id, "exit-width");
+  // The exact match scores 1 against the cosine range, less as a standard score
+  assert(results[0].score < 0.9);
+});
+
+Deno.test("searchAcrossTables needs a bounded metric for metric normalization", async () => {
+  const { store, embeddings } = await createStore();
+
+  await assertRejects(
+    () =>
+      searchAcrossTables(store, ["standards"], "fire exit", {
+        embeddings,
+        normalization: "metric",
+      }),
+    Error,
+    "options.metric",
+  );
+
+  await assertRejects(
+    () =>
+      searchAcrossTables(store, ["standards"], "fire exit", {
+        embeddings,
+        metric: "dot",
+        normalization: "metric",
+      }),
+    Error,
+    "bounded metric",
+  );
+});
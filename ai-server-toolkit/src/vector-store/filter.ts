@@ -0,0 +1,231 @@
+// Typed filter expressions for SearchOptions.filter, compiled to escaped LanceDB SQL
+import type { FilterExpression, FilterValue } from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
+
+/**
+ * Options for compileFilterExpression
+ */
+export interface FilterCompileOptions {
+  /** Compile for the LanceDB Cloud layout (`meta_x` columns) instead of local (`metadata.x`) */
+  isCloud?: boolean;
+}
+
+const FILTER_OPS = new Set([
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "contains",
+  "exists",
+  "and",
+  "or",
+  "not",
+  "sql",
+]);
+const COMPARISON_OPERATORS = { eq: "=", ne: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+const TOP_LEVEL_COLUMNS = new Set(["id", "content"]);
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/**
+ * Builders for typed filter expressions
+ *
+ * @example
+ * ```ts
+ * const filter = where.and(
+ *   where.eq("category", "fire-safety"),
+ *   where.in("severity", ["high", "critical"]),
+ *   where.gte("page", 10),
+ *   where.not(where.eq("enabled", false)),
+ * );
+ * await vectorStore.search("evacuation routes", { filter });
+ * ```
+ */
+export const where = {
+  eq: (field: string, value: FilterValue): FilterExpression => ({ op: "eq", field, value }),
+  ne: (field: string, value: FilterValue): FilterExpression => ({ op: "ne", field, value }),
+  gt: (field: string, value: string | number): FilterExpression => ({ op: "gt", field, value }),
+  gte: (field: string, value: string | number): FilterExpression => ({ op: "gte", field, value }),
+  lt: (field: string, value: string | number): FilterExpression => ({ op: "lt", field, value }),
+  lte: (field: string, value: string | number): FilterExpression => ({ op: "lte", field, value }),
+  in: (field: string, values: FilterValue[]): FilterExpression => ({ op: "in", field, values }),
+  /** Matches documents whose array field contains the value */
+  contains: (field: string, value: FilterValue): FilterExpression => ({
+    op: "contains",
+    field,
+    value,
+  }),
+  /** Matches documents where the field is set (not null) */
+  exists: (field: string): FilterExpression => ({ op: "exists", field }),
+  and: (...filters: FilterExpression[]): FilterExpression => ({ op: "and", filters }),
+  or: (...filters: FilterExpression[]): FilterExpression => ({ op: "or", filters }),
+  not: (filter: FilterExpression): FilterExpression => ({ op: "not", filter }),
+  /**
+   * Embeds a SQL WHERE clause as-is. Nothing in it is escaped, so it must never contain
+   * user input; it is the explicit replacement for passing a raw SQL string as filter.
+   */
+  sql: (clause: string): FilterExpression => ({ op: "sql", sql: clause }),
+};
+
+/**
+ * Checks whether a SearchOptions filter is a typed FilterExpression rather than a
+ * metadata object.
+ *
+ * @param filter Filter from SearchOptions
+ * @returns True if the filter has a known `op` and the matching operand property
+ */
+export function isFilterExpression(filter: unknown): filter is FilterExpression {
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) return false;
+  const candidate = filter as Record<string, unknown>;
+  return typeof candidate.op === "string" && FILTER_OPS.has(candidate.op) &&
+    ("field" in candidate || "filters" in candidate || "filter" in candidate ||
+      "sql" in candidate);
+}
+
+/**
+ * Converts a metadata object filter into a typed expression: array values match any
+ * of their items, other values must be equal.
+ *
+ * @param filter Metadata field/value pairs
+ * @returns Conjunction of the field conditions
+ */
+export function objectToFilterExpression(filter: Record<string, unknown>): FilterExpression {
+  return where.and(
+    ...Object.entries(filter).map(([field, value]) =>
+      Array.isArray(value)
+        ? where.in(field, value.map((item) => toFilterValue(field, item)))
+        : where.eq(field, toFilterValue(field, value))
+    ),
+  );
+}
+
+const toFilterValue = (field: string, value: unknown): FilterValue => {
+  if (
+    value === null || typeof value === "string" || typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  if (value instanceof Date) return value.toISOString();
+  throw createValidationError("Unsupported filter value", { field, type: typeof value });
+};
+
+const sqlLiteral = (value: FilterValue): string => {
+  if (value === null) return "NULL";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw createValidationError("Filter numbers must be finite", { value: String(value) });
+    }
+    return String(value);
+  }
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+/**
+ * Maps a document field to its LanceDB column: `id` and `content` are top-level,
+ * metadata fields are `metadata.x` locally and `meta_x` in LanceDB Cloud.
+ *
+ * @param field Document or metadata field name
+ * @param options Target layout
+ * @returns Column name or path
+ * @throws AppError (VALIDATION_ERROR) for invalid field names
+ */
+export function columnName(field: string, options: FilterCompileOptions = {}): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw createValidationError("Invalid filter field name", { field });
+  }
+  if (TOP_LEVEL_COLUMNS.has(field)) return field;
+  if (!options.isCloud) return `metadata.${field}`;
+  if (field.includes(".")) {
+    throw createValidationError("Nested metadata fields cannot be filtered in LanceDB Cloud", {
+      field,
+    });
+  }
+  return `meta_${field}`;
+}
+
+/**
+ * Compiles a typed filter expression into a LanceDB SQL WHERE clause.
+ *
+ * Field names are validated and values are rendered as typed, escaped literals
+ * (strings quoted with `''` escaping, numbers and booleans unquoted), so no input can
+ * change the structure of the query. Metadata fields compile to `metadata.x` for local
+ * tables and `meta_x` for LanceDB Cloud tables. Only `where.sql` clauses are copied
+ * verbatim.
+ *
+ * @param expression Filter expression built with `where`
+ * @param options Target layout
+ * @returns SQL WHERE clause
+ * @throws AppError (VALIDATION_ERROR) for invalid field names or values
+ *
+ * @example
+ * ```ts
+ * compileFilterExpression(where.eq("title", "Owner's manual"));
+ * // "metadata.title = 'Owner''s manual'"
+ * compileFilterExpression(where.gte("page", 10), { isCloud: true });
+ * // "meta_page >= 10"
+ * ```
+ */
+export function compileFilterExpression(
+  expression: FilterExpression,
+  options: FilterCompileOptions = {},
+): string {
+  switch (expression.op) {
+    case "eq":
+    case "ne": {
+      const column = columnName(expression.field, options);
+      if (expression.value === null) {
+        return `${column} IS ${expression.op === "eq" ? "NULL" : "NOT NULL"}`;
+      }
+      return `${column} ${COMPARISON_OPERATORS[expression.op]} ${sqlLiteral(expression.value)}`;
+    }
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return `${columnName(expression.field, options)} ${COMPARISON_OPERATORS[expression.op]} ${
+        sqlLiteral(expression.value)
+      }`;
+    case "in": {
+      const column = columnName(expression.field, options);
+      const values = expression.values.filter((value) => value !== null);
+      const conditions = values.length > 0
+        ? [`${column} IN (${values.map(sqlLiteral).join(", ")})`]
+        : [];
+      // NULL never matches IN, so a null item becomes an IS NULL alternative
+      if (values.length < expression.values.length) conditions.push(`${column} IS NULL`);
+      return conditions.length > 0 ? conditions.join(" OR ") : "false";
+    }
+    case "contains": {
+      const column = columnName(expression.field, options);
+      if (!options.isCloud) {
+        return `array_has(${column}, ${sqlLiteral(expression.value)})`;
+      }
+      // Cloud stores arrays as JSON text; match the JSON-encoded item
+      const pattern = JSON.stringify(expression.value).replace(/[\\%_]/g, "\\$&");
+      return `${column} LIKE ${sqlLiteral(`%${pattern}%`)}`;
+    }
+    case "exists":
+      return `${columnName(expression.field, options)} IS NOT NULL`;
+    case "and":
+    case "or":
+      if (expression.filters.length === 0) return expression.op === "and" ? "true" : "false";
+      return expression.filters
+        .map((filter) => `(${compileFilterExpression(filter, options)})`)
+        .join(expression.op === "and" ? " AND " : " OR ");
+    case "not":
+      return `NOT (${compileFilterExpression(expression.filter, options)})`;
+    case "sql":
+      if (typeof expression.sql !== "string" || expression.sql.trim() === "") {
+        throw createValidationError("where.sql requires a non-empty SQL clause");
+      }
+      return expression.sql;
+    default:
+      throw createValidationError("Unsupported filter operator", {
+        op: (expression as { op: unknown }).op,
+      });
+  }
+}
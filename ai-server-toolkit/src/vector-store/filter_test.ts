@@ -0,0 +1,80 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "@std/assert";
+import {
+  columnName,
+  compileFilterExpression,
+  isFilterExpression,
+  objectToFilterExpression,
+  where,
+} from "./filter.ts";
+import { compileFilter } from "./sql-filter.ts";
+
+Deno.test("compileFilterExpression escapes values so they cannot change the query", () => {
+  assertEquals(
+    compileFilterExpression(where.eq("title", "x' OR 1=1 --")),
+    "metadata.title = 'x'' OR 1=1 --'",
+  );
+  assertEquals(compileFilterExpression(where.eq("id", "doc_1")), "id = 'doc_1'");
+  assertThrows(() => columnName("title = 'a' OR 1"), Error, "Invalid filter field name");
+  assertThrows(() => compileFilterExpression(where.gt("page", NaN)), Error, "finite");
+});
+
+Deno.test("compileFilterExpression compiles every operator for the local layout", () => {
+  const sql = compileFilterExpression(
+    where.and(
+      where.ne("status", null),
+      where.in("severity", ["high", null]),
+      where.lte("page", 10),
+      where.contains("tags", "fire"),
+      where.or(where.exists("source.url"), where.not(where.eq("enabled", false))),
+      where.in("empty", []),
+    ),
+  );
+
+  assertEquals(
+    sql,
+    "(metadata.status IS NOT NULL) AND (metadata.severity IN ('high') OR metadata.severity IS NULL)" +
+      " AND (metadata.page <= 10) AND (array_has(metadata.tags, 'fire'))" +
+      " AND ((metadata.source.url IS NOT NULL) OR (NOT (metadata.enabled = false))) AND (false)",
+  );
+});
+
+Deno.test("compileFilterExpression targets meta_ columns in LanceDB Cloud", () => {
+  const options = { isCloud: true };
+
+  assertEquals(compileFilterExpression(where.gte("page", 10), options), "meta_page >= 10");
+  assertEquals(
+    compileFilterExpression(where.contains("tags", "50%"), options),
+    `meta_tags LIKE '%"50\\%"%'`,
+  );
+  assertThrows(
+    () => compileFilterExpression(where.eq("source.page", 1), options),
+    Error,
+    "Nested metadata fields",
+  );
+});
+
+Deno.test("where.sql is the explicit escape hatch for trusted SQL", () => {
+  const filter = where.and(where.eq("lang", "en"), where.sql("lower(content) LIKE '%exit%'"));
+
+  assert(isFilterExpression(where.sql("page > 1")));
+  assertEquals(
+    compileFilterExpression(filter),
+    "(metadata.lang = 'en') AND (lower(content) LIKE '%exit%')",
+  );
+  assertThrows(() => compileFilterExpression(where.sql(" ")), Error, "non-empty SQL clause");
+});
+
+Deno.test("object filters and expressions match the same documents in memory", () => {
+  const record = { id: "1", content: "Fire EXIT", metadata: { lang: "en", page: 3, tags: ["a"] } };
+  const objectFilter = { lang: "en", page: [1, 3] };
+
+  assert(compileFilter(objectFilter)(record));
+  assert(compileFilter(objectToFilterExpression(objectFilter))(record));
+  assert(
+    compileFilter(
+      where.and(where.contains("tags", "a"), where.sql("lower(content) LIKE '%exit%'")),
+    )(record),
+  );
+  assertFalse(compileFilter(where.gt("page", 3))(record));
+  assertFalse(isFilterExpression({ op: "eq" }));
+});
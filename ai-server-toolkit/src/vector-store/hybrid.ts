@@ -0,0 +1,244 @@
+// Keyword (BM25) search and hybrid result fusion shared by the vector stores
+import type { SearchOptions, SearchResult } from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
+
+const DEFAULT_RRF_K = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Each side of a hybrid search fetches this many times the requested limit
+const HYBRID_CANDIDATE_FACTOR = 4;
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/**
+ * In-memory BM25 inverted index over document references
+ */
+export interface InvertedIndex<T> {
+  /** Indexes the text of a document reference */
+  add(ref: T, text: string): void;
+  /** Removes a document reference from the index */
+  remove(ref: T): void;
+  /** Removes all documents */
+  clear(): void;
+  /**
+   * Ranks documents by BM25 relevance to the query (best first)
+   * @param accept Optional predicate restricting which documents may match
+   */
+  search(
+    query: string,
+    limit: number,
+    accept?: (ref: T) => boolean,
+  ): Array<{ ref: T; score: number }>;
+  /** Number of indexed documents */
+  readonly size: number;
+}
+
+/**
+ * Search handlers a vector store provides to runSearchMode
+ */
+export interface SearchModeHandlers {
+  vector(options: SearchOptions): Promise<SearchResult[]>;
+  keyword(options: SearchOptions): Promise<SearchResult[]>;
+}
+
+/**
+ * Splits text into lowercase search terms.
+ *
+ * Besides plain words, identifiers that mix digits with inner punctuation (e.g.
+ * "812-7:2018", "1.2.3") are kept whole as an extra term, and "§" is a term of its own,
+ * so exact references outrank paragraphs that merely share their digits.
+ *
+ * @param text Text to tokenize
+ * @returns Search terms in order of appearance
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const terms: string[] = [];
+  const normalized = text.toLowerCase().normalize("NFKC");
+  for (const match of normalized.matchAll(/§|[\p{L}\p{N}]+(?:[-.:/][\p{L}\p{N}]+)*/gu)) {
+    const term = match[0];
+    const parts = term.split(/[-.:/]/);
+    terms.push(...parts);
+    if (parts.length > 1) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Creates an in-memory BM25 inverted index.
+ *
+ * Used by stores without native full-text search to rank documents for the
+ * "keyword" and "hybrid" search modes. Documents are identified by reference, so
+ * documents sharing an ID are indexed separately.
+ *
+ * @returns Empty inverted index
+ *
+ * @example
+ * ```ts
+ * const index = createInvertedIndex<string>();
+ * index.add("a", "EVS 812-7:2018 fire safety");
+ * index.add("b", "General building requirements");
+ * index.search("EVS 812-7:2018", 5); // [{ ref: "a", score: 2.1 }]
+ * ```
+ */
+export function createInvertedIndex<T>(): InvertedIndex<T> {
+  const postings = new Map<string, Map<T, number>>();
+  const documents = new Map<T, { length: number; terms: Set<string> }>();
+  let totalLength = 0;
+
+  const remove = (ref: T): void => {
+    const document = documents.get(ref);
+    if (!document) return;
+    for (const term of document.terms) {
+      const termPostings = postings.get(term)!;
+      termPostings.delete(ref);
+      if (termPostings.size === 0) {
+        postings.delete(term);
+      }
+    }
+    documents.delete(ref);
+    totalLength -= document.length;
+  };
+
+  return {
+    add(ref, text) {
+      remove(ref);
+      const terms = tokenizeForSearch(text);
+      for (const term of terms) {
+        const termPostings = postings.get(term) || new Map<T, number>();
+        termPostings.set(ref, (termPostings.get(ref) || 0) + 1);
+        postings.set(term, termPostings);
+      }
+      documents.set(ref, { length: terms.length, terms: new Set(terms) });
+      totalLength += terms.length;
+    },
+    remove,
+    clear() {
+      postings.clear();
+      documents.clear();
+      totalLength = 0;
+    },
+    search(query, limit, accept) {
+      if (documents.size === 0) return [];
+      const averageLength = totalLength / documents.size;
+      const scores = new Map<T, number>();
+
+      for (const term of new Set(tokenizeForSearch(query))) {
+        const termPostings = postings.get(term);
+        if (!termPostings) continue;
+        const idf = Math.log(
+          1 + (documents.size - termPostings.size + 0.5) / (termPostings.size + 0.5),
+        );
+        for (const [ref, frequency] of termPostings) {
+          if (accept && !accept(ref)) continue;
+          const norm = 1 - BM25_B + BM25_B * (documents.get(ref)!.length / averageLength);
+          const termScore = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+          scores.set(ref, (scores.get(ref) || 0) + termScore);
+        }
+      }
+
+      return [...scores]
+        .map(([ref, score]) => ({ ref, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+    get size() {
+      return documents.size;
+    },
+  };
+}
+
+const resultKey = (result: SearchResult) => `${result.id}\u0000${result.content}`;
+
+const normalizeScores = (results: SearchResult[]): Map<string, number> => {
+  const scores = results.map((result) => result.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return new Map(
+    results.map((result) => [resultKey(result), range === 0 ? 1 : (result.score - min) / range]),
+  );
+};
+
+/**
+ * Fuses vector and keyword result lists into one ranking.
+ *
+ * With `fusion: "rrf"` (default) each result scores `weight / (rrfK + rank)` per list
+ * it appears in (reciprocal rank fusion); with `fusion: "weighted"` the scores of each
+ * list are min-max normalized and combined as a weighted sum. Results are matched by
+ * ID and content; the returned `score` is the fused score.
+ *
+ * @param vectorResults Results ranked by vector similarity (best first)
+ * @param keywordResults Results ranked by keyword relevance (best first)
+ * @param options Search options (`fusion`, `hybridWeights`, `rrfK`, `limit`)
+ * @returns Fused results, best first, cut to `options.limit`
+ */
+export function fuseSearchResults(
+  vectorResults: SearchResult[],
+  keywordResults: SearchResult[],
+  options: SearchOptions = {},
+): SearchResult[] {
+  const weights = {
+    vector: options.hybridWeights?.vector ?? 1,
+    keyword: options.hybridWeights?.keyword ?? 1,
+  };
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  const fused = new Map<string, { result: SearchResult; score: number }>();
+
+  const addList = (results: SearchResult[], weight: number) => {
+    const normalized = options.fusion === "weighted" ? normalizeScores(results) : undefined;
+    results.forEach((result, rank) => {
+      const key = resultKey(result);
+      const score = normalized ? weight * normalized.get(key)! : weight / (rrfK + rank + 1);
+      const existing = fused.get(key);
+      fused.set(key, {
+        // Prefer the vector result, which carries the embedding when requested
+        result: existing?.result || result,
+        score: (existing?.score || 0) + score,
+      });
+    });
+  };
+
+  addList(vectorResults, weights.vector);
+  addList(keywordResults, weights.keyword);
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit || DEFAULT_SEARCH_LIMIT)
+    .map(({ result, score }) => ({ ...result, score }));
+}
+
+/**
+ * Runs a text search in the mode requested by `options.mode`.
+ *
+ * "vector" (default) and "keyword" call the matching handler; "hybrid" fetches extra
+ * candidates from both and fuses them with fuseSearchResults. The similarity
+ * `threshold` only applies to vector candidates.
+ *
+ * @param options Search options
+ * @param handlers Vector and keyword search implementations of the store
+ * @returns Search results, best first
+ */
+export async function runSearchMode(
+  options: SearchOptions,
+  handlers: SearchModeHandlers,
+): Promise<SearchResult[]> {
+  switch (options.mode || "vector") {
+    case "vector":
+      return await handlers.vector(options);
+    case "keyword":
+      return await handlers.keyword(options);
+    case "hybrid": {
+      const candidateOptions = {
+        ...options,
+        limit: (options.limit || DEFAULT_SEARCH_LIMIT) * HYBRID_CANDIDATE_FACTOR,
+      };
+      const [vectorResults, keywordResults] = await Promise.all([
+        handlers.vector(candidateOptions),
+        handlers.keyword(candidateOptions),
+      ]);
+      return fuseSearchResults(vectorResults, keywordResults, options);
+    }
+    default:
+      throw createValidationError(`Unsupported search mode: ${options.mode}`);
+  }
+}
@@ -0,0 +1,108 @@
+import { assertEquals, assertGreater, assertRejects } from "@std/assert";
+import type { SearchOptions, SearchResult } from "../types.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "./memory.ts";
+import {
+  createInvertedIndex,
+  fuseSearchResults,
+  runSearchMode,
+  tokenizeForSearch,
+} from "./hybrid.ts";
+
+const result = (id: string, score: number): SearchResult => ({ id, content: id, score });
+
+Deno.test("tokenizeForSearch keeps standard references whole next to their parts", () => {
+  assertEquals(tokenizeForSearch("See § 12, EVS 812-7:2018."), [
+    "see",
+    "§",
+    "12",
+    "evs",
+    "812",
+    "7",
+    "2018",
+    "812-7:2018",
+  ]);
+});
+
+Deno.test("createInvertedIndex ranks exact references first and supports removal", () => {
+  const index = createInvertedIndex<string>();
+  index.add("standard", "EVS 812-7:2018 fire safety of buildings");
+  index.add("digits", "Room 812 is on floor 7, renovated in 2018");
+  index.add("other", "General building requirements");
+
+  const ranked = index.search("EVS 812-7:2018", 10);
+  assertEquals(ranked.map((hit) => hit.ref), ["standard", "digits"]);
+  assertEquals(index.search("812", 10, (ref) => ref !== "standard").map((hit) => hit.ref), [
+    "digits",
+  ]);
+
+  index.remove("standard");
+  assertEquals(index.size, 2);
+  assertEquals(index.search("evs", 10), []);
+});
+
+Deno.test("fuseSearchResults combines rankings by reciprocal rank", () => {
+  const fused = fuseSearchResults(
+    [result("a", 0.9), result("b", 0.8)],
+    [result("b", 12), result("c", 7)],
+    { rrfK: 1 },
+  );
+
+  assertEquals(fused.map((r) => r.id), ["b", "a", "c"]);
+  assertEquals(fused[0].score, 1 / 3 + 1 / 2);
+});
+
+Deno.test("fuseSearchResults weights normalized scores in weighted fusion", () => {
+  const fused = fuseSearchResults(
+    [result("a", 0.9), result("b", 0.5)],
+    [result("b", 12), result("a", 2)],
+    { fusion: "weighted", hybridWeights: { vector: 1, keyword: 3 } },
+  );
+
+  assertEquals(fused.map((r) => [r.id, r.score]), [["b", 3], ["a", 1]]);
+});
+
+Deno.test("runSearchMode fetches extra candidates for hybrid searches", async () => {
+  const limits: Array<[string, number | undefined]> = [];
+  const handler = (name: string) => (options: SearchOptions) => {
+    limits.push([name, options.limit]);
+    return Promise.resolve([result(name, 1)]);
+  };
+
+  const results = await runSearchMode(
+    { mode: "hybrid", limit: 5 },
+    { vector: handler("vector"), keyword: handler("keyword") },
+  );
+
+  assertEquals(limits, [["vector", 20], ["keyword", 20]]);
+  assertEquals(results.length, 2);
+  await assertRejects(
+    () =>
+      runSearchMode({ mode: "fuzzy" as SearchOptions["mode"] }, {
+        vector: handler("vector"),
+        keyword: handler("keyword"),
+      }),
+    Error,
+    "Unsupported search mode",
+  );
+});
+
+Deno.test("keyword and hybrid modes find exact identifiers in a store", async () => {
+  const store = await createMemoryVectorStore(
+    { provider: "memory", dimensions: 32 },
+    createHashEmbeddings({ dimensions: 32 }),
+  );
+  await store.createTable("documents");
+  await store.addDocuments([
+    { id: "standard", content: "Requirements of EVS 812-7:2018 apply to escape routes" },
+    { id: "routes", content: "Escape routes must stay free of obstacles" },
+    { id: "parking", content: "Parking spaces per flat" },
+  ]);
+
+  const keyword = await store.search("EVS 812-7:2018", { mode: "keyword" });
+  const hybrid = await store.search("escape routes EVS 812-7:2018", { mode: "hybrid", limit: 2 });
+
+  assertEquals(keyword.map((r) => r.id), ["standard"]);
+  assertGreater(keyword[0].score, 0);
+  assertEquals(hybrid.map((r) => r.id), ["standard", "routes"]);
+});
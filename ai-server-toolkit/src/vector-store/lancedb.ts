@@ -1,10 +1,17 @@
 // Functional LanceDB vector store implementation
-import { connect, type Connection, type Table } from "vectordb";
-import { createOpenAIEmbeddings } from "../embeddings/openai.ts";
+import { connect, type Connection, Index, type Table } from "vectordb";
+import { createEmbeddings, isEmbeddingModel } from "../embeddings/factory.ts";
 
 import type {
+  DistanceMetric,
   EmbeddingConfig,
   EmbeddingModel,
+  ExportTableOptions,
+  ImportTableOptions,
+  ImportTableResult,
+  ListDocumentsOptions,
+  ListDocumentsPage,
+  SearchFilter,
   SearchOptions,
   SearchResult,
   VectorDocument,
@@ -12,19 +19,141 @@ import type {
   VectorStoreConfig,
   VectorStoreStats,
 } from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
 import { createSubLogger } from "../utils/logger.ts";
+import {
+  columnName,
+  compileFilterExpression,
+  isFilterExpression,
+  objectToFilterExpression,
+  where,
+} from "./filter.ts";
+import { distanceToScore } from "./distance.ts";
+import { runSearchMode } from "./hybrid.ts";
+import {
+  createMetadataCodec,
+  inferMetadataSchema,
+  type MetadataCodec,
+  metadataFieldNamesFromArrow,
+  type MetadataSchema,
+  metadataSchemaFromArrow,
+} from "./metadata-codec.ts";
+import { decodeKeysetCursor, DEFAULT_PAGE_SIZE, encodeKeysetCursor } from "./pagination.ts";
+import { applyPostRetrieval } from "./rerank.ts";
+import { exportDocuments, importDocuments, type TableTransferHandlers } from "./transfer.ts";
 
 const logger = createSubLogger("lancedb");
 
 // Export LanceDBState as alias for VectorStore for backward compatibility
 export type LanceDBState = VectorStore;
 
+/**
+ * ANN index types: IVF with product quantization, or HNSW graphs over IVF
+ * partitions with product or scalar quantization
+ */
+export type VectorIndexType = "ivf_pq" | "hnsw_pq" | "hnsw_sq";
+
+/**
+ * Scalar index types: B-tree (many distinct values), bitmap (few distinct values),
+ * label list (array columns)
+ */
+export type ScalarIndexType = "btree" | "bitmap" | "label_list";
+
+/**
+ * Options for LanceDBVectorStore.createVectorIndex
+ */
+export interface VectorIndexOptions {
+  /** Index type (default: "ivf_pq") */
+  type?: VectorIndexType;
+  /** Distance metric the index is built for (default: the store's metric) */
+  metric?: DistanceMetric;
+  /** Number of IVF partitions (default: LanceDB picks one from the row count) */
+  numPartitions?: number;
+  /** Number of PQ sub-vectors; must divide the dimensions (default: LanceDB picks one) */
+  numSubVectors?: number;
+  /** HNSW neighbours per node (default: 20) */
+  m?: number;
+  /** HNSW candidate list size while building (default: 300) */
+  efConstruction?: number;
+  /** Replace an existing index on the column (default: true) */
+  replace?: boolean;
+}
+
+/**
+ * Index of a LanceDB table
+ */
+export interface TableIndexInfo {
+  name: string;
+  indexType: string;
+  columns: string[];
+}
+
+/**
+ * Result of LanceDBVectorStore.optimizeTable
+ */
+export interface OptimizeTableStats {
+  fragmentsRemoved: number;
+  fragmentsAdded: number;
+  oldVersionsRemoved: number;
+  bytesRemoved: number;
+}
+
+/**
+ * LanceDB vector store with index management
+ */
+export interface LanceDBVectorStore extends VectorStore {
+  /**
+   * Replaces a table with an empty one that has the columns of the schema definition
+   * document, written as a new version of the table. Use it instead of deleteTable and
+   * createTable: LanceDB caches table data by path and version for the whole process,
+   * and a table recreated under a dropped name would be served the old table's indices.
+   */
+  replaceTable(tableName: string, schemaDefinitionDocument?: VectorDocument): Promise<void>;
+  /** Builds an ANN index on the vector column */
+  createVectorIndex(options?: VectorIndexOptions, tableName?: string): Promise<void>;
+  /**
+   * Builds the full-text (BM25) index on `content` used by keyword and hybrid search.
+   * Writes start it in the background; call this for tables written by older versions.
+   */
+  createFullTextIndex(tableName?: string): Promise<void>;
+  /**
+   * Builds a scalar index on `id`, `content` or (LanceDB Cloud only) a metadata field,
+   * speeding up filters and ID lookups
+   */
+  createScalarIndex(
+    field: string,
+    type?: ScalarIndexType,
+    tableName?: string,
+  ): Promise<void>;
+  /** Lists the indices of a table */
+  listIndices(tableName?: string): Promise<TableIndexInfo[]>;
+  /**
+   * Compacts small data files, adds new rows to the indices and removes table
+   * versions older than `cleanupOlderThan` (default: 7 days)
+   */
+  optimizeTable(
+    options?: { cleanupOlderThan?: Date },
+    tableName?: string,
+  ): Promise<OptimizeTableStats>;
+  /**
+   * Declares the metadata field types of a table. Metadata is converted to them when
+   * written and read, on the local and the Cloud layout (see createMetadataCodec).
+   */
+  setMetadataSchema(tableName: string, schema: MetadataSchema): void;
+  /** Lists the metadata fields the table has columns for */
+  listMetadataFields(tableName?: string): Promise<string[]>;
+}
+
 // Constants
 const DEFAULT_TABLE_NAME = "documents";
 const DEFAULT_DIMENSIONS = 1536;
 const DEFAULT_REGION = "us-east-1";
 const DEFAULT_SEARCH_LIMIT = 10;
 const INIT_DOC_ID = "init";
+const DEFAULT_METRIC: DistanceMetric = "l2";
+const DEFAULT_AUTO_INDEX_THRESHOLD = 100_000;
+// IDs per `id IN (...)` lookup query
+const LOOKUP_BATCH_SIZE = 500;
 
 interface LanceDBInternalState {
   connection: Connection;
@@ -32,6 +161,35 @@ interface LanceDBInternalState {
   embeddings: EmbeddingModel;
   dimensions: number;
   isCloud: boolean;
+  // Full-text index on "content" per table, resolved once it exists (or is being built)
+  fullTextIndexes: Map<string, Promise<void>>;
+  // Tables known to have a scalar index on "id"
+  idIndexedTables: Set<string>;
+  // Tables with a vector index (or one being built)
+  vectorIndexedTables: Set<string>;
+  // Automatic vector index builds in flight per table
+  vectorIndexBuilds: Map<string, Promise<void>>;
+  metric: DistanceMetric;
+  // Row count at which a vector index is created automatically (0 = never)
+  autoIndexThreshold: number;
+  // Metadata schemas declared with setMetadataSchema
+  metadataSchemas: Map<string, MetadataSchema>;
+  // Metadata codecs of opened tables
+  metadataCodecs: Map<string, MetadataCodec>;
+}
+
+// Helper: Check if an index is the full-text index on "content"
+function isFullTextIndex(index: { indexType: string; columns: string[] }): boolean {
+  return index.indexType.toUpperCase() === "FTS" && index.columns.includes("content");
+}
+
+// Helper: Row address a listDocuments cursor continues after
+function decodeRowIdCursor(cursor?: string): string | undefined {
+  const after = decodeKeysetCursor(cursor);
+  if (after !== undefined && !/^\d+$/.test(after)) {
+    throw createValidationError("Invalid listDocuments cursor", { cursor });
+  }
+  return after;
 }
 
 // Helper: Check if path is cloud
@@ -70,6 +228,7 @@ interface LanceDBSearchResult {
   vector: number[];
   metadata?: Record<string, unknown>;
   _distance: number;
+  _score?: number; // BM25 relevance of full-text search results
   [key: string]: unknown; // For cloud meta_* fields
 }
 
@@ -79,17 +238,50 @@ interface LanceDBSearchResult {
  * Supports both local LanceDB instances and LanceDB Cloud. For cloud instances,
  * use a path starting with "db://" and provide an API key.
  *
+ * The "keyword" and "hybrid" search modes use a LanceDB full-text (BM25) index on
+ * the `content` column. The first write to a table builds it in the background and
+ * keyword searches wait for that build; the first keyword search on a table written
+ * before builds it on demand.
+ *
+ * Vector search ranks by `config.metric` (default: "l2", scored `1 / (1 + distance)`
+ * so scores stay in (0, 1]). Once a table holds `config.autoIndexThreshold` rows
+ * (default: 100,000), a write starts building an IVF-PQ index in the background;
+ * createVectorIndex, createScalarIndex and optimizeTable manage indices explicitly. Run optimizeTable periodically after
+ * large writes so new rows are compacted and added to the indices.
+ *
+ * Metadata is one `metadata` struct column locally and `meta_*` columns in LanceDB
+ * Cloud. Field types come from the table's columns and from setMetadataSchema, so
+ * numbers, booleans, string lists and dates keep their types on both layouts.
+ *
+ * Embeddings come either from a ready `EmbeddingModel` (shared with the rest of the
+ * application, wrapped with a cache or middleware, any provider) or from an
+ * `EmbeddingConfig`, in which case a model for `provider` ("openai" or the offline
+ * "local" provider) is created that produces vectors with `config.dimensions` unless
+ * the embedding configuration sets its own dimensions.
+ *
  * @param config Vector store configuration
- * @param embeddingConfig OpenAI embedding configuration
- * @returns Promise resolving to initialized VectorStore
+ * @param embedding Embedding configuration or a pre-created EmbeddingModel
+ * @returns Promise resolving to initialized LanceDBVectorStore
+ *
+ * @example
+ * ```ts
+ * const embeddings = createOpenAIEmbeddings({ provider: "openai", apiKey: "sk-..." });
+ * const vectorStore = await createLanceDB({ provider: "lancedb", path: "./db" }, embeddings);
+ * // OR
+ * // await createLanceDB({ provider: "lancedb", path: "./db" }, { provider: "local" });
+ * ```
  */
 export async function createLanceDB(
   config: VectorStoreConfig,
-  embeddingConfig: EmbeddingConfig,
-): Promise<VectorStore> {
+  embedding: EmbeddingConfig | EmbeddingModel,
+): Promise<LanceDBVectorStore> {
   const connection = await createConnection(config);
-  // Assuming createOpenAIEmbeddings returns EmbeddingModel now
-  const embeddings = createOpenAIEmbeddings(embeddingConfig);
+
+  // Use an injected EmbeddingModel as-is, otherwise create one from the config
+  const embeddings = isEmbeddingModel(embedding) ? embedding : createEmbeddings({
+    ...embedding,
+    dimensions: embedding.dimensions ?? config.dimensions,
+  });
 
   const state: LanceDBInternalState = {
     connection,
@@ -97,6 +289,14 @@ export async function createLanceDB(
     embeddings,
     dimensions: config.dimensions || DEFAULT_DIMENSIONS,
     isCloud: isCloudPath(config.path!),
+    fullTextIndexes: new Map(),
+    idIndexedTables: new Set(),
+    vectorIndexedTables: new Set(),
+    vectorIndexBuilds: new Map(),
+    metric: config.metric || DEFAULT_METRIC,
+    autoIndexThreshold: config.autoIndexThreshold ?? DEFAULT_AUTO_INDEX_THRESHOLD,
+    metadataSchemas: new Map(),
+    metadataCodecs: new Map(),
   };
 
   // Internal Helpers
@@ -105,40 +305,26 @@ export async function createLanceDB(
     return await state.connection.openTable(tableName || state.tableName);
   }
 
-  function transformMetadata(
-    metadata: Record<string, unknown>,
-  ): Record<string, unknown> {
-    if (!state.isCloud) {
-      return { metadata };
-    }
-    // Cloud: flatten metadata as individual columns with meta_ prefix
-    const metaFields: Record<string, string> = {};
-    Object.entries(metadata).forEach(([key, value]) => {
-      metaFields[`meta_${key}`] = typeof value === "string" ? value : JSON.stringify(value);
+  // Codec for a table: the declared schema over the column types stored in the table
+  async function getCodec(tableName?: string): Promise<MetadataCodec> {
+    const targetTable = tableName || state.tableName;
+    const cached = state.metadataCodecs.get(targetTable);
+    if (cached) return cached;
+
+    const { fields } = await (await getTable(targetTable)).schema();
+    const codec = createMetadataCodec({
+      isCloud: state.isCloud,
+      schema: {
+        ...metadataSchemaFromArrow(fields, state.isCloud),
+        ...state.metadataSchemas.get(targetTable),
+      },
     });
-    return metaFields;
-  }
-
-  function extractCloudMetadata(
-    result: LanceDBSearchResult,
-  ): Record<string, unknown> {
-    const metadata: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(result)) {
-      if (key.startsWith("meta_") && value !== null) {
-        const metaKey = key.replace("meta_", "");
-        try {
-          metadata[metaKey] = typeof value === "string" && value.startsWith("{")
-            ? JSON.parse(value)
-            : value;
-        } catch {
-          metadata[metaKey] = value;
-        }
-      }
-    }
-    return metadata;
+    state.metadataCodecs.set(targetTable, codec);
+    return codec;
   }
 
   function createRecord(
+    codec: MetadataCodec,
     id: string,
     content: string,
     vector: number[],
@@ -148,32 +334,157 @@ export async function createLanceDB(
       id,
       content,
       vector,
-      ...transformMetadata(metadata),
+      ...codec.encode(metadata),
+    };
+  }
+
+  function toSearchResult(
+    codec: MetadataCodec,
+    result: LanceDBSearchResult,
+    score: number,
+    options: SearchOptions,
+  ): SearchResult {
+    return {
+      id: result.id,
+      content: result.content,
+      metadata: codec.decode(result),
+      score,
+      ...(options.includeEmbeddings && result.vector
+        ? { embedding: Array.from(result.vector) }
+        : {}),
     };
   }
 
   function processSearchResults(
+    codec: MetadataCodec,
     results: unknown[],
     options: SearchOptions,
   ): SearchResult[] {
     return (results as LanceDBSearchResult[])
-      .filter((result) => !options.threshold || (1 - result._distance) >= options.threshold)
-      .map((result) => {
-        let metadata: Record<string, unknown> = {};
-
-        if (state.isCloud) {
-          metadata = extractCloudMetadata(result);
-        } else {
-          metadata = result.metadata || {};
-        }
+      .map((result) =>
+        toSearchResult(codec, result, distanceToScore(state.metric, result._distance), options)
+      )
+      .filter((result) => !options.threshold || result.score >= options.threshold);
+  }
+
+  // Builds the full-text index once per table; concurrent callers share the build
+  function buildFullTextIndex(table: Table, tableName: string): Promise<void> {
+    const existing = state.fullTextIndexes.get(tableName);
+    if (existing) return existing;
+
+    const build = (async () => {
+      const indices = await table.listIndices();
+      if (indices.some(isFullTextIndex)) return;
+      logger.info("Creating full-text index", { tableName });
+      await table.createIndex("content", { config: Index.fts() });
+      logger.info("Full-text index created", { tableName });
+    })();
+    state.fullTextIndexes.set(tableName, build);
+    // A failed build is retried by the next write or createFullTextIndex, unless the
+    // table was replaced and a newer build registered meanwhile
+    build.catch(() => {
+      if (state.fullTextIndexes.get(tableName) === build) state.fullTextIndexes.delete(tableName);
+    });
+    return build;
+  }
+
+  // Starts building the full-text index after a write, off the write and search paths
+  function indexContentInBackground(table: Table, tableName: string): void {
+    if (state.fullTextIndexes.has(tableName)) return;
+    buildFullTextIndex(table, tableName).catch((error) =>
+      logger.error("Full-text index creation failed", error, { tableName })
+    );
+  }
+
+  // Waits for the full-text index keyword search needs: a build started by a write, or
+  // one started here for tables written before indices were built on writes
+  async function awaitFullTextIndex(tableName: string): Promise<void> {
+    const build = state.fullTextIndexes.get(tableName);
+    if (build) return await build;
 
-        return {
-          id: result.id,
-          content: result.content,
-          metadata,
-          score: 1 - result._distance,
-        };
+    const table = await getTable(tableName);
+    // An index cannot be trained on an empty table; the first write builds it
+    if (await table.countRows() === 0) return;
+    await buildFullTextIndex(table, tableName);
+  }
+
+  async function ensureIdIndex(table: Table, tableName: string): Promise<void> {
+    if (state.idIndexedTables.has(tableName)) return;
+
+    try {
+      const indices = await table.listIndices();
+      const hasIndex = indices.some((index) => index.columns.includes("id"));
+      if (!hasIndex) {
+        // An index cannot be trained on an empty table; retry on the next lookup
+        if (await table.countRows() === 0) return;
+        logger.info("Creating scalar index on id", { tableName });
+        await table.createIndex("id", { config: Index.btree() });
+      }
+    } catch (error) {
+      // Lookups stay correct without the index, only slower
+      logger.warn("Could not create scalar index on id", {
+        tableName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    state.idIndexedTables.add(tableName);
+  }
+
+  function toVectorIndex(options: VectorIndexOptions): Index {
+    const distanceType = options.metric || state.metric;
+    const { numPartitions, numSubVectors, m, efConstruction } = options;
+    switch (options.type || "ivf_pq") {
+      case "ivf_pq":
+        return Index.ivfPq({ distanceType, numPartitions, numSubVectors });
+      case "hnsw_pq":
+        return Index.hnswPq({ distanceType, numPartitions, numSubVectors, m, efConstruction });
+      case "hnsw_sq":
+        return Index.hnswSq({ distanceType, numPartitions, m, efConstruction });
+      default:
+        throw createValidationError(`Unsupported vector index type: ${options.type}`);
+    }
+  }
+
+  function toScalarIndex(type: ScalarIndexType): Index {
+    switch (type) {
+      case "btree":
+        return Index.btree();
+      case "bitmap":
+        return Index.bitmap();
+      case "label_list":
+        return Index.labelList();
+      default:
+        throw createValidationError(`Unsupported scalar index type: ${type}`);
+    }
+  }
+
+  // Starts building a vector index in the background once a table crosses the threshold
+  async function autoIndexTable(table: Table, tableName: string): Promise<void> {
+    if (!state.autoIndexThreshold || state.vectorIndexedTables.has(tableName)) return;
+    if (await table.countRows() < state.autoIndexThreshold) return;
+
+    state.vectorIndexedTables.add(tableName);
+    const indices = await table.listIndices();
+    if (indices.some((index) => index.columns.includes("vector"))) return;
+
+    logger.info("Row count crossed the auto-index threshold, building vector index", {
+      tableName,
+      threshold: state.autoIndexThreshold,
+    });
+    const build: Promise<void> = table.createIndex("vector", { config: toVectorIndex({}) })
+      .then(() => {
+        logger.info("Vector index created", { tableName });
+      })
+      .catch((error) => {
+        state.vectorIndexedTables.delete(tableName);
+        logger.error("Automatic vector index creation failed", error, { tableName });
+      })
+      .finally(() => {
+        if (state.vectorIndexBuilds.get(tableName) === build) {
+          state.vectorIndexBuilds.delete(tableName);
+        }
       });
+    state.vectorIndexBuilds.set(tableName, build);
   }
 
   async function getEmbeddingsForDocuments(
@@ -201,30 +512,126 @@ export async function createLanceDB(
     return embeddingMap;
   }
 
+  function toSqlFilter(filter: SearchFilter | undefined): string | undefined {
+    if (!filter) return undefined;
+
+    // Deprecated raw SQL strings are passed through as-is, like where.sql clauses
+    if (typeof filter === "string") return filter;
+
+    if (!isFilterExpression(filter) && Object.keys(filter).length === 0) return undefined;
+
+    const expression = isFilterExpression(filter) ? filter : objectToFilterExpression(filter);
+    return compileFilterExpression(expression, { isCloud: state.isCloud });
+  }
+
   function applySearchFilters<T>(
     searchQuery: T,
-    filter: Record<string, unknown> | string | undefined,
+    filter: SearchFilter | undefined,
   ): T {
-    if (!filter) return searchQuery;
+    const condition = toSqlFilter(filter);
+    if (!condition) return searchQuery;
+    return (searchQuery as { where: (condition: string) => unknown }).where(condition) as T;
+  }
 
-    let query = searchQuery as { where: (condition: string) => unknown };
+  function toRecords(
+    codec: MetadataCodec,
+    documents: VectorDocument[],
+    embeddingMap: Map<number, number[]>,
+  ) {
+    return documents.map((doc, index) =>
+      createRecord(
+        codec,
+        doc.id,
+        doc.content,
+        doc.embedding || embeddingMap.get(index)!,
+        doc.metadata || {},
+      )
+    );
+  }
 
-    if (typeof filter === "string") {
-      query = query.where(filter) as typeof query;
-      return query as T;
-    }
+  function idCondition(id: string): string {
+    return compileFilterExpression(where.eq("id", id));
+  }
+
+  function toVectorDocument(
+    codec: MetadataCodec,
+    row: LanceDBSearchResult,
+    includeEmbedding: boolean,
+  ): VectorDocument {
+    return {
+      id: row.id,
+      content: row.content,
+      metadata: codec.decode(row),
+      ...(includeEmbedding && row.vector ? { embedding: Array.from(row.vector) } : {}),
+    };
+  }
 
-    Object.entries(filter).forEach(([key, value]) => {
-      const filterPath = state.isCloud ? `meta_${key}` : `metadata.${key}`;
-      if (Array.isArray(value)) {
-        const values = value.map((v) => `'${v}'`).join(", ");
-        query = query.where(`${filterPath} IN (${values})`) as typeof query;
-      } else {
-        query = query.where(`${filterPath} = '${value}'`) as typeof query;
+  // Scalar lookup by ID (no vector search); the first row per ID wins
+  async function lookupDocuments(
+    table: Table,
+    tableName: string,
+    ids: string[],
+  ): Promise<VectorDocument[]> {
+    const codec = await getCodec(tableName);
+    const uniqueIds = [...new Set(ids)];
+    const rows = new Map<string, LanceDBSearchResult>();
+
+    for (let i = 0; i < uniqueIds.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = uniqueIds.slice(i, i + LOOKUP_BATCH_SIZE);
+      const condition = compileFilterExpression(where.in("id", batch));
+      const results = await table.query().where(condition).toArray() as LanceDBSearchResult[];
+      for (const row of results) {
+        if (!rows.has(row.id)) rows.set(row.id, row);
       }
+    }
+
+    return uniqueIds
+      .filter((id) => rows.has(id))
+      .map((id) => toVectorDocument(codec, rows.get(id)!, true));
+  }
+
+  // Waits for the table's background index builds, which would conflict with an overwrite
+  // or drop, then drops what this store knows about its indices and columns
+  async function forgetTable(tableName: string): Promise<void> {
+    await Promise.allSettled([
+      state.fullTextIndexes.get(tableName),
+      state.vectorIndexBuilds.get(tableName),
+    ]);
+    state.fullTextIndexes.delete(tableName);
+    state.vectorIndexBuilds.delete(tableName);
+    state.idIndexedTables.delete(tableName);
+    state.vectorIndexedTables.delete(tableName);
+    state.metadataCodecs.delete(tableName);
+  }
+
+  // Writes a table holding only the schema definition document (or a placeholder row)
+  async function writeInitialTable(
+    tableName: string,
+    schemaDefinitionDocument: VectorDocument | undefined,
+    mode: "create" | "overwrite",
+  ): Promise<void> {
+    // Use provided schema definition document, or create default one
+    // This document defines the table structure (columns, types) for LanceDB
+    const metadata = schemaDefinitionDocument?.metadata || {};
+    const codec = createMetadataCodec({
+      isCloud: state.isCloud,
+      schema: state.metadataSchemas.get(tableName) || inferMetadataSchema(metadata),
     });
+    const initialRecord = {
+      id: schemaDefinitionDocument?.id || INIT_DOC_ID,
+      content: schemaDefinitionDocument?.content || "initialization document",
+      vector: schemaDefinitionDocument?.embedding || new Array(state.dimensions).fill(0),
+      ...codec.encodeSample(metadata),
+    };
 
-    return query as T;
+    await state.connection.createTable(tableName, [initialRecord], { mode });
+    state.metadataCodecs.delete(tableName);
+
+    // Only delete if we used the default init doc (schema definition docs should be deleted by caller)
+    if (!schemaDefinitionDocument) {
+      const table = await state.connection.openTable(tableName);
+      await table.delete(idCondition(INIT_DOC_ID));
+    }
   }
 
   // Implementation Methods
@@ -259,38 +666,24 @@ export async function createLanceDB(
       }
 
       logger.debug("Table not found, creating new table", { tableName: targetTable });
-
-      // Use provided schema definition document, or create default one
-      // This document defines the table structure (columns, types) for LanceDB
-      const initialRecord = schemaDefinitionDocument
-        ? createRecord(
-          schemaDefinitionDocument.id,
-          schemaDefinitionDocument.content,
-          schemaDefinitionDocument.embedding || new Array(state.dimensions).fill(0),
-          schemaDefinitionDocument.metadata || {},
-        )
-        : {
-          id: INIT_DOC_ID,
-          content: "initialization document",
-          vector: new Array(state.dimensions).fill(0),
-          ...transformMetadata({}),
-        };
-
-      await state.connection.createTable(targetTable, [initialRecord]);
-
-      // Only delete if we used the default init doc (schema definition docs should be deleted by caller)
-      if (!schemaDefinitionDocument) {
-        const table = await state.connection.openTable(targetTable);
-        await table.delete(`id = '${INIT_DOC_ID}'`);
-      }
-
+      await writeInitialTable(targetTable, schemaDefinitionDocument, "create");
       logger.info("Table created successfully", { tableName: targetTable });
     }
   };
 
+  const replaceTable = async (
+    tableName: string,
+    schemaDefinitionDocument?: VectorDocument,
+  ): Promise<void> => {
+    await forgetTable(tableName);
+    await writeInitialTable(tableName, schemaDefinitionDocument, "overwrite");
+    logger.info("Replaced table", { tableName });
+  };
+
   const deleteTable = async (tableName: string): Promise<void> => {
     logger.debug("Attempting to drop table", { tableName, isCloud: state.isCloud });
     try {
+      await forgetTable(tableName);
       await state.connection.dropTable(tableName);
       logger.info("Successfully dropped table", { tableName });
     } catch (error) {
@@ -307,12 +700,14 @@ export async function createLanceDB(
     const embedding = document.embedding ||
       await state.embeddings.embedText(document.content);
     const record = createRecord(
+      await getCodec(tableName),
       document.id,
       document.content,
       embedding,
       document.metadata || {},
     );
     await table.add([record]);
+    indexContentInBackground(table, tableName || state.tableName);
   };
 
   const addDocuments = async (
@@ -320,23 +715,16 @@ export async function createLanceDB(
     tableName?: string,
   ): Promise<void> => {
     if (documents.length === 0) return;
-    const table = await getTable(tableName);
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
     const embeddingMap = await getEmbeddingsForDocuments(documents);
 
-    const records = documents.map((doc, index) => {
-      const embedding = doc.embedding || embeddingMap.get(index)!;
-      return createRecord(
-        doc.id,
-        doc.content,
-        embedding,
-        doc.metadata || {},
-      );
-    });
-
-    await table.add(records);
+    await table.add(toRecords(await getCodec(targetTable), documents, embeddingMap));
+    await autoIndexTable(table, targetTable);
+    indexContentInBackground(table, targetTable);
   };
 
-  const searchByEmbedding = async (
+  const vectorSearch = async (
     embedding: number[],
     options: SearchOptions = {},
     tableName?: string,
@@ -344,7 +732,8 @@ export async function createLanceDB(
     const table = await getTable(tableName);
 
     let searchQuery = table
-      .search(embedding)
+      .vectorSearch(embedding)
+      .distanceType(state.metric)
       .limit(options.limit || DEFAULT_SEARCH_LIMIT);
 
     searchQuery = applySearchFilters(searchQuery, options.filter);
@@ -353,7 +742,42 @@ export async function createLanceDB(
     // Convert to unknown first, then to the expected type
     const resultsIterator = await (searchQuery as unknown as { toArray: () => Promise<unknown[]> })
       .toArray();
-    return processSearchResults(resultsIterator, options);
+    return processSearchResults(await getCodec(tableName), resultsIterator, options);
+  };
+
+  const searchByEmbedding = async (
+    embedding: number[],
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    return await applyPostRetrieval(
+      options,
+      { getQueryEmbedding: async () => embedding },
+      (stageOptions) => vectorSearch(embedding, stageOptions, tableName),
+    );
+  };
+
+  const keywordSearch = async (
+    query: string,
+    options: SearchOptions,
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    const targetTable = tableName || state.tableName;
+    // Awaited before opening the table, so the table sees an index a build just added
+    await awaitFullTextIndex(targetTable);
+    const table = await getTable(targetTable);
+    if (await table.countRows() === 0) return [];
+
+    let searchQuery = table
+      .query()
+      .fullTextSearch(query)
+      .limit(options.limit || DEFAULT_SEARCH_LIMIT);
+
+    searchQuery = applySearchFilters(searchQuery, options.filter);
+
+    const results = await searchQuery.toArray() as LanceDBSearchResult[];
+    const codec = await getCodec(targetTable);
+    return results.map((result) => toSearchResult(codec, result, result._score ?? 0, options));
   };
 
   const search = async (
@@ -361,35 +785,41 @@ export async function createLanceDB(
     options: SearchOptions = {},
     tableName?: string,
   ): Promise<SearchResult[]> => {
-    logger.debug("Searching table", { tableName: tableName || "default" });
-    const queryEmbedding = await state.embeddings.embedText(query);
-    return await searchByEmbedding(queryEmbedding, options, tableName);
+    logger.debug("Searching table", { tableName: tableName || "default", mode: options.mode });
+    let queryEmbedding: Promise<number[]> | undefined = options.queryEmbedding
+      ? Promise.resolve(options.queryEmbedding)
+      : undefined;
+    const getQueryEmbedding = () => queryEmbedding ||= state.embeddings.embedText(query);
+
+    return await applyPostRetrieval(
+      options,
+      { query, getQueryEmbedding },
+      (stageOptions) =>
+        runSearchMode(stageOptions, {
+          vector: async (modeOptions) =>
+            await vectorSearch(await getQueryEmbedding(), modeOptions, tableName),
+          keyword: (modeOptions) => keywordSearch(query, modeOptions, tableName),
+        }),
+    );
   };
 
   const getDocument = async (
     id: string,
     tableName?: string,
   ): Promise<VectorDocument | null> => {
-    const table = await getTable(tableName);
-    const query = table.search(new Array(state.dimensions).fill(0))
-      .where(`id = '${id}'`)
-      .limit(1);
-    // Type assertion needed - LanceDB Query type doesn't expose toArray() in types but it exists at runtime
-    const results = await (query as unknown as { toArray: () => Promise<unknown[]> }).toArray();
-
-    if (!results || results.length === 0) {
-      return null;
-    }
-
-    const result = results[0] as LanceDBSearchResult;
-    const metadata = state.isCloud ? extractCloudMetadata(result) : (result.metadata || {});
+    const [document] = await getDocuments([id], tableName);
+    return document || null;
+  };
 
-    return {
-      id: result.id,
-      content: result.content,
-      metadata,
-      embedding: result.vector,
-    };
+  const getDocuments = async (
+    ids: string[],
+    tableName?: string,
+  ): Promise<VectorDocument[]> => {
+    if (ids.length === 0) return [];
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
+    await ensureIdIndex(table, targetTable);
+    return await lookupDocuments(table, targetTable, ids);
   };
 
   const deleteDocument = async (
@@ -397,15 +827,92 @@ export async function createLanceDB(
     tableName?: string,
   ): Promise<void> => {
     const table = await getTable(tableName);
-    await table.delete(`id = '${id}'`);
+    await table.delete(idCondition(id));
   };
 
   const updateDocument = async (
     document: VectorDocument,
     tableName?: string,
   ): Promise<void> => {
-    await deleteDocument(document.id, tableName);
-    await addDocument(document, tableName);
+    await upsertDocuments([document], tableName);
+  };
+
+  const upsertDocuments = async (
+    documents: VectorDocument[],
+    tableName?: string,
+  ): Promise<void> => {
+    if (documents.length === 0) return;
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
+
+    // merge_insert rejects duplicate source keys; the last document with an ID wins
+    const uniqueDocuments = [...new Map(documents.map((doc) => [doc.id, doc])).values()];
+    const embeddingMap = await getEmbeddingsForDocuments(uniqueDocuments);
+
+    await table
+      .mergeInsert("id")
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute(toRecords(await getCodec(targetTable), uniqueDocuments, embeddingMap));
+    logger.debug("Upserted documents", { tableName, count: uniqueDocuments.length });
+    await autoIndexTable(table, targetTable);
+    indexContentInBackground(table, targetTable);
+  };
+
+  const deleteWhere = async (
+    filter: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    const condition = toSqlFilter(filter);
+    if (!condition) {
+      throw createValidationError("deleteWhere requires a non-empty filter (use clear() instead)");
+    }
+
+    const table = await getTable(tableName);
+    const count = await table.countRows(condition);
+    if (count > 0) {
+      await table.delete(condition);
+    }
+    logger.debug("Deleted documents by filter", { tableName, count });
+    return count;
+  };
+
+  const countWhere = async (
+    filter?: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    const table = await getTable(tableName);
+    return await table.countRows(toSqlFilter(filter));
+  };
+
+  const listDocuments = async (
+    options: ListDocumentsOptions = {},
+    tableName?: string,
+  ): Promise<ListDocumentsPage> => {
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const after = decodeRowIdCursor(options.cursor);
+    const condition = [
+      after === undefined ? undefined : `_rowid > ${after}`,
+      toSqlFilter(options.filter),
+    ].filter(Boolean).map((clause) => `(${clause})`).join(" AND ") || undefined;
+
+    // LanceDB queries cannot ORDER BY, but scans return rows in storage order, so pages
+    // are keyed by row address and read at most `limit + 1` rows
+    const query = table.query().withRowId().limit(limit + 1);
+    const rows = await (condition ? query.where(condition) : query).toArray() as Array<
+      LanceDBSearchResult & { _rowid: bigint }
+    >;
+    const page = rows.slice(0, limit);
+
+    const codec = await getCodec(targetTable);
+    return {
+      documents: page.map((row) =>
+        toVectorDocument(codec, row, Boolean(options.includeEmbeddings))
+      ),
+      nextCursor: rows.length > limit ? encodeKeysetCursor(String(page.at(-1)!._rowid)) : undefined,
+    };
   };
 
   const getStats = async (tableName?: string): Promise<VectorStoreStats> => {
@@ -427,19 +934,142 @@ export async function createLanceDB(
     await table.delete("true");
   };
 
+  const transferHandlers = (tableName?: string): TableTransferHandlers => {
+    const targetTable = tableName || state.tableName;
+    return {
+      dimensions: state.dimensions,
+      listDocuments: (options) => listDocuments(options, targetTable),
+      tableExists: async () => (await listTables()).includes(targetTable),
+      createTable: (schemaDocument) => createTable(targetTable, schemaDocument),
+      addDocuments: (documents) => addDocuments(documents, targetTable),
+      upsertDocuments: (documents) => upsertDocuments(documents, targetTable),
+    };
+  };
+
+  const exportTable = async (
+    options: ExportTableOptions = {},
+    tableName?: string,
+  ): Promise<ReadableStream<Uint8Array>> => {
+    return await exportDocuments(options, transferHandlers(tableName));
+  };
+
+  const importTable = async (
+    source: ReadableStream<Uint8Array> | Uint8Array,
+    options: ImportTableOptions = {},
+    tableName?: string,
+  ): Promise<ImportTableResult> => {
+    return await importDocuments(source, options, transferHandlers(tableName));
+  };
+
+  const createFullTextIndex = async (tableName?: string): Promise<void> => {
+    const targetTable = tableName || state.tableName;
+    await buildFullTextIndex(await getTable(targetTable), targetTable);
+  };
+
+  const createVectorIndex = async (
+    options: VectorIndexOptions = {},
+    tableName?: string,
+  ): Promise<void> => {
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
+    const config = toVectorIndex(options);
+
+    logger.info("Creating vector index", {
+      tableName: targetTable,
+      type: options.type || "ivf_pq",
+    });
+    await table.createIndex("vector", { config, replace: options.replace ?? true });
+    state.vectorIndexedTables.add(targetTable);
+  };
+
+  const createScalarIndex = async (
+    field: string,
+    type: ScalarIndexType = "btree",
+    tableName?: string,
+  ): Promise<void> => {
+    const targetTable = tableName || state.tableName;
+    const table = await getTable(targetTable);
+    const column = columnName(field, { isCloud: state.isCloud });
+    // LanceDB cannot index fields nested in the local `metadata` struct
+    if (column.includes(".")) {
+      throw createValidationError(
+        "Scalar indices on metadata fields need the LanceDB Cloud layout (meta_* columns)",
+        { field, tableName: targetTable },
+      );
+    }
+
+    logger.info("Creating scalar index", { tableName: targetTable, column, type });
+    await table.createIndex(column, { config: toScalarIndex(type), replace: true });
+    if (column === "id") state.idIndexedTables.add(targetTable);
+  };
+
+  const listIndices = async (tableName?: string): Promise<TableIndexInfo[]> => {
+    const table = await getTable(tableName);
+    return (await table.listIndices()).map(({ name, indexType, columns }) => ({
+      name,
+      indexType,
+      columns,
+    }));
+  };
+
+  const optimizeTable = async (
+    options: { cleanupOlderThan?: Date } = {},
+    tableName?: string,
+  ): Promise<OptimizeTableStats> => {
+    const table = await getTable(tableName);
+    const stats = await table.optimize(
+      options.cleanupOlderThan ? { cleanupOlderThan: options.cleanupOlderThan } : undefined,
+    );
+    const result = {
+      fragmentsRemoved: stats.compaction.fragmentsRemoved,
+      fragmentsAdded: stats.compaction.fragmentsAdded,
+      oldVersionsRemoved: stats.prune.oldVersionsRemoved,
+      bytesRemoved: stats.prune.bytesRemoved,
+    };
+    logger.info("Optimized table", { tableName: tableName || state.tableName, ...result });
+    return result;
+  };
+
+  const setMetadataSchema = (tableName: string, schema: MetadataSchema): void => {
+    const current = state.metadataSchemas.get(tableName);
+    if (current && JSON.stringify(current) === JSON.stringify(schema)) return;
+    state.metadataSchemas.set(tableName, schema);
+    state.metadataCodecs.delete(tableName);
+  };
+
+  const listMetadataFields = async (tableName?: string): Promise<string[]> => {
+    const { fields } = await (await getTable(tableName)).schema();
+    return metadataFieldNamesFromArrow(fields, state.isCloud);
+  };
+
   return {
     addDocument,
     addDocuments,
     search,
     searchByEmbedding,
     getDocument,
+    getDocuments,
     deleteDocument,
     updateDocument,
     createTable,
+    replaceTable,
     deleteTable,
     getStats,
     listTables,
     clear,
+    upsertDocuments,
+    deleteWhere,
+    countWhere,
+    listDocuments,
+    exportTable,
+    importTable,
+    createVectorIndex,
+    createFullTextIndex,
+    createScalarIndex,
+    listIndices,
+    optimizeTable,
+    setMetadataSchema,
+    listMetadataFields,
   };
 }
 
@@ -467,6 +1097,67 @@ export async function initializeTable(
   }
 }
 
+/**
+ * Declares the metadata schema of a table on stores that use one (LanceDB); other
+ * stores keep metadata values as they are and ignore it
+ *
+ * @param store Vector store
+ * @param tableName Table name
+ * @param schema Metadata field types
+ */
+export function declareMetadataSchema(
+  store: VectorStore,
+  tableName: string,
+  schema: MetadataSchema,
+): void {
+  const lanceStore = store as Partial<LanceDBVectorStore>;
+  if (typeof lanceStore.setMetadataSchema === "function") {
+    lanceStore.setMetadataSchema(tableName, schema);
+  }
+}
+
+/**
+ * Replaces a table with an empty one built from the schema definition document.
+ * LanceDB stores write it as a new version of the table (see
+ * LanceDBVectorStore.replaceTable); other stores drop the table and create it again.
+ *
+ * @param store Vector store
+ * @param tableName Table name
+ * @param schemaDefinitionDocument Document defining the columns of the new table
+ */
+export async function replaceTable(
+  store: VectorStore,
+  tableName: string,
+  schemaDefinitionDocument?: VectorDocument,
+): Promise<void> {
+  const lanceStore = store as Partial<LanceDBVectorStore>;
+  if (typeof lanceStore.replaceTable === "function") {
+    await lanceStore.replaceTable(tableName, schemaDefinitionDocument);
+    return;
+  }
+  if ((await store.listTables()).includes(tableName)) {
+    await store.deleteTable(tableName);
+  }
+  await store.createTable(tableName, schemaDefinitionDocument);
+}
+
+/**
+ * Lists the metadata fields a table has columns for, on stores with fixed table
+ * schemas (LanceDB)
+ *
+ * @param store Vector store
+ * @param tableName Table name
+ * @returns Field names, or null if the store accepts any metadata
+ */
+export async function listTableMetadataFields(
+  store: VectorStore,
+  tableName: string,
+): Promise<string[] | null> {
+  const lanceStore = store as Partial<LanceDBVectorStore>;
+  if (typeof lanceStore.listMetadataFields !== "function") return null;
+  return await lanceStore.listMetadataFields(tableName);
+}
+
 export async function addDocument(
   store: VectorStore,
   document: VectorDocument,
@@ -509,6 +1200,14 @@ export async function getDocument(
   return await store.getDocument(id, tableName);
 }
 
+export async function getDocuments(
+  store: VectorStore,
+  ids: string[],
+  tableName?: string,
+): Promise<VectorDocument[]> {
+  return await store.getDocuments(ids, tableName);
+}
+
 export async function updateDocument(
   store: VectorStore,
   document: VectorDocument,
@@ -604,6 +1303,14 @@ export async function getWorkspaceDocument(
   return await store.getDocument(id, `workspace_${workspaceId}`);
 }
 
+export async function getWorkspaceDocuments(
+  store: VectorStore,
+  workspaceId: string,
+  ids: string[],
+): Promise<VectorDocument[]> {
+  return await store.getDocuments(ids, `workspace_${workspaceId}`);
+}
+
 export async function updateWorkspaceDocument(
   store: VectorStore,
   workspaceId: string,
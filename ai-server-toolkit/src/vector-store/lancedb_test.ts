@@ -0,0 +1,220 @@
+import { assert, assertEquals, assertGreater, assertRejects } from "@std/assert";
+import type { ListDocumentsPage, SearchFilter } from "../types.ts";
+import type { LanceDBVectorStore } from "./lancedb.ts";
+import { createLanceDB } from "./lancedb.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createLocalEmbeddings } from "../embeddings/local.ts";
+import { where } from "./filter.ts";
+
+const DIMENSIONS = 32;
+
+// Runs a test against a LanceDB store in a fresh temporary directory
+const withLanceDB = async (
+  embedding: Parameters<typeof createLanceDB>[1],
+  fn: (store: LanceDBVectorStore) => Promise<void>,
+): Promise<void> => {
+  const path = await Deno.makeTempDir({ prefix: "lancedb_test_" });
+  try {
+    const store = await createLanceDB(
+      { provider: "lancedb", path, dimensions: DIMENSIONS },
+      embedding,
+    );
+    await store.createTable("documents");
+    await fn(store);
+    // Writes build full-text indices in the background; wait for them before cleanup
+    for (const tableName of await store.listTables()) {
+      await store.createFullTextIndex(tableName);
+    }
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+};
+
+Deno.test("createLanceDB embeds documents and queries with an injected model", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: DIMENSIONS });
+
+  await withLanceDB(embeddings, async (store) => {
+    await store.addDocuments([
+      { id: "exit", content: "fire exit doors open outwards" },
+      { id: "parking", content: "parking spaces per flat" },
+    ]);
+    const [best] = await store.search("fire exit doors");
+
+    assertEquals(best.id, "exit");
+    assertEquals(embeddings.calls, [
+      ["fire exit doors open outwards", "parking spaces per flat"],
+      ["fire exit doors"],
+    ]);
+  });
+});
+
+Deno.test("createLanceDB creates the embedding provider named in an EmbeddingConfig", async () => {
+  await withLanceDB({ provider: "local" }, async (store) => {
+    await store.addDocument({ id: "doc", content: "ventilation of bathrooms" });
+    const [result] = await store.search("bathroom ventilation", { includeEmbeddings: true });
+
+    assertEquals(result.id, "doc");
+    // The local model takes its dimensions from the vector store config
+    assertEquals(
+      result.embedding,
+      await createLocalEmbeddings({ provider: "local", dimensions: DIMENSIONS })
+        .embedText("ventilation of bathrooms")
+        .then((vector) => vector.map(Math.fround)),
+    );
+    assertGreater(result.score, 0);
+  });
+});
+
+Deno.test("LanceDB looks documents up by ID through a scalar index", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    await store.createTable("lookup", { id: "a", content: "first", metadata: { page: 1 } });
+    await store.addDocuments([
+      { id: "b", content: "second", metadata: { page: 2 } },
+      { id: "it's", content: "quoted", metadata: { page: 3 } },
+    ], "lookup");
+
+    const documents = await store.getDocuments(["it's", "missing", "a", "it's"], "lookup");
+
+    // Requested order, missing IDs skipped, duplicates returned once
+    assertEquals(documents.map((doc) => doc.id), ["it's", "a"]);
+    assertEquals(documents[1].metadata, { page: 1 });
+    assertEquals(documents[1].embedding?.length, DIMENSIONS);
+    assertEquals((await store.getDocument("b", "lookup"))?.content, "second");
+    assertEquals(await store.getDocument("missing", "lookup"), null);
+    assertEquals(await store.getDocuments([], "lookup"), []);
+    const indices = await store.listIndices("lookup");
+    assert(indices.some((index) => index.columns.includes("id")));
+  });
+});
+
+Deno.test("LanceDB applies typed filters and where.sql clauses", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    // LanceDB takes the metadata columns from the first row of a table
+    await store.createTable("filtered", {
+      id: "schema",
+      content: "schema",
+      metadata: { lang: "", page: 0 },
+    });
+    await store.deleteDocument("schema", "filtered");
+    await store.addDocuments([
+      { id: "a", content: "Fire EXIT signs", metadata: { lang: "en", page: 1 } },
+      { id: "b", content: "Exit doors", metadata: { lang: "et", page: 2 } },
+      { id: "c", content: "Parking", metadata: { lang: "en", page: 3 } },
+    ], "filtered");
+
+    const search = (filter: SearchFilter) => store.search("exit", { filter }, "filtered");
+    const typed = await search(where.gte("page", 2));
+    const escaped = await search(where.eq("lang", "en' OR 'a'='a"));
+    const combined = await search(
+      where.and(where.eq("lang", "en"), where.sql("lower(content) LIKE '%exit%'")),
+    );
+
+    assertEquals(typed.map((r) => r.id).sort(), ["b", "c"]);
+    assertEquals(escaped, []);
+    assertEquals(combined.map((r) => r.id), ["a"]);
+  });
+});
+
+Deno.test("LanceDB pages through tables of several fragments that change meanwhile", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    // Every write adds a fragment
+    for (let batch = 0; batch < 3; batch++) {
+      await store.addDocuments(
+        Array.from({ length: 5 }, (_, i) => ({
+          id: `doc-${batch * 5 + i}`,
+          content: `document ${batch * 5 + i}`,
+        })),
+      );
+    }
+
+    const pages: ListDocumentsPage[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.listDocuments({ limit: 4, cursor });
+      pages.push(page);
+      cursor = page.nextCursor;
+      // A delete ahead of the cursor and an append while the listing runs
+      if (pages.length === 2) {
+        await store.deleteDocument("doc-14");
+        await store.addDocuments([{ id: "doc-15", content: "document 15" }]);
+      }
+    } while (cursor);
+
+    assertEquals(pages.map((page) => page.documents.length), [4, 4, 4, 3]);
+    const ids = pages.flatMap((page) => page.documents.map((doc) => doc.id));
+    assertEquals(
+      ids.sort(),
+      Array.from({ length: 16 }, (_, i) => `doc-${i}`).filter((id) => id !== "doc-14").sort(),
+    );
+
+    const filtered = await store.listDocuments({ filter: where.eq("id", "doc-7"), limit: 4 });
+    assertEquals(filtered.documents.map((doc) => doc.id), ["doc-7"]);
+    assertEquals(filtered.nextCursor, undefined);
+    await assertRejects(() => store.listDocuments({ cursor: "not a cursor" }));
+  });
+});
+
+Deno.test("LanceDB builds the full-text index on writes or on the first keyword search", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    assertEquals(await store.search("exit", { mode: "keyword" }), []);
+
+    await store.addDocuments([
+      { id: "exit", content: "fire exit doors" },
+      { id: "parking", content: "parking spaces" },
+    ]);
+    const [best] = await store.search("exit", { mode: "keyword" });
+    assertEquals(best.id, "exit");
+
+    // Like a table written by an older version: rows but no full-text index
+    await store.createTable("legacy", { id: "sign", content: "fire exit signs" });
+    const [legacy] = await store.search("exit", { mode: "keyword" }, "legacy");
+    assertEquals(legacy.id, "sign");
+    assert((await store.listIndices("legacy")).some((index) => index.indexType === "FTS"));
+  });
+});
+
+Deno.test("LanceDB replaceTable waits for the index build a write started", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    await store.addDocuments([{ id: "exit", content: "fire exit doors" }]);
+    await store.replaceTable("documents", { id: "stairs", content: "fire stairs" });
+
+    assertEquals(await store.countWhere(), 1);
+    const [best] = await store.search("stairs", { mode: "keyword" });
+    assertEquals(best.id, "stairs");
+  });
+});
+
+Deno.test("LanceDB replaceTable starts a table over without its old indices", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    const chunks = (from: number) =>
+      [0, 1].map((i) => ({ id: `chunk-${from + i}`, content: `chunk ${from + i}` }));
+    await store.addDocuments([0, 2, 4].flatMap(chunks));
+    await store.getDocument("chunk-1");
+    assert((await store.listIndices()).some((index) => index.columns.includes("id")));
+
+    await store.replaceTable("documents", { id: "schema", content: "schema" });
+    await store.deleteDocument("schema");
+    // Upserts match on id; they must not read the dropped table's id index
+    for (const from of [0, 2, 4]) await store.upsertDocuments(chunks(from));
+
+    assertEquals(await store.countWhere(), 6);
+    assertEquals((await store.getDocuments(["chunk-5"])).map((doc) => doc.id), ["chunk-5"]);
+  });
+});
+
+Deno.test("LanceDB keeps L2 scores between 0 and 1", async () => {
+  await withLanceDB(createHashEmbeddings({ dimensions: DIMENSIONS }), async (store) => {
+    const vector = (value: number) => new Array(DIMENSIONS).fill(value);
+    await store.addDocuments([
+      { id: "near", content: "near", embedding: vector(0.1) },
+      { id: "far", content: "far", embedding: vector(5) },
+    ]);
+
+    const results = await store.searchByEmbedding(vector(0));
+    const confident = await store.searchByEmbedding(vector(0), { threshold: 0.5 });
+
+    assertEquals(results.map((r) => r.id), ["near", "far"]);
+    assert(results.every((r) => r.score > 0 && r.score <= 1));
+    assertEquals(confident.map((r) => r.id), ["near"]);
+  });
+});
@@ -0,0 +1,586 @@
+// Functional in-memory vector store implementation (pure TypeScript, optional JSON snapshots)
+import { createEmbeddings, isEmbeddingModel } from "../embeddings/factory.ts";
+import type {
+  DistanceMetric,
+  EmbeddingConfig,
+  EmbeddingModel,
+  ExportTableOptions,
+  ImportTableOptions,
+  ImportTableResult,
+  ListDocumentsOptions,
+  ListDocumentsPage,
+  SearchFilter,
+  SearchOptions,
+  SearchResult,
+  VectorDocument,
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreStats,
+} from "../types.ts";
+import { createNotFoundError, createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { scoreFunctions } from "./distance.ts";
+import { createInvertedIndex, type InvertedIndex, runSearchMode } from "./hybrid.ts";
+import {
+  compareIds,
+  decodeKeysetCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeKeysetCursor,
+} from "./pagination.ts";
+import { applyPostRetrieval } from "./rerank.ts";
+import { compileFilter } from "./sql-filter.ts";
+import { exportDocuments, importDocuments, type TableTransferHandlers } from "./transfer.ts";
+
+const logger = createSubLogger("memory-vector-store");
+
+const DEFAULT_TABLE_NAME = "documents";
+const DEFAULT_DIMENSIONS = 1536;
+const DEFAULT_SEARCH_LIMIT = 10;
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * In-memory vector store with JSON snapshot support
+ */
+export interface MemoryVectorStore extends VectorStore {
+  /**
+   * Writes all tables to a JSON file
+   * @param path Snapshot path (default: `config.path`)
+   */
+  saveSnapshot(path?: string): Promise<void>;
+  /**
+   * Replaces all tables with the contents of a JSON snapshot
+   * @param path Snapshot path (default: `config.path`)
+   */
+  loadSnapshot(path?: string): Promise<void>;
+}
+
+/**
+ * JSON snapshot file format
+ */
+export interface MemoryVectorStoreSnapshot {
+  version: number;
+  dimensions: number;
+  metric: DistanceMetric;
+  tables: Record<string, { lastUpdated: string; documents: StoredDocument[] }>;
+}
+
+interface StoredDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+}
+
+interface MemoryTable {
+  documents: StoredDocument[];
+  keywordIndex: InvertedIndex<StoredDocument>;
+  lastUpdated: Date;
+}
+
+interface MemoryVectorStoreState {
+  tables: Map<string, MemoryTable>;
+  tableName: string;
+  embeddings: EmbeddingModel;
+  dimensions: number;
+  metric: DistanceMetric;
+  snapshotPath?: string;
+}
+
+/**
+ * Creates an in-memory vector store.
+ *
+ * A pure-TypeScript implementation of the VectorStore interface with no native
+ * dependencies or disk access: documents live in memory, search is a brute-force scan
+ * ranked by cosine, dot-product or L2 distance (`config.metric`), and filters accept
+ * both metadata objects and a subset of SQL WHERE syntax (see compileSqlFilter).
+ * A BM25 inverted index over document content serves the "keyword" and "hybrid"
+ * search modes.
+ * Behaves like the LanceDB store: tables must be created before use, document IDs
+ * are not unique, and scores follow the metric (see DistanceMetric).
+ *
+ * When `config.path` points to an existing JSON snapshot, it is loaded on creation;
+ * `saveSnapshot()` writes the current state back.
+ *
+ * @param config Vector store configuration (`dimensions`, `tableName`, `metric`, `path`)
+ * @param embedding Embedding configuration or a pre-created EmbeddingModel
+ * @returns Promise resolving to the in-memory vector store
+ * @throws AppError (VALIDATION_ERROR) if the snapshot does not match the configuration
+ *
+ * @example
+ * ```ts
+ * const store = await createMemoryVectorStore(
+ *   { provider: "memory", dimensions: 384, metric: "cosine" },
+ *   { provider: "local" },
+ * );
+ * await store.createTable("documents");
+ * await store.addDocuments([{ id: "1", content: "Deno KV guide", metadata: { lang: "en" } }]);
+ * const results = await store.search("key value store", { filter: where.eq("lang", "en") });
+ * ```
+ */
+export async function createMemoryVectorStore(
+  config: VectorStoreConfig,
+  embedding: EmbeddingConfig | EmbeddingModel,
+): Promise<MemoryVectorStore> {
+  const state: MemoryVectorStoreState = {
+    tables: new Map(),
+    tableName: config.tableName || DEFAULT_TABLE_NAME,
+    embeddings: isEmbeddingModel(embedding) ? embedding : createEmbeddings({
+      ...embedding,
+      dimensions: embedding.dimensions ?? config.dimensions,
+    }),
+    dimensions: config.dimensions || DEFAULT_DIMENSIONS,
+    metric: config.metric || "cosine",
+    snapshotPath: config.path,
+  };
+
+  // Internal Helpers
+
+  function getTable(tableName?: string): MemoryTable {
+    const name = tableName || state.tableName;
+    const table = state.tables.get(name);
+    if (!table) {
+      throw createNotFoundError(`Table '${name}' was not found`, { tableName: name });
+    }
+    return table;
+  }
+
+  function toStoredDocument(document: VectorDocument, embedding: number[]): StoredDocument {
+    if (embedding.length !== state.dimensions) {
+      throw createValidationError("Embedding dimensions do not match the vector store", {
+        documentId: document.id,
+        expected: state.dimensions,
+        actual: embedding.length,
+      });
+    }
+    return {
+      id: document.id,
+      content: document.content,
+      metadata: structuredClone(document.metadata || {}),
+      embedding: [...embedding],
+    };
+  }
+
+  function createMemoryTable(documents: StoredDocument[], lastUpdated: Date): MemoryTable {
+    const keywordIndex = createInvertedIndex<StoredDocument>();
+    documents.forEach((doc) => keywordIndex.add(doc, doc.content));
+    return { documents, keywordIndex, lastUpdated };
+  }
+
+  function toSearchResult(
+    doc: StoredDocument,
+    score: number,
+    options: SearchOptions,
+  ): SearchResult {
+    return {
+      id: doc.id,
+      content: doc.content,
+      metadata: structuredClone(doc.metadata),
+      score,
+      ...(options.includeEmbeddings ? { embedding: [...doc.embedding] } : {}),
+    };
+  }
+
+  async function embedDocuments(documents: VectorDocument[]): Promise<StoredDocument[]> {
+    const missing = documents.filter((doc) => !doc.embedding);
+    const embeddings = missing.length > 0
+      ? await state.embeddings.embedTexts(missing.map((doc) => doc.content))
+      : [];
+
+    let next = 0;
+    return documents.map((doc) => toStoredDocument(doc, doc.embedding || embeddings[next++]));
+  }
+
+  function toVectorDocument(doc: StoredDocument, includeEmbedding: boolean): VectorDocument {
+    return {
+      id: doc.id,
+      content: doc.content,
+      metadata: structuredClone(doc.metadata),
+      ...(includeEmbedding ? { embedding: [...doc.embedding] } : {}),
+    };
+  }
+
+  // Removes matching documents from a table and its keyword index
+  function removeDocuments(table: MemoryTable, matches: (doc: StoredDocument) => boolean): number {
+    const before = table.documents.length;
+    table.documents = table.documents.filter((doc) => {
+      if (!matches(doc)) return true;
+      table.keywordIndex.remove(doc);
+      return false;
+    });
+    touch(table);
+    return before - table.documents.length;
+  }
+
+  function touch(table: MemoryTable): void {
+    table.lastUpdated = new Date();
+  }
+
+  function resolveSnapshotPath(path?: string): string {
+    const snapshotPath = path || state.snapshotPath;
+    if (!snapshotPath) {
+      throw createValidationError("Snapshot path is required (pass one or set config.path)");
+    }
+    return snapshotPath;
+  }
+
+  // Implementation Methods
+
+  const createTable = async (
+    tableName: string,
+    schemaDefinitionDocument?: VectorDocument,
+  ): Promise<void> => {
+    const targetTable = tableName || state.tableName;
+    if (state.tables.has(targetTable)) {
+      logger.debug("Table already exists", { tableName: targetTable });
+      return;
+    }
+
+    // Like LanceDB, a schema definition document is stored (callers delete it)
+    const documents = schemaDefinitionDocument
+      ? [
+        toStoredDocument(
+          schemaDefinitionDocument,
+          schemaDefinitionDocument.embedding || new Array(state.dimensions).fill(0),
+        ),
+      ]
+      : [];
+    state.tables.set(targetTable, createMemoryTable(documents, new Date()));
+    logger.info("Table created successfully", { tableName: targetTable });
+  };
+
+  const deleteTable = async (tableName: string): Promise<void> => {
+    getTable(tableName);
+    state.tables.delete(tableName);
+    logger.info("Successfully dropped table", { tableName });
+  };
+
+  const addDocument = async (
+    document: VectorDocument,
+    tableName?: string,
+  ): Promise<void> => {
+    await addDocuments([document], tableName);
+  };
+
+  const addDocuments = async (
+    documents: VectorDocument[],
+    tableName?: string,
+  ): Promise<void> => {
+    if (documents.length === 0) return;
+    const table = getTable(tableName);
+    const records = await embedDocuments(documents);
+    table.documents.push(...records);
+    records.forEach((record) => table.keywordIndex.add(record, record.content));
+    touch(table);
+  };
+
+  const vectorSearch = async (
+    embedding: number[],
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    const table = getTable(tableName);
+    if (embedding.length !== state.dimensions) {
+      throw createValidationError("Query embedding dimensions do not match the vector store", {
+        expected: state.dimensions,
+        actual: embedding.length,
+      });
+    }
+
+    const matches = compileFilter(options.filter);
+    const score = scoreFunctions[state.metric];
+
+    return table.documents
+      .filter(matches)
+      .map((doc) => ({ doc, score: score(embedding, doc.embedding) }))
+      .filter((result) => !options.threshold || result.score >= options.threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit || DEFAULT_SEARCH_LIMIT)
+      .map(({ doc, score }) => toSearchResult(doc, score, options));
+  };
+
+  const searchByEmbedding = async (
+    embedding: number[],
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    return await applyPostRetrieval(
+      options,
+      { getQueryEmbedding: async () => embedding },
+      (stageOptions) => vectorSearch(embedding, stageOptions, tableName),
+    );
+  };
+
+  const keywordSearch = async (
+    query: string,
+    options: SearchOptions,
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    const table = getTable(tableName);
+    const matches = compileFilter(options.filter);
+    return table.keywordIndex
+      .search(query, options.limit || DEFAULT_SEARCH_LIMIT, matches)
+      .map(({ ref, score }) => toSearchResult(ref, score, options));
+  };
+
+  const search = async (
+    query: string,
+    options: SearchOptions = {},
+    tableName?: string,
+  ): Promise<SearchResult[]> => {
+    logger.debug("Searching table", { tableName: tableName || "default", mode: options.mode });
+    let queryEmbedding: Promise<number[]> | undefined = options.queryEmbedding
+      ? Promise.resolve(options.queryEmbedding)
+      : undefined;
+    const getQueryEmbedding = () => queryEmbedding ||= state.embeddings.embedText(query);
+
+    return await applyPostRetrieval(
+      options,
+      { query, getQueryEmbedding },
+      (stageOptions) =>
+        runSearchMode(stageOptions, {
+          vector: async (modeOptions) =>
+            await vectorSearch(await getQueryEmbedding(), modeOptions, tableName),
+          keyword: (modeOptions) => keywordSearch(query, modeOptions, tableName),
+        }),
+    );
+  };
+
+  const getDocument = async (
+    id: string,
+    tableName?: string,
+  ): Promise<VectorDocument | null> => {
+    const doc = getTable(tableName).documents.find((doc) => doc.id === id);
+    return doc ? toVectorDocument(doc, true) : null;
+  };
+
+  const getDocuments = async (
+    ids: string[],
+    tableName?: string,
+  ): Promise<VectorDocument[]> => {
+    const wanted = new Set(ids);
+    const byId = new Map<string, StoredDocument>();
+    for (const doc of getTable(tableName).documents) {
+      if (wanted.has(doc.id) && !byId.has(doc.id)) byId.set(doc.id, doc);
+    }
+    return [...new Set(ids)]
+      .filter((id) => byId.has(id))
+      .map((id) => toVectorDocument(byId.get(id)!, true));
+  };
+
+  const deleteDocument = async (
+    id: string,
+    tableName?: string,
+  ): Promise<void> => {
+    removeDocuments(getTable(tableName), (doc) => doc.id === id);
+  };
+
+  const updateDocument = async (
+    document: VectorDocument,
+    tableName?: string,
+  ): Promise<void> => {
+    await upsertDocuments([document], tableName);
+  };
+
+  const upsertDocuments = async (
+    documents: VectorDocument[],
+    tableName?: string,
+  ): Promise<void> => {
+    if (documents.length === 0) return;
+    const table = getTable(tableName);
+
+    // Like LanceDB merge_insert, the last document with an ID wins
+    const uniqueDocuments = [...new Map(documents.map((doc) => [doc.id, doc])).values()];
+    const records = await embedDocuments(uniqueDocuments);
+
+    // Swap synchronously after embedding, so readers never see the documents missing
+    const ids = new Set(records.map((record) => record.id));
+    removeDocuments(table, (doc) => ids.has(doc.id));
+    table.documents.push(...records);
+    records.forEach((record) => table.keywordIndex.add(record, record.content));
+  };
+
+  const deleteWhere = async (
+    filter: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    if (!filter || (typeof filter === "object" && Object.keys(filter).length === 0)) {
+      throw createValidationError("deleteWhere requires a non-empty filter (use clear() instead)");
+    }
+    const count = removeDocuments(getTable(tableName), compileFilter(filter));
+    logger.debug("Deleted documents by filter", { tableName, count });
+    return count;
+  };
+
+  const countWhere = async (
+    filter?: SearchFilter,
+    tableName?: string,
+  ): Promise<number> => {
+    return getTable(tableName).documents.filter(compileFilter(filter)).length;
+  };
+
+  const listDocuments = async (
+    options: ListDocumentsOptions = {},
+    tableName?: string,
+  ): Promise<ListDocumentsPage> => {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const after = decodeKeysetCursor(options.cursor);
+    const matches = compileFilter(options.filter);
+    // Stable sort, so documents sharing an ID keep their insertion order
+    const matching = getTable(tableName).documents
+      .filter((doc) => (after === undefined || compareIds(doc.id, after) > 0) && matches(doc))
+      .sort((a, b) => compareIds(a.id, b.id));
+
+    const page: StoredDocument[] = [];
+    let nextCursor: string | undefined;
+    let ids = 0;
+    for (const doc of matching) {
+      // The first ID past the page size starts the next page
+      if (doc.id !== page.at(-1)?.id && ++ids > limit) {
+        nextCursor = encodeKeysetCursor(page.at(-1)!.id);
+        break;
+      }
+      page.push(doc);
+    }
+
+    return {
+      documents: page.map((doc) => toVectorDocument(doc, Boolean(options.includeEmbeddings))),
+      nextCursor,
+    };
+  };
+
+  const getStats = async (tableName?: string): Promise<VectorStoreStats> => {
+    const table = getTable(tableName);
+    return {
+      totalDocuments: table.documents.length,
+      totalSize: table.documents.length * state.dimensions * 4,
+      lastUpdated: table.lastUpdated,
+    };
+  };
+
+  const listTables = async (): Promise<string[]> => {
+    return [...state.tables.keys()];
+  };
+
+  const clear = async (tableName?: string): Promise<void> => {
+    const table = getTable(tableName);
+    table.documents = [];
+    table.keywordIndex.clear();
+    touch(table);
+  };
+
+  const saveSnapshot = async (path?: string): Promise<void> => {
+    const snapshotPath = resolveSnapshotPath(path);
+    const snapshot: MemoryVectorStoreSnapshot = {
+      version: SNAPSHOT_VERSION,
+      dimensions: state.dimensions,
+      metric: state.metric,
+      tables: Object.fromEntries(
+        [...state.tables].map(([name, table]) => [
+          name,
+          { lastUpdated: table.lastUpdated.toISOString(), documents: table.documents },
+        ]),
+      ),
+    };
+
+    // Write then rename so a crash never leaves a truncated snapshot behind; every save
+    // gets its own temp file, so concurrent saves to one path do not collide
+    const tempPath = `${snapshotPath}.${crypto.randomUUID()}.tmp`;
+    try {
+      await Deno.writeTextFile(tempPath, JSON.stringify(snapshot));
+      await Deno.rename(tempPath, snapshotPath);
+    } catch (error) {
+      await Deno.remove(tempPath).catch(() => {});
+      throw error;
+    }
+    logger.info("Saved vector store snapshot", { path: snapshotPath, tables: state.tables.size });
+  };
+
+  const loadSnapshot = async (path?: string): Promise<void> => {
+    const snapshotPath = resolveSnapshotPath(path);
+    const snapshot = JSON.parse(await Deno.readTextFile(snapshotPath)) as MemoryVectorStoreSnapshot;
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw createValidationError("Unsupported snapshot version", {
+        path: snapshotPath,
+        version: snapshot.version,
+      });
+    }
+    if (snapshot.dimensions !== state.dimensions) {
+      throw createValidationError("Snapshot dimensions do not match the vector store", {
+        path: snapshotPath,
+        expected: state.dimensions,
+        actual: snapshot.dimensions,
+      });
+    }
+
+    state.tables = new Map(
+      Object.entries(snapshot.tables).map(([name, table]) => [
+        name,
+        createMemoryTable(table.documents, new Date(table.lastUpdated)),
+      ]),
+    );
+    logger.info("Loaded vector store snapshot", { path: snapshotPath, tables: state.tables.size });
+  };
+
+  if (state.snapshotPath) {
+    try {
+      await loadSnapshot();
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+      logger.debug("No snapshot found, starting empty", { path: state.snapshotPath });
+    }
+  }
+
+  const transferHandlers = (tableName?: string): TableTransferHandlers => {
+    const targetTable = tableName || state.tableName;
+    return {
+      dimensions: state.dimensions,
+      listDocuments: (options) => listDocuments(options, targetTable),
+      tableExists: async () => (await listTables()).includes(targetTable),
+      createTable: (schemaDocument) => createTable(targetTable, schemaDocument),
+      addDocuments: (documents) => addDocuments(documents, targetTable),
+      upsertDocuments: (documents) => upsertDocuments(documents, targetTable),
+    };
+  };
+
+  const exportTable = async (
+    options: ExportTableOptions = {},
+    tableName?: string,
+  ): Promise<ReadableStream<Uint8Array>> => {
+    return await exportDocuments(options, transferHandlers(tableName));
+  };
+
+  const importTable = async (
+    source: ReadableStream<Uint8Array> | Uint8Array,
+    options: ImportTableOptions = {},
+    tableName?: string,
+  ): Promise<ImportTableResult> => {
+    return await importDocuments(source, options, transferHandlers(tableName));
+  };
+
+  return {
+    addDocument,
+    addDocuments,
+    search,
+    searchByEmbedding,
+    getDocument,
+    getDocuments,
+    deleteDocument,
+    updateDocument,
+    createTable,
+    deleteTable,
+    getStats,
+    listTables,
+    clear,
+    upsertDocuments,
+    deleteWhere,
+    countWhere,
+    listDocuments,
+    exportTable,
+    importTable,
+    saveSnapshot,
+    loadSnapshot,
+  };
+}
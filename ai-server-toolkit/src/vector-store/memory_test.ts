@@ -0,0 +1,158 @@
+import { assertAlmostEquals, assertEquals, assertRejects } from "@std/assert";
+import type { VectorDocument } from "../types.ts";
+import { ErrorCode } from "../utils/errors.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "./memory.ts";
+
+const documents: VectorDocument[] = [
+  { id: "a", content: "x axis", metadata: { kind: "axis", rank: 1 }, embedding: [1, 0, 0] },
+  { id: "b", content: "y axis", metadata: { kind: "axis", rank: 2 }, embedding: [0, 1, 0] },
+  { id: "c", content: "diagonal", metadata: { kind: "mix", rank: 3 }, embedding: [2, 2, 0] },
+];
+
+const createStore = async (metric?: "cosine" | "dot" | "l2") => {
+  const store = await createMemoryVectorStore(
+    { provider: "memory", dimensions: 3, metric },
+    createHashEmbeddings({ dimensions: 3 }),
+  );
+  await store.createTable("documents");
+  await store.addDocuments(documents);
+  return store;
+};
+
+Deno.test("memory store ranks by the configured metric", async () => {
+  const query = [1, 0.2, 0];
+
+  const cosine = await (await createStore("cosine")).searchByEmbedding(query);
+  const dot = await (await createStore("dot")).searchByEmbedding(query);
+  const l2 = await (await createStore("l2")).searchByEmbedding(query);
+
+  assertEquals(cosine.map((r) => r.id), ["a", "c", "b"]);
+  assertEquals(dot.map((r) => r.id), ["c", "a", "b"]);
+  assertEquals(l2.map((r) => r.id), ["a", "b", "c"]);
+  // "c" is 4.24 away (squared), which would score -3.24 as 1 - distance
+  assertAlmostEquals(l2[2].score, 1 / 5.24);
+});
+
+Deno.test("memory store applies object and SQL filters, limits and thresholds", async () => {
+  const store = await createStore();
+  const query = [1, 1, 0];
+
+  const byObject = await store.searchByEmbedding(query, { filter: { kind: "axis" } });
+  const bySql = await store.searchByEmbedding(query, { filter: "metadata.rank >= 2" });
+  const limited = await store.searchByEmbedding(query, { limit: 1 });
+  const confident = await store.searchByEmbedding(query, { threshold: 0.9 });
+
+  assertEquals(byObject.map((r) => r.id).sort(), ["a", "b"]);
+  assertEquals(bySql.map((r) => r.id), ["c", "b"]);
+  assertEquals(limited.map((r) => r.id), ["c"]);
+  assertEquals(confident.map((r) => r.id), ["c"]);
+});
+
+Deno.test("memory store embeds documents without an embedding", async () => {
+  const embeddings = createHashEmbeddings({ dimensions: 3 });
+  const store = await createMemoryVectorStore({ provider: "memory", dimensions: 3 }, embeddings);
+  await store.createTable("documents");
+
+  await store.addDocuments([{ id: "x", content: "embed me" }, documents[0]]);
+  const [best] = await store.search("embed me");
+
+  assertEquals(best.id, "x");
+  assertEquals(embeddings.calls, [["embed me"], ["embed me"]]);
+});
+
+Deno.test("memory store gets documents by ID in the requested order", async () => {
+  const store = await createStore();
+
+  const found = await store.getDocuments(["c", "missing", "a", "c"]);
+
+  assertEquals(found.map((doc) => doc.id), ["c", "a"]);
+  assertEquals(found[0].embedding, [2, 2, 0]);
+  assertEquals(await store.getDocument("missing"), null);
+});
+
+Deno.test("memory store keeps tables apart and reports stats", async () => {
+  const store = await createStore();
+  await store.createTable("other");
+  await store.addDocument(documents[0], "other");
+
+  assertEquals((await store.listTables()).sort(), ["documents", "other"]);
+  assertEquals((await store.getStats()).totalDocuments, 3);
+  assertEquals((await store.getStats("other")).totalDocuments, 1);
+
+  await store.deleteTable("other");
+  const error = await assertRejects(() => store.search("x", {}, "other"));
+  assertEquals((error as { code?: string }).code, ErrorCode.NOT_FOUND);
+});
+
+Deno.test("memory store lists pages in ID order that writes between pages do not shift", async () => {
+  const store = await createStore();
+  const extra = (id: string): VectorDocument => ({ id, content: id, embedding: [0, 0, 1] });
+  await store.addDocuments([extra("e"), extra("d")]);
+  const ids = (page: { documents: VectorDocument[] }) => page.documents.map((doc) => doc.id);
+
+  const first = await store.listDocuments({ limit: 2 });
+  // A write behind the cursor, one ahead of it and a delete on the next page
+  await store.addDocuments([extra("0"), extra("f")]);
+  await store.deleteDocument("c");
+  const second = await store.listDocuments({ limit: 2, cursor: first.nextCursor });
+  const third = await store.listDocuments({ limit: 2, cursor: second.nextCursor });
+
+  assertEquals(ids(first), ["a", "b"]);
+  assertEquals(ids(second), ["d", "e"]);
+  assertEquals(ids(third), ["f"]);
+  assertEquals(third.nextCursor, undefined);
+});
+
+Deno.test("memory store rejects embeddings of the wrong size", async () => {
+  const store = await createStore();
+
+  await assertRejects(
+    () => store.addDocument({ id: "bad", content: "bad", embedding: [1, 2] }),
+    Error,
+    "Embedding dimensions do not match",
+  );
+});
+
+Deno.test("memory store snapshots round-trip through a JSON file", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "memory_store_test_" });
+  try {
+    const path = `${dir}/snapshot.json`;
+    const store = await createStore();
+    await store.saveSnapshot(path);
+
+    const restored = await createMemoryVectorStore(
+      { provider: "memory", dimensions: 3, path },
+      createHashEmbeddings({ dimensions: 3 }),
+    );
+
+    assertEquals(await restored.getDocument("c"), await store.getDocument("c"));
+    assertEquals((await restored.searchByEmbedding([0, 1, 0]))[0].id, "b");
+
+    const mismatched = await createMemoryVectorStore(
+      { provider: "memory", dimensions: 4 },
+      createHashEmbeddings({ dimensions: 4 }),
+    );
+    await assertRejects(() => mismatched.loadSnapshot(path), Error, "dimensions do not match");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("memory store snapshots saved concurrently to one path do not collide", async () => {
+  const dir = await Deno.makeTempDir({ prefix: "memory_store_test_" });
+  try {
+    const path = `${dir}/snapshot.json`;
+    const store = await createStore();
+
+    await Promise.all([store.saveSnapshot(path), store.saveSnapshot(path)]);
+
+    const files = [];
+    for await (const entry of Deno.readDir(dir)) files.push(entry.name);
+    assertEquals(files, ["snapshot.json"]);
+    await store.loadSnapshot(path);
+    assertEquals((await store.searchByEmbedding([0, 1, 0]))[0].id, "b");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,300 @@
+// Metadata codec - maps document metadata to LanceDB columns and back, for the local
+// layout (nested `metadata` struct) and the LanceDB Cloud layout (flat `meta_*` columns)
+
+import { Type } from "apache-arrow";
+
+const CLOUD_PREFIX = "meta_";
+
+/**
+ * Type of a metadata field.
+ *
+ * `date` values are stored as ISO 8601 strings (so they sort and compare in filters)
+ * and `json` values as JSON strings; the other types map to native columns.
+ */
+export type MetadataFieldType = "string" | "number" | "boolean" | "string[]" | "date" | "json";
+
+/**
+ * Field types of a table's metadata, keyed by field name
+ */
+export type MetadataSchema = Record<string, MetadataFieldType>;
+
+/**
+ * Options for createMetadataCodec
+ */
+export interface MetadataCodecOptions {
+  /** Encode for the LanceDB Cloud layout (`meta_*` columns) instead of the local struct */
+  isCloud: boolean;
+  /** Known field types; other fields are stored as they are (objects as JSON in Cloud) */
+  schema?: MetadataSchema;
+}
+
+/**
+ * Converts metadata between documents and LanceDB rows
+ */
+export interface MetadataCodec {
+  readonly isCloud: boolean;
+  readonly schema: MetadataSchema;
+  /** Metadata to the row columns holding it (`{ metadata }` or `{ meta_x, ... }`) */
+  encode(metadata: Record<string, unknown>): Record<string, unknown>;
+  /** Row to document metadata, with values converted to their schema types */
+  decode(row: Record<string, unknown>): Record<string, unknown>;
+  /**
+   * Metadata columns of a schema definition row. Empty `string[]` values get a
+   * placeholder element, because LanceDB cannot infer a column type from an empty list.
+   */
+  encodeSample(metadata: Record<string, unknown>): Record<string, unknown>;
+}
+
+// Minimal view of an Arrow field, independent of the apache-arrow version LanceDB uses
+interface ArrowFieldLike {
+  name: string;
+  type: { typeId: number; children?: ArrowFieldLike[] };
+}
+
+// Arrow list and struct values come back as Vector / StructRow objects
+const toPlainValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (typeof value !== "object" || value === null || value instanceof Date) return value;
+  if (typeof (value as { toJSON?: unknown }).toJSON !== "function") return value;
+
+  const json = (value as { toJSON(): unknown }).toJSON();
+  if (Array.isArray(json)) return json.map(toPlainValue);
+  return Object.fromEntries(
+    Object.entries(json as Record<string, unknown>).map(([key, item]) => [key, toPlainValue(item)]),
+  );
+};
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Stored representation of a value of the given type
+const encodeValue = (value: unknown, type: MetadataFieldType): unknown => {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case "number":
+      return typeof value === "number" ? value : Number(value);
+    case "boolean":
+      return typeof value === "boolean" ? value : value === "true";
+    case "string[]": {
+      const list = typeof value === "string" && value.startsWith("[") ? parseJson(value) : value;
+      return Array.isArray(list) ? list.map(String) : [String(list)];
+    }
+    case "date":
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === "number" ? new Date(value).toISOString() : String(value);
+    case "json":
+      return typeof value === "string" ? value : JSON.stringify(value);
+    case "string":
+      return typeof value === "string"
+        ? value
+        : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  }
+};
+
+// Document value of a stored value of the given type (also repairs values that older
+// versions stored as strings)
+const decodeValue = (value: unknown, type: MetadataFieldType): unknown => {
+  if (value === null || value === undefined) return value;
+
+  switch (type) {
+    case "number":
+      return typeof value === "number" ? value : Number(value);
+    case "boolean":
+      return typeof value === "boolean" ? value : value === "true";
+    case "string[]": {
+      const list = typeof value === "string" ? parseJson(value) : toPlainValue(value);
+      return Array.isArray(list) ? list.map(String) : [String(list)];
+    }
+    case "date":
+      return value instanceof Date ? value.toISOString() : String(value);
+    case "json":
+      return typeof value === "string" ? parseJson(value) : toPlainValue(value);
+    case "string":
+      return typeof value === "string" ? value : JSON.stringify(toPlainValue(value));
+  }
+};
+
+// Fields without a schema type: native values in the local struct, JSON for Cloud objects
+const encodeUntyped = (value: unknown, isCloud: boolean): unknown => {
+  if (!isCloud || value === null || value === undefined) return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "object") return value;
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) return value;
+  return JSON.stringify(value);
+};
+
+const decodeUntyped = (value: unknown, isCloud: boolean): unknown => {
+  if (isCloud && typeof value === "string" && (value.startsWith("{") || value.startsWith("["))) {
+    return parseJson(value);
+  }
+  return toPlainValue(value);
+};
+
+/**
+ * Infers a metadata schema from sample metadata (e.g. TableConfig.createSampleMetadata).
+ *
+ * Strings are typed `string` (declare `date` explicitly), arrays `string[]` and other
+ * objects `json`; null and undefined values are skipped.
+ *
+ * @param sample Sample metadata
+ * @returns Inferred schema
+ */
+export function inferMetadataSchema(sample: Record<string, unknown>): MetadataSchema {
+  const schema: MetadataSchema = {};
+  for (const [key, value] of Object.entries(sample)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === "number" || typeof value === "bigint") schema[key] = "number";
+    else if (typeof value === "boolean") schema[key] = "boolean";
+    else if (typeof value === "string") schema[key] = "string";
+    else if (value instanceof Date) schema[key] = "date";
+    else if (Array.isArray(value)) schema[key] = "string[]";
+    else schema[key] = "json";
+  }
+  return schema;
+}
+
+// Metadata fields of a table's Arrow schema, named without the Cloud prefix
+const metadataFieldsOf = (fields: ArrowFieldLike[], isCloud: boolean): ArrowFieldLike[] =>
+  isCloud
+    ? fields
+      .filter((field) => field.name.startsWith(CLOUD_PREFIX))
+      .map((field) => ({ ...field, name: field.name.slice(CLOUD_PREFIX.length) }))
+    : fields.find((field) => field.name === "metadata")?.type.children || [];
+
+/**
+ * Lists the metadata fields stored by an existing LanceDB table, of any type.
+ *
+ * @param fields Fields of the table's Arrow schema
+ * @param isCloud Read the Cloud layout (`meta_*` columns) instead of the local struct
+ * @returns Metadata field names
+ */
+export function metadataFieldNamesFromArrow(fields: ArrowFieldLike[], isCloud: boolean): string[] {
+  return metadataFieldsOf(fields, isCloud).map((field) => field.name);
+}
+
+/**
+ * Reads the metadata schema of an existing LanceDB table from its Arrow schema.
+ *
+ * Only column types are known, so JSON and date fields come out as `string`; merge
+ * the registered schema over the result to restore them. Nested struct fields are
+ * left out and passed through as stored.
+ *
+ * @param fields Fields of the table's Arrow schema
+ * @param isCloud Read the Cloud layout (`meta_*` columns) instead of the local struct
+ * @returns Schema of the metadata columns
+ */
+export function metadataSchemaFromArrow(
+  fields: ArrowFieldLike[],
+  isCloud: boolean,
+): MetadataSchema {
+  const schema: MetadataSchema = {};
+  for (const field of metadataFieldsOf(fields, isCloud)) {
+    switch (field.type.typeId) {
+      case Type.Int:
+      case Type.Float:
+      case Type.Decimal:
+        schema[field.name] = "number";
+        break;
+      case Type.Bool:
+        schema[field.name] = "boolean";
+        break;
+      case Type.Utf8:
+      case Type.LargeUtf8:
+        schema[field.name] = "string";
+        break;
+      case Type.Date:
+      case Type.Timestamp:
+        schema[field.name] = "date";
+        break;
+      case Type.List:
+        if (field.type.children?.[0]?.type.typeId === Type.Utf8) schema[field.name] = "string[]";
+        break;
+    }
+  }
+  return schema;
+}
+
+/**
+ * Creates the codec that stores document metadata in LanceDB.
+ *
+ * Locally metadata is one `metadata` struct column, in LanceDB Cloud every field is a
+ * `meta_{field}` column. With a schema, numbers, booleans, string lists and dates keep
+ * their types on both layouts, and values written by older versions (which stored Cloud
+ * metadata as strings) are converted back when read.
+ *
+ * @param options Layout and schema
+ * @returns Metadata codec
+ *
+ * @example
+ * ```ts
+ * const codec = createMetadataCodec({
+ *   isCloud: true,
+ *   schema: { page: "number", tags: "string[]", publishedAt: "date" },
+ * });
+ * codec.encode({ page: 3, tags: ["fire"], publishedAt: new Date("2024-05-01") });
+ * // { meta_page: 3, meta_tags: ["fire"], meta_publishedAt: "2024-05-01T00:00:00.000Z" }
+ * ```
+ */
+export function createMetadataCodec(options: MetadataCodecOptions): MetadataCodec {
+  const { isCloud } = options;
+  const schema = options.schema || {};
+
+  const encodeFields = (metadata: Record<string, unknown>): Record<string, unknown> => {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(metadata)) {
+      const type = schema[key];
+      encoded[key] = type ? encodeValue(value, type) : encodeUntyped(value, isCloud);
+    }
+    return encoded;
+  };
+
+  const toColumns = (fields: Record<string, unknown>): Record<string, unknown> =>
+    isCloud
+      ? Object.fromEntries(
+        Object.entries(fields).map(([key, value]) => [CLOUD_PREFIX + key, value]),
+      )
+      : { metadata: fields };
+
+  const encode = (metadata: Record<string, unknown>): Record<string, unknown> =>
+    toColumns(encodeFields(metadata));
+
+  const encodeSample = (metadata: Record<string, unknown>): Record<string, unknown> => {
+    const fields = encodeFields(metadata);
+    for (const [key, value] of Object.entries(fields)) {
+      if (Array.isArray(value) && value.length === 0) fields[key] = [""];
+    }
+    return toColumns(fields);
+  };
+
+  const decode = (row: Record<string, unknown>): Record<string, unknown> => {
+    let stored: Record<string, unknown>;
+    if (isCloud) {
+      stored = {};
+      for (const [key, value] of Object.entries(row)) {
+        // Cloud rows have no column per missing value; keep them absent as well
+        if (key.startsWith(CLOUD_PREFIX) && value !== null && value !== undefined) {
+          stored[key.slice(CLOUD_PREFIX.length)] = value;
+        }
+      }
+    } else {
+      stored = (toPlainValue(row.metadata) as Record<string, unknown>) || {};
+    }
+
+    const metadata: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(stored)) {
+      const type = schema[key];
+      metadata[key] = type ? decodeValue(value, type) : decodeUntyped(value, isCloud);
+    }
+    return metadata;
+  };
+
+  return { isCloud, schema, encode, decode, encodeSample };
+}
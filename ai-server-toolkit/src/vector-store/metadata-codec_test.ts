@@ -0,0 +1,162 @@
+import { assertEquals } from "@std/assert";
+import { Type } from "apache-arrow";
+import {
+  createMetadataCodec,
+  inferMetadataSchema,
+  metadataFieldNamesFromArrow,
+  type MetadataSchema,
+  metadataSchemaFromArrow,
+} from "./metadata-codec.ts";
+
+const schema = {
+  page: "number",
+  draft: "boolean",
+  tags: "string[]",
+  publishedAt: "date",
+  source: "json",
+  title: "string",
+} as const;
+
+Deno.test("metadata codec encodes typed fields as meta_* columns for Cloud", () => {
+  const codec = createMetadataCodec({ isCloud: true, schema });
+
+  const row = codec.encode({
+    page: 3,
+    draft: false,
+    tags: ["fire", "exits"],
+    publishedAt: new Date("2024-05-01T00:00:00.000Z"),
+    source: { url: "https://example.com", pages: [1, 2] },
+    title: "Fire safety",
+    missing: null,
+  });
+
+  assertEquals(row, {
+    meta_page: 3,
+    meta_draft: false,
+    meta_tags: ["fire", "exits"],
+    meta_publishedAt: "2024-05-01T00:00:00.000Z",
+    meta_source: '{"url":"https://example.com","pages":[1,2]}',
+    meta_title: "Fire safety",
+    meta_missing: null,
+  });
+  assertEquals(codec.decode({ id: "doc-1", ...row }), {
+    page: 3,
+    draft: false,
+    tags: ["fire", "exits"],
+    publishedAt: "2024-05-01T00:00:00.000Z",
+    source: { url: "https://example.com", pages: [1, 2] },
+    title: "Fire safety",
+  });
+});
+
+Deno.test("metadata codec converts values older versions stored as strings", () => {
+  const codec = createMetadataCodec({ isCloud: true, schema });
+
+  assertEquals(
+    codec.decode({
+      meta_page: "7",
+      meta_draft: "true",
+      meta_tags: '["fire","doors"]',
+      meta_source: '{"url":"https://example.com"}',
+    }),
+    { page: 7, draft: true, tags: ["fire", "doors"], source: { url: "https://example.com" } },
+  );
+  assertEquals(codec.encode({ page: "7", draft: "false", tags: "fire" }), {
+    meta_page: 7,
+    meta_draft: false,
+    meta_tags: ["fire"],
+  });
+});
+
+Deno.test("metadata codec keeps untyped fields native locally and as JSON in Cloud", () => {
+  const metadata = { nested: { level: 2 }, labels: ["a", "b"], count: 4 };
+
+  const local = createMetadataCodec({ isCloud: false });
+  assertEquals(local.encode(metadata), { metadata });
+  assertEquals(local.decode({ id: "doc-1", metadata }), metadata);
+  assertEquals(local.decode({ id: "doc-1" }), {});
+
+  const cloud = createMetadataCodec({ isCloud: true });
+  const row = cloud.encode(metadata);
+  assertEquals(row, { meta_nested: '{"level":2}', meta_labels: ["a", "b"], meta_count: 4 });
+  assertEquals(cloud.decode(row), metadata);
+});
+
+Deno.test("metadata codec schema samples give empty string lists a placeholder", () => {
+  const codec = createMetadataCodec({ isCloud: false, schema: { tags: "string[]" } });
+
+  assertEquals(codec.encodeSample({ tags: [], page: 1 }), { metadata: { tags: [""], page: 1 } });
+  assertEquals(codec.encode({ tags: [] }), { metadata: { tags: [] } });
+});
+
+Deno.test("inferMetadataSchema types sample values", () => {
+  assertEquals(
+    inferMetadataSchema({
+      page: 1,
+      draft: true,
+      title: "",
+      publishedAt: new Date(),
+      tags: [],
+      source: {},
+      missing: null,
+    }),
+    {
+      page: "number",
+      draft: "boolean",
+      title: "string",
+      publishedAt: "date",
+      tags: "string[]",
+      source: "json",
+    },
+  );
+});
+
+interface FieldLike {
+  name: string;
+  type: { typeId: number; children?: FieldLike[] };
+}
+
+const field = (name: string, typeId: number, children?: FieldLike[]): FieldLike => ({
+  name,
+  type: { typeId, children },
+});
+
+Deno.test("metadataSchemaFromArrow reads local struct and Cloud column types", () => {
+  const metadataFields = [
+    field("page", Type.Float),
+    field("draft", Type.Bool),
+    field("title", Type.Utf8),
+    field("publishedAt", Type.Timestamp),
+    field("tags", Type.List, [field("item", Type.Utf8)]),
+    field("nested", Type.Struct, [field("level", Type.Int)]),
+  ];
+  const expected: MetadataSchema = {
+    page: "number",
+    draft: "boolean",
+    title: "string",
+    publishedAt: "date",
+    tags: "string[]",
+  };
+
+  const localFields = [
+    field("id", Type.Utf8),
+    field("metadata", Type.Struct, metadataFields),
+  ];
+  assertEquals(metadataSchemaFromArrow(localFields, false), expected);
+  assertEquals(metadataFieldNamesFromArrow(localFields, false), [
+    "page",
+    "draft",
+    "title",
+    "publishedAt",
+    "tags",
+    "nested",
+  ]);
+
+  const cloudFields = [
+    field("id", Type.Utf8),
+    field("content", Type.Utf8),
+    ...metadataFields.map((item) => ({ ...item, name: `meta_${item.name}` })),
+  ];
+  assertEquals(metadataSchemaFromArrow(cloudFields, true), expected);
+  assertEquals(metadataFieldNamesFromArrow(cloudFields, true).length, 6);
+});
@@ -0,0 +1,49 @@
+// Keyset cursors for VectorStore.listDocuments
+import { createValidationError } from "../utils/errors.ts";
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Compares document IDs in UTF-8 byte order, the order LanceDB SQL and Deno KV keys use.
+ *
+ * Plain `<` compares UTF-16 code units, which puts astral characters (surrogate pairs)
+ * before U+E000..U+FFFF; shifting those ranges fixes that.
+ */
+export function compareIds(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = a.charCodeAt(i);
+    const y = b.charCodeAt(i);
+    if (x !== y) return byteOrder(x) - byteOrder(y);
+  }
+  return a.length - b.length;
+}
+
+const byteOrder = (code: number): number =>
+  code >= 0xd800 && code <= 0xdfff ? code + 0x2000 : code >= 0xe000 ? code - 0x800 : code;
+
+/**
+ * Encodes the last document ID of a page as an opaque listDocuments cursor
+ */
+export function encodeKeysetCursor(lastId: string): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ after: lastId }));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decodes a cursor created by encodeKeysetCursor
+ *
+ * @returns The ID the next page starts after (undefined = first page)
+ * @throws AppError (VALIDATION_ERROR) if the cursor is malformed
+ */
+export function decodeKeysetCursor(cursor?: string): string | undefined {
+  if (!cursor) return undefined;
+  try {
+    const bytes = Uint8Array.from(atob(cursor), (char) => char.charCodeAt(0));
+    const { after } = JSON.parse(new TextDecoder().decode(bytes)) as { after: unknown };
+    if (typeof after === "string") return after;
+  } catch {
+    // Fall through to the validation error
+  }
+  throw createValidationError("Invalid listDocuments cursor", { cursor });
+}
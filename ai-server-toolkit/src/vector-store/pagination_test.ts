@@ -0,0 +1,24 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { compareIds, decodeKeysetCursor, encodeKeysetCursor } from "./pagination.ts";
+
+Deno.test("compareIds sorts in UTF-8 byte order", () => {
+  const ids = ["b", "\u{1F525}", "a10", "Ａ", "a", "a2"];
+
+  // The astral emoji (4 UTF-8 bytes from 0xF0) sorts after the fullwidth letter (0xEF)
+  assertEquals(ids.sort(compareIds), ["a", "a10", "a2", "b", "Ａ", "\u{1F525}"]);
+  assertEquals(compareIds("same", "same"), 0);
+});
+
+Deno.test("keyset cursors round-trip any ID and reject malformed input", () => {
+  for (const id of ["doc-1", "ülevaade", "\u{1F525}", ""]) {
+    assertEquals(decodeKeysetCursor(encodeKeysetCursor(id)), id);
+  }
+  assertEquals(decodeKeysetCursor(undefined), undefined);
+
+  assertThrows(() => decodeKeysetCursor("not base64!"), Error, "Invalid listDocuments cursor");
+  assertThrows(
+    () => decodeKeysetCursor(btoa('{"offset":10}')),
+    Error,
+    "Invalid listDocuments cursor",
+  );
+});
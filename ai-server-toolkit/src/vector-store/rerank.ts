@@ -0,0 +1,327 @@
+// Post-retrieval stage for search results: chunk dedupe, MMR diversification and reranking
+import type { LLMModel, Reranker, SearchOptions, SearchResult } from "../types.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { scoreFunctions } from "./distance.ts";
+
+const logger = createSubLogger("rerank");
+
+const DEFAULT_SEARCH_LIMIT = 10;
+// Candidates retrieved per requested result when a post-retrieval step is enabled
+const CANDIDATE_FACTOR = 4;
+const DEFAULT_MMR_LAMBDA = 0.5;
+const DEFAULT_CHUNK_ADJACENCY = 1;
+const DEFAULT_RERANK_BATCH_SIZE = 20;
+const DEFAULT_RERANK_PASSAGE_CHARS = 1000;
+const DEFAULT_RERANK_CONCURRENCY = 4;
+
+/**
+ * Options for createLLMReranker
+ */
+export interface LLMRerankerOptions {
+  /** Passages judged per LLM request (default: 20) */
+  batchSize?: number;
+  /** Passage text is cut to this many characters (default: 1000) */
+  maxPassageChars?: number;
+  /** Batches judged at the same time (default: 4) */
+  maxConcurrency?: number;
+  /** Extra instructions describing what makes a passage relevant */
+  instructions?: string;
+}
+
+/**
+ * Context a store passes to applyPostRetrieval
+ */
+export interface PostRetrievalContext {
+  /** Query text; reranking is skipped without it (searchByEmbedding) */
+  query?: string;
+  /** Returns the query embedding, used by MMR */
+  getQueryEmbedding: () => Promise<number[]>;
+}
+
+const getEmbedding = (result: SearchResult): number[] | undefined =>
+  Array.isArray(result.embedding) ? result.embedding as number[] : undefined;
+
+/**
+ * Drops results that repeat a better-ranked chunk of the same document.
+ *
+ * Two results are duplicates when they share `metadata.documentId` and their
+ * `metadata.chunkIndex` values are at most `adjacency` apart, which catches the
+ * overlapping neighbours produced by chunkByParagraphs. Results without a
+ * documentId are deduplicated by identical content.
+ *
+ * @param results Results ranked best first
+ * @param adjacency Maximum chunk index distance of duplicates (default: 1)
+ * @returns Results without duplicates, in the original order
+ */
+export function dedupeAdjacentChunks(
+  results: SearchResult[],
+  adjacency = DEFAULT_CHUNK_ADJACENCY,
+): SearchResult[] {
+  const keptChunks = new Map<string, number[]>();
+  const keptContent = new Set<string>();
+
+  return results.filter((result) => {
+    const documentId = result.metadata?.documentId;
+    const chunkIndex = Number(result.metadata?.chunkIndex);
+
+    if (documentId === undefined || documentId === null || Number.isNaN(chunkIndex)) {
+      if (keptContent.has(result.content)) return false;
+      keptContent.add(result.content);
+      return true;
+    }
+
+    const key = String(documentId);
+    const indices = keptChunks.get(key) || [];
+    if (indices.some((index) => Math.abs(index - chunkIndex) <= adjacency)) {
+      return false;
+    }
+    keptChunks.set(key, [...indices, chunkIndex]);
+    return true;
+  });
+}
+
+/**
+ * Reorders results by maximal marginal relevance.
+ *
+ * Each step picks the result maximizing
+ * `lambda * sim(query, doc) - (1 - lambda) * max sim(doc, selected)`, trading relevance
+ * for diversity. Results need their `embedding` (search with `includeEmbeddings`);
+ * results without one are appended after the MMR selection.
+ *
+ * @param queryEmbedding Query vector
+ * @param results Candidate results
+ * @param options `lambda` between 0 (diverse) and 1 (relevant, default: 0.5) and `limit`
+ * @returns Up to `limit` results in MMR order
+ */
+export function applyMMR(
+  queryEmbedding: number[],
+  results: SearchResult[],
+  options: { lambda?: number; limit?: number } = {},
+): SearchResult[] {
+  const lambda = options.lambda ?? DEFAULT_MMR_LAMBDA;
+  const limit = options.limit ?? results.length;
+  const cosine = scoreFunctions.cosine;
+
+  const candidates = results
+    .filter((result) => getEmbedding(result))
+    .map((result) => ({
+      result,
+      embedding: getEmbedding(result)!,
+      relevance: cosine(queryEmbedding, getEmbedding(result)!),
+      // Highest similarity to any selected result so far
+      redundancy: -Infinity,
+    }));
+  const selected: SearchResult[] = [];
+
+  while (selected.length < limit && candidates.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    candidates.forEach((candidate, i) => {
+      const redundancy = selected.length === 0 ? 0 : candidate.redundancy;
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    });
+
+    const [best] = candidates.splice(bestIndex, 1);
+    selected.push(best.result);
+    for (const candidate of candidates) {
+      candidate.redundancy = Math.max(
+        candidate.redundancy,
+        cosine(candidate.embedding, best.embedding),
+      );
+    }
+  }
+
+  const withoutEmbedding = results.filter((result) => !getEmbedding(result));
+  return [...selected, ...withoutEmbedding].slice(0, limit);
+}
+
+/**
+ * Runs the optional post-retrieval steps of a search.
+ *
+ * When `dedupe`, `mmr` or `reranker` is set, `candidateLimit` results (default: 4x
+ * `limit`) are retrieved, duplicates of adjacent chunks are dropped, MMR picks a
+ * diverse `limit`, and the reranker orders what is left (text searches only).
+ * Embeddings are fetched for MMR and removed again unless `includeEmbeddings` is set.
+ *
+ * @param options Search options
+ * @param context Query text and embedding
+ * @param retrieve Store search returning ranked candidates
+ * @returns Final results, best first
+ */
+export async function applyPostRetrieval(
+  options: SearchOptions,
+  context: PostRetrievalContext,
+  retrieve: (options: SearchOptions) => Promise<SearchResult[]>,
+): Promise<SearchResult[]> {
+  const reranker = context.query !== undefined ? options.reranker : undefined;
+  if (!options.dedupe && !options.mmr && !reranker) {
+    return await retrieve(options);
+  }
+
+  const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+  let results = await retrieve({
+    ...options,
+    limit: options.candidateLimit ?? limit * CANDIDATE_FACTOR,
+    includeEmbeddings: options.includeEmbeddings || Boolean(options.mmr),
+  });
+
+  if (options.dedupe) {
+    const adjacency = typeof options.dedupe === "object" ? options.dedupe.adjacency : undefined;
+    results = dedupeAdjacentChunks(results, adjacency);
+  }
+
+  if (options.mmr) {
+    const lambda = typeof options.mmr === "object" ? options.mmr.lambda : undefined;
+    results = applyMMR(await context.getQueryEmbedding(), results, { lambda, limit });
+  }
+
+  if (reranker) {
+    results = await reranker.rerank(context.query!, results);
+  }
+
+  return results
+    .slice(0, limit)
+    .map((result) => {
+      if (options.includeEmbeddings || !("embedding" in result)) return result;
+      const { embedding: _embedding, ...rest } = result;
+      return rest as SearchResult;
+    });
+}
+
+const buildRerankPrompt = (
+  query: string,
+  passages: string[],
+  instructions?: string,
+): string => {
+  const lines = [
+    "Rate how relevant each passage is to the search query on a scale from 0 (irrelevant) to 10 (answers the query directly).",
+  ];
+  if (instructions) lines.push(instructions);
+  lines.push(
+    `Query: ${query}`,
+    "",
+    ...passages.map((passage, i) => `[${i}] ${passage}`),
+    "",
+    'Reply with only a JSON array of objects like [{"index": 0, "score": 7}], one per passage.',
+  );
+  return lines.join("\n");
+};
+
+const parseRerankScores = (text: string, count: number): Map<number, number> | null => {
+  const start = text.indexOf("[");
+  const end = text.lastIndexOf("]");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as Array<
+      { index: number; score: number }
+    >;
+    const scores = new Map<number, number>();
+    for (const item of parsed) {
+      if (Number.isInteger(item.index) && item.index >= 0 && item.index < count) {
+        scores.set(item.index, Math.min(Math.max(Number(item.score) || 0, 0), 10));
+      }
+    }
+    return scores;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates a reranker that asks an LLM to judge the relevance of each result.
+ *
+ * Results are sent in batches, at most `maxConcurrency` at a time, each passage is
+ * scored from 0 to 10, and results are reordered by that score (reported as `score`
+ * between 0 and 1, original `score` kept as `retrievalScore`). If a request fails or
+ * its reply cannot be parsed, the batch keeps its retrieval order after the scored
+ * results, so reranking never fails a search.
+ *
+ * @param llm Any LLMModel (Claude, OpenAI, local, mock)
+ * @param options Batch size, concurrency, passage length and extra instructions
+ * @returns Reranker for SearchOptions.reranker
+ *
+ * @example
+ * ```ts
+ * const reranker = createLLMReranker(createLLM({ provider: "claude", apiKey, model: "claude-haiku-4-5" }));
+ * const results = await vectorStore.search("fire exit width", {
+ *   limit: 5,
+ *   dedupe: true,
+ *   reranker,
+ * });
+ * ```
+ */
+export function createLLMReranker(llm: LLMModel, options: LLMRerankerOptions = {}): Reranker {
+  const batchSize = options.batchSize || DEFAULT_RERANK_BATCH_SIZE;
+  const maxPassageChars = options.maxPassageChars || DEFAULT_RERANK_PASSAGE_CHARS;
+  const maxConcurrency = Math.max(1, options.maxConcurrency || DEFAULT_RERANK_CONCURRENCY);
+
+  const scoreBatch = async (
+    query: string,
+    batch: SearchResult[],
+  ): Promise<Array<number | undefined>> => {
+    const prompt = buildRerankPrompt(
+      query,
+      batch.map((result) => result.content.slice(0, maxPassageChars).replace(/\s+/g, " ")),
+      options.instructions,
+    );
+    let scores: Map<number, number> | null = null;
+    try {
+      const response = await llm.generateResponse([{ role: "user", content: prompt }]);
+      scores = parseRerankScores(response.content, batch.length);
+      if (!scores) {
+        logger.warn("Could not parse reranker reply, keeping retrieval order", {
+          passages: batch.length,
+        });
+      }
+    } catch (error) {
+      logger.warn("Reranker request failed, keeping retrieval order", {
+        passages: batch.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return batch.map((_, i) => scores?.get(i));
+  };
+
+  return {
+    async rerank(query, results) {
+      if (results.length === 0) return results;
+
+      const batches: SearchResult[][] = [];
+      for (let i = 0; i < results.length; i += batchSize) {
+        batches.push(results.slice(i, i + batchSize));
+      }
+      // Runs at most maxConcurrency batches at once, keeping scores in batch order
+      const batchScores: Array<number | undefined>[] = new Array(batches.length);
+      let next = 0;
+      const worker = async () => {
+        while (next < batches.length) {
+          const index = next++;
+          batchScores[index] = await scoreBatch(query, batches[index]);
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(maxConcurrency, batches.length) }, worker),
+      );
+      const scores = batchScores.flat();
+
+      return results
+        // Unscored passages go after the scored ones, in retrieval order
+        .map((result, rank) => ({
+          result,
+          rank,
+          score: scores[rank] ?? -1 - rank / results.length,
+        }))
+        .sort((a, b) => b.score - a.score || a.rank - b.rank)
+        .map(({ result, score }) => ({
+          ...result,
+          retrievalScore: result.score,
+          score: Math.max(score, 0) / 10,
+        }));
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { assertEquals } from "@std/assert";
+import type { SearchResult } from "../types.ts";
+import { createMockLLM } from "../testing/mock-llm.ts";
+import { applyMMR, applyPostRetrieval, createLLMReranker, dedupeAdjacentChunks } from "./rerank.ts";
+
+const result = (id: string, extra: Partial<SearchResult> = {}): SearchResult => ({
+  id,
+  content: `passage ${id}`,
+  score: 1,
+  ...extra,
+});
+
+// Scores the passages of a rerank prompt by the number in their text ("passage 3" -> 3)
+const scoreByPassageNumber = (prompt: string) => ({
+  text: JSON.stringify(
+    [...prompt.matchAll(/^\[(\d+)\] passage (\d+)$/gm)].map(([, index, number]) => ({
+      index: Number(index),
+      score: Number(number),
+    })),
+  ),
+});
+
+Deno.test("dedupeAdjacentChunks drops neighbours of better chunks and repeated content", () => {
+  const chunk = (id: string, documentId: string, chunkIndex: number) =>
+    result(id, { metadata: { documentId, chunkIndex } });
+
+  const kept = dedupeAdjacentChunks([
+    chunk("a", "doc", 4),
+    chunk("b", "doc", 5),
+    chunk("c", "doc", 7),
+    chunk("d", "other", 5),
+    result("e", { content: "same" }),
+    result("f", { content: "same" }),
+  ]);
+
+  assertEquals(kept.map((r) => r.id), ["a", "c", "d", "e"]);
+});
+
+Deno.test("applyMMR trades relevance for diversity", () => {
+  const results = [
+    result("near", { embedding: [1, 0.1] }),
+    result("near-copy", { embedding: [1, 0.11] }),
+    result("different", { embedding: [0.6, 0.8] }),
+    result("no-embedding"),
+  ];
+
+  assertEquals(applyMMR([1, 0], results, { lambda: 0.3 }).map((r) => r.id), [
+    "near",
+    "different",
+    "near-copy",
+    "no-embedding",
+  ]);
+  assertEquals(applyMMR([1, 0], results, { lambda: 1, limit: 2 }).map((r) => r.id), [
+    "near",
+    "near-copy",
+  ]);
+});
+
+Deno.test("applyPostRetrieval widens retrieval and strips embeddings it fetched", async () => {
+  const requested: Array<[number | undefined, boolean | undefined]> = [];
+  const results = await applyPostRetrieval(
+    { limit: 2, mmr: { lambda: 0.3 } },
+    { query: "q", getQueryEmbedding: () => Promise.resolve([1, 0]) },
+    (options) => {
+      requested.push([options.limit, options.includeEmbeddings]);
+      return Promise.resolve([
+        result("a", { embedding: [1, 0] }),
+        result("b", { embedding: [1, 0.01] }),
+        result("c", { embedding: [0, 1] }),
+      ]);
+    },
+  );
+
+  assertEquals(requested, [[8, true]]);
+  assertEquals(results.map((r) => r.id), ["a", "c"]);
+  assertEquals(results.map((r) => "embedding" in r), [false, false]);
+});
+
+Deno.test("createLLMReranker orders results by the LLM's relevance scores", async () => {
+  const llm = createMockLLM({
+    fallback: (call) => scoreByPassageNumber(String(call.messages[0].content)),
+  });
+  const reranker = createLLMReranker(llm, { batchSize: 2 });
+
+  const reranked = await reranker.rerank("q", ["1", "3", "2"].map((id) => result(id)));
+
+  assertEquals(reranked.map((r) => [r.id, r.score, r.retrievalScore]), [
+    ["3", 0.3, 1],
+    ["2", 0.2, 1],
+    ["1", 0.1, 1],
+  ]);
+  assertEquals(llm.calls.length, 2);
+});
+
+Deno.test("createLLMReranker bounds the number of batches in flight", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const llm = createMockLLM({
+    fallback: async (call) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return scoreByPassageNumber(String(call.messages[0].content));
+    },
+  });
+  const reranker = createLLMReranker(llm, { batchSize: 1, maxConcurrency: 2 });
+
+  const reranked = await reranker.rerank("q", ["1", "5", "2", "4", "3"].map((id) => result(id)));
+
+  assertEquals(maxInFlight, 2);
+  assertEquals(llm.calls.length, 5);
+  assertEquals(reranked.map((r) => r.id), ["5", "4", "3", "2", "1"]);
+});
+
+Deno.test("createLLMReranker keeps the retrieval order of failed or unparsable batches", async () => {
+  const llm = createMockLLM({
+    responses: [
+      { error: new Error("overloaded") },
+      (call) => scoreByPassageNumber(String(call.messages[0].content)),
+      { text: "I cannot rate these." },
+    ],
+  });
+  const reranker = createLLMReranker(llm, { batchSize: 2, maxConcurrency: 1 });
+
+  const reranked = await reranker.rerank(
+    "q",
+    ["a", "b", "1", "2", "c", "d"].map((id) => result(id)),
+  );
+
+  // The scored batch comes first, failed batches follow in retrieval order
+  assertEquals(reranked.map((r) => r.id), ["2", "1", "a", "b", "c", "d"]);
+  assertEquals(reranked.slice(2).map((r) => r.score), [0, 0, 0, 0]);
+});
@@ -1,19 +1,99 @@
 import type { LanceDBState } from "./lancedb.ts";
-import type { VectorDocument, VectorStore } from "../types.ts";
-import type { Connection } from "vectordb";
-
-// Internal LanceDB state with additional properties
-interface LanceDBInternalState extends VectorStore {
-  dimensions: number;
-  isCloud: boolean;
-  connection: Connection;
-}
+import type { VectorDocument } from "../types.ts";
 import type { BaseDocumentMetadata } from "./schemas.ts";
-import { listWorkspaceTables } from "./lancedb.ts";
+import type { WorkspaceKVState } from "../workspace/types.ts";
+import {
+  declareMetadataSchema,
+  listTableMetadataFields,
+  listWorkspaceTables,
+  replaceTable,
+} from "./lancedb.ts";
+import { inferMetadataSchema, type MetadataSchema } from "./metadata-codec.ts";
+import { createValidationError } from "../utils/errors.ts";
 import { createSubLogger } from "../utils/logger.ts";
 
 const logger = createSubLogger("schema-registry");
 
+const DEFAULT_MIGRATION_BATCH_SIZE = 500;
+
+/**
+ * Migration of a registered table to a schema version.
+ *
+ * Every row is rewritten in this order: missing `addFields` get their default, then
+ * `transformMetadata` runs, then the row is re-embedded if `reembed` is set.
+ */
+export interface TableMigration {
+  /** Schema version the table has after this migration */
+  version: string;
+  description?: string;
+  /** New metadata fields and the value existing rows get */
+  addFields?: Record<string, unknown>;
+  /** Rewrites the metadata of every row (also drop removed fields here) */
+  transformMetadata?: (
+    metadata: Record<string, unknown>,
+    document: VectorDocument,
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
+  /** Re-embeds every row, e.g. after a change of the embedding model */
+  reembed?: boolean;
+}
+
+/**
+ * Progress of an unfinished table migration, checkpointed in KV after every batch
+ */
+export interface TableMigrationProgress {
+  /** "backup": rows are copied to the backup table; "restore": rows are migrated back */
+  phase: "backup" | "restore";
+  fromVersion?: string;
+  toVersion?: string;
+  backupTable: string;
+  cursor?: string;
+  /** Rows copied to the backup table */
+  backedUp: number;
+  /** Rows migrated back into the table */
+  migrated: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Schema record of a workspace table, stored in KV
+ */
+export interface TableSchemaRecord {
+  workspaceId: string;
+  tableKey: string;
+  tableName: string;
+  /** Applied schema version (undefined for tables created before versioning) */
+  schemaVersion?: string;
+  updatedAt: string;
+  migration?: TableMigrationProgress;
+}
+
+/**
+ * Schema state of a workspace table compared with its registration
+ */
+export interface TableSchemaStatus {
+  tableName: string;
+  exists: boolean;
+  appliedVersion?: string;
+  targetVersion?: string;
+  /** Versions of the migrations migrateTable would run, in order */
+  pendingMigrations: string[];
+  /** Sample metadata fields the live table has no column for */
+  missingFields: string[];
+  /** Progress of an interrupted migration */
+  migration?: TableMigrationProgress;
+  upToDate: boolean;
+}
+
+/**
+ * Options for WorkspaceTableRegistry.migrateTable
+ */
+export interface MigrateTableOptions {
+  /** Rows per batch and checkpoint (default: 500) */
+  batchSize?: number;
+  onProgress?: (progress: TableMigrationProgress) => void;
+}
+
 /**
  * Configuration for a workspace table with typed metadata schema
  * Defines how a table should be named and what metadata structure it uses
@@ -23,10 +103,17 @@ export interface TableConfig<TMetadata extends BaseDocumentMetadata> {
   tableName: string | ((workspaceId: string) => string);
   /** Function to create sample metadata for table initialization */
   createSampleMetadata: (workspaceId: string) => TMetadata;
+  /**
+   * Metadata field types, kept on local and Cloud LanceDB tables alike
+   * (default: inferred from the sample metadata; declare `date` and `json` fields here)
+   */
+  metadataSchema?: MetadataSchema;
   /** Optional description of the table's purpose */
   description?: string;
-  /** Optional schema version for migration tracking */
+  /** Current schema version, stored per workspace table (default: the last migration's) */
   schemaVersion?: string;
+  /** Migrations to the current version, oldest first */
+  migrations?: TableMigration[];
 }
 
 /**
@@ -49,49 +136,135 @@ export interface WorkspaceTableRegistry {
     workspaceId: string,
     tableKey: string,
   ) => Promise<void>;
-  /** Recreate a table (drops and recreates with new schema) */
+  /** Recreate a table (drops all rows and recreates it with the current schema) */
   recreateTable: (
     vectorStore: LanceDBState,
     workspaceId: string,
     tableKey: string,
   ) => Promise<void>;
+  /** Compare a table with its registration (needs `kvState`) */
+  getSchemaStatus: (
+    vectorStore: LanceDBState,
+    workspaceId: string,
+    tableKey: string,
+  ) => Promise<TableSchemaStatus>;
+  /** Bring a table to the current schema version, keeping its rows (needs `kvState`) */
+  migrateTable: (
+    vectorStore: LanceDBState,
+    workspaceId: string,
+    tableKey: string,
+    options?: MigrateTableOptions,
+  ) => Promise<TableSchemaStatus>;
+}
+
+/**
+ * Options for createWorkspaceTableRegistry
+ */
+export interface WorkspaceTableRegistryOptions {
+  /** KV store for applied schema versions and migration progress */
+  kvState?: WorkspaceKVState;
 }
 
+/**
+ * Compare dotted schema versions ("1.2.0" < "1.10.0"); non-numeric parts compare as text
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const partsA = a.split(".");
+  const partsB = b.split(".");
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? "0";
+    const partB = partsB[i] ?? "0";
+    const diff = /^\d+$/.test(partA) && /^\d+$/.test(partB)
+      ? Number(partA) - Number(partB)
+      : partA.localeCompare(partB);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+const schemaRecordKey = (workspaceId: string, tableKey: string): Deno.KvKey => [
+  "workspaces",
+  workspaceId,
+  "table_schemas",
+  tableKey,
+];
+
+const targetVersionOf = (config: TableConfig<BaseDocumentMetadata>): string | undefined =>
+  config.schemaVersion ?? config.migrations?.at(-1)?.version;
+
+// Migrations after the applied version (all of them for unversioned tables)
+const pendingMigrationsOf = (
+  config: TableConfig<BaseDocumentMetadata>,
+  appliedVersion?: string,
+): TableMigration[] =>
+  (config.migrations || []).filter((migration) =>
+    appliedVersion === undefined || compareSchemaVersions(migration.version, appliedVersion) > 0
+  );
+
+const validateMigrations = (tableKey: string, config: TableConfig<BaseDocumentMetadata>) => {
+  const migrations = config.migrations || [];
+  const targetVersion = targetVersionOf(config);
+  migrations.forEach((migration, i) => {
+    if (i > 0 && compareSchemaVersions(migrations[i - 1].version, migration.version) >= 0) {
+      throw createValidationError("Table migrations must have ascending versions", {
+        tableKey,
+        version: migration.version,
+      });
+    }
+    if (targetVersion && compareSchemaVersions(migration.version, targetVersion) > 0) {
+      throw createValidationError("Table migration is newer than the schema version", {
+        tableKey,
+        version: migration.version,
+        schemaVersion: targetVersion,
+      });
+    }
+  });
+};
+
+const resolveTableName = (
+  config: TableConfig<BaseDocumentMetadata>,
+  workspaceId: string,
+): string =>
+  typeof config.tableName === "function" ? config.tableName(workspaceId) : config.tableName;
+
+// Declares the table's metadata types to the store, so reads and writes use them
+const declareTableSchema = (
+  config: TableConfig<BaseDocumentMetadata>,
+  vectorStore: LanceDBState,
+  workspaceId: string,
+): string => {
+  const tableName = resolveTableName(config, workspaceId);
+  const schema = {
+    ...inferMetadataSchema(config.createSampleMetadata(workspaceId)),
+    ...config.metadataSchema,
+  };
+  declareMetadataSchema(vectorStore, tableName, schema);
+  return tableName;
+};
+
 const initializeTable = async (
   tables: Map<string, TableConfig<BaseDocumentMetadata>>,
   vectorStore: LanceDBState,
   workspaceId: string,
   tableKey: string,
+  replace = false,
 ): Promise<void> => {
   const config = tables.get(tableKey);
   if (!config) {
     throw new Error(`Table configuration '${tableKey}' not found in registry`);
   }
 
-  const tableName = typeof config.tableName === "function"
-    ? config.tableName(workspaceId)
-    : config.tableName;
-
+  const tableName = declareTableSchema(config, vectorStore, workspaceId);
   const sampleMetadata = config.createSampleMetadata(workspaceId);
 
-  // Try to access internal state for dimensions and isCloud
-  // If not available, use defaults (1536 dimensions, assume local)
-  const internalState = vectorStore as unknown as LanceDBInternalState;
-  const dimensions = internalState?.dimensions || 1536;
-  const isCloud = internalState?.isCloud || false;
-
   // Create a schema definition document used to initialize the table structure
-  // LanceDB requires a sample record to infer the table schema (columns/types)
+  // LanceDB requires a sample record to infer the table schema (columns/types);
+  // the store's metadata codec lays it out for the local or Cloud layout
   // This document is temporary and will be deleted after table creation
   const schemaDefinitionDocument: VectorDocument = {
     id: "_init_",
     content: "initialization",
-    embedding: new Array(dimensions).fill(0),
-    metadata: isCloud
-      ? Object.fromEntries(
-        Object.entries(sampleMetadata).map(([k, v]) => [`meta_${k}`, v]),
-      )
-      : sampleMetadata,
+    metadata: sampleMetadata,
   };
 
   logger.debug("Creating table with schema definition document", {
@@ -100,14 +273,16 @@ const initializeTable = async (
     tableKey,
     hasMetadata: !!sampleMetadata,
     metadataKeys: Object.keys(sampleMetadata),
-    dimensions,
-    isCloud,
   });
 
   // Use VectorStore interface method to create table with schema definition
   // The schemaDefinitionDocument defines the table structure (columns, types)
   try {
-    await vectorStore.createTable(tableName, schemaDefinitionDocument);
+    if (replace) {
+      await replaceTable(vectorStore, tableName, schemaDefinitionDocument);
+    } else {
+      await vectorStore.createTable(tableName, schemaDefinitionDocument);
+    }
     logger.info("Table created successfully with schema definition", { tableName });
   } catch (error) {
     logger.error("Failed to create table with schema definition document", {
@@ -137,9 +312,21 @@ const initializeTable = async (
  * Create a new workspace table registry
  * Allows registering multiple table types with different metadata schemas
  *
+ * With a `kvState`, the applied schema version of every workspace table is stored in
+ * KV. getSchemaStatus compares a table with its registration (pending migrations and
+ * sample metadata fields the live LanceDB table has no column for), and migrateTable
+ * brings it up to date without losing rows: it copies the rows to a backup table,
+ * recreates the table from the current sample metadata and migrates the rows back
+ * through the pending migrations in order. Progress is checkpointed in KV after every
+ * batch, so an interrupted migration continues when migrateTable is called again.
+ * Pause writes to the table while it migrates.
+ *
+ * @param options KV store for schema versions
+ * @returns Workspace table registry
+ *
  * @example
  * ```typescript
- * const registry = createWorkspaceTableRegistry();
+ * const registry = createWorkspaceTableRegistry({ kvState: kvStore });
  *
  * // Register a documents table
  * registry.registerTable<DocumentMetadata>("documents", {
@@ -147,21 +334,295 @@ const initializeTable = async (
  *   createSampleMetadata: (workspaceId) => ({
  *     ...createBaseDocumentMetadata("_init", "_init", 0, 1, workspaceId),
  *     category: "",
+ *     language: "",
  *   }),
+ *   schemaVersion: "2",
+ *   migrations: [{ version: "2", addFields: { language: "en" } }],
  * });
  *
- * // Ensure table exists
+ * // Ensure table exists, then migrate it if its schema is behind
  * await registry.ensureTable(vectorStore, "workspace-123", "documents");
+ * const status = await registry.getSchemaStatus(vectorStore, "workspace-123", "documents");
+ * if (!status.upToDate) {
+ *   await registry.migrateTable(vectorStore, "workspace-123", "documents", {
+ *     onProgress: (p) => console.log(p.phase, p.backedUp, p.migrated),
+ *   });
+ * }
  * ```
  */
-export const createWorkspaceTableRegistry = (): WorkspaceTableRegistry => {
+export const createWorkspaceTableRegistry = (
+  options: WorkspaceTableRegistryOptions = {},
+): WorkspaceTableRegistry => {
   const tables = new Map<string, TableConfig<BaseDocumentMetadata>>();
+  const { kvState } = options;
+
+  const getConfig = (tableKey: string): TableConfig<BaseDocumentMetadata> => {
+    const config = tables.get(tableKey);
+    if (!config) {
+      throw new Error(`Table configuration '${tableKey}' not found in registry`);
+    }
+    return config;
+  };
+
+  const requireKV = (): Deno.Kv => {
+    if (!kvState) {
+      throw createValidationError("Schema versioning needs a registry created with a kvState");
+    }
+    return kvState.kv;
+  };
+
+  const recordVersion = async (
+    workspaceId: string,
+    tableKey: string,
+    tableName: string,
+  ): Promise<void> => {
+    if (!kvState) return;
+    const record: TableSchemaRecord = {
+      workspaceId,
+      tableKey,
+      tableName,
+      schemaVersion: targetVersionOf(getConfig(tableKey)),
+      updatedAt: new Date().toISOString(),
+    };
+    await kvState.kv.set(schemaRecordKey(workspaceId, tableKey), record);
+  };
+
+  const getSchemaStatus = async (
+    vectorStore: LanceDBState,
+    workspaceId: string,
+    tableKey: string,
+  ): Promise<TableSchemaStatus> => {
+    const kv = requireKV();
+    const config = getConfig(tableKey);
+    const tableName = declareTableSchema(config, vectorStore, workspaceId);
+    const record = (await kv.get<TableSchemaRecord>(schemaRecordKey(workspaceId, tableKey))).value;
+    const exists = (await vectorStore.listTables()).includes(tableName);
+    const targetVersion = targetVersionOf(config);
+
+    let missingFields: string[] = [];
+    const liveFields = exists ? await listTableMetadataFields(vectorStore, tableName) : null;
+    if (liveFields) {
+      missingFields = Object.keys(config.createSampleMetadata(workspaceId))
+        .filter((field) => !liveFields.includes(field));
+    }
+    const pendingMigrations = exists
+      ? pendingMigrationsOf(config, record?.schemaVersion).map((migration) => migration.version)
+      : [];
+
+    return {
+      tableName,
+      exists,
+      appliedVersion: record?.schemaVersion,
+      targetVersion,
+      pendingMigrations,
+      missingFields,
+      migration: record?.migration,
+      upToDate: exists && !record?.migration && pendingMigrations.length === 0 &&
+        missingFields.length === 0 && record?.schemaVersion === targetVersion,
+    };
+  };
+
+  const migrateTable = async (
+    vectorStore: LanceDBState,
+    workspaceId: string,
+    tableKey: string,
+    migrateOptions: MigrateTableOptions = {},
+  ): Promise<TableSchemaStatus> => {
+    const kv = requireKV();
+    const config = getConfig(tableKey);
+    const status = await getSchemaStatus(vectorStore, workspaceId, tableKey);
+    const { tableName } = status;
+    if (status.upToDate) return status;
+
+    if (!status.exists && !status.migration) {
+      await initializeTable(tables, vectorStore, workspaceId, tableKey);
+      await recordVersion(workspaceId, tableKey, tableName);
+      return await getSchemaStatus(vectorStore, workspaceId, tableKey);
+    }
+
+    const migrations = pendingMigrationsOf(config, status.appliedVersion);
+    if (migrations.length === 0 && status.missingFields.length === 0 && !status.migration) {
+      await recordVersion(workspaceId, tableKey, tableName);
+      logger.info("Recorded table schema version", { tableName, version: status.targetVersion });
+      return await getSchemaStatus(vectorStore, workspaceId, tableKey);
+    }
+
+    // Every change is checkpointed; a concurrent migration fails the versionstamp check
+    const key = schemaRecordKey(workspaceId, tableKey);
+    const entry = await kv.get<TableSchemaRecord>(key);
+    let versionstamp = entry.versionstamp;
+    const baseRecord: TableSchemaRecord = entry.value ||
+      { workspaceId, tableKey, tableName, updatedAt: new Date().toISOString() };
+    const save = async (record: TableSchemaRecord): Promise<void> => {
+      const result = await kv.atomic().check({ key, versionstamp }).set(key, record).commit();
+      if (!result.ok) {
+        throw new Error(`Schema record of table '${tableName}' changed concurrently`);
+      }
+      versionstamp = result.versionstamp;
+      if (record.migration) migrateOptions.onProgress?.(record.migration);
+    };
+    const batchSize = migrateOptions.batchSize || DEFAULT_MIGRATION_BATCH_SIZE;
+    const now = () => new Date().toISOString();
+
+    let progress = status.migration;
+    if (!progress) {
+      const backupTable = `${tableName}_schema_backup`;
+      // A backup left by a finished migration is stale
+      if ((await vectorStore.listTables()).includes(backupTable)) {
+        await vectorStore.deleteTable(backupTable);
+      }
+      const { documents } = await vectorStore.listDocuments(
+        { limit: 1, includeEmbeddings: true },
+        tableName,
+      );
+      // An empty table has no rows to keep, so it is recreated without a backup
+      if (documents.length === 0) {
+        await initializeTable(tables, vectorStore, workspaceId, tableKey, true);
+        await recordVersion(workspaceId, tableKey, tableName);
+        logger.info("Recreated empty table with the current schema", {
+          tableName,
+          version: status.targetVersion,
+        });
+        return await getSchemaStatus(vectorStore, workspaceId, tableKey);
+      }
+      // The backup gets the columns of the current table
+      await vectorStore.createTable(backupTable, documents[0]);
+      progress = {
+        phase: "backup",
+        fromVersion: status.appliedVersion,
+        toVersion: status.targetVersion,
+        backupTable,
+        backedUp: 0,
+        migrated: 0,
+        startedAt: now(),
+        updatedAt: now(),
+      };
+      await save({ ...baseRecord, updatedAt: now(), migration: progress });
+      logger.info("Started table migration", {
+        tableName,
+        fromVersion: progress.fromVersion,
+        toVersion: progress.toVersion,
+        migrations: migrations.map((migration) => migration.version),
+      });
+    }
+
+    // Rows must name every column of a LanceDB table; columns they have no value for stay empty
+    const fillColumns = (doc: VectorDocument, fields: string[]): VectorDocument => {
+      const metadata = { ...doc.metadata };
+      for (const field of fields) {
+        if (!(field in metadata)) metadata[field] = null;
+      }
+      return { ...doc, metadata };
+    };
+
+    const backupFields = progress.phase === "backup"
+      ? await listTableMetadataFields(vectorStore, progress.backupTable) || []
+      : [];
+    while (progress.phase === "backup") {
+      const page = await vectorStore.listDocuments(
+        { limit: batchSize, cursor: progress.cursor, includeEmbeddings: true },
+        tableName,
+      );
+      if (page.documents.length > 0) {
+        await vectorStore.upsertDocuments(
+          page.documents.map((doc) => fillColumns(doc, backupFields)),
+          progress.backupTable,
+        );
+      }
+      progress = {
+        ...progress,
+        phase: page.nextCursor ? "backup" : "restore",
+        cursor: page.nextCursor,
+        backedUp: progress.backedUp + page.documents.length,
+        updatedAt: now(),
+      };
+      await save({ ...baseRecord, updatedAt: now(), migration: progress });
+    }
+
+    // Recreate the table from the current sample metadata once the backup is complete
+    if (progress.migrated === 0 && !progress.cursor) {
+      if ((await vectorStore.listTables()).includes(tableName)) {
+        const [rows, backedUp] = await Promise.all([
+          vectorStore.countWhere(undefined, tableName),
+          vectorStore.countWhere(undefined, progress.backupTable),
+        ]);
+        if (backedUp < rows) {
+          throw new Error(
+            `Backup of table '${tableName}' is incomplete (${backedUp}/${rows} rows)`,
+          );
+        }
+      }
+      await initializeTable(tables, vectorStore, workspaceId, tableKey, true);
+    }
+
+    const liveFields = await listTableMetadataFields(vectorStore, tableName) || [];
+    const reembed = migrations.some((migration) => migration.reembed);
+    const migrateDocument = async (doc: VectorDocument): Promise<VectorDocument> => {
+      let metadata = { ...doc.metadata };
+      for (const migration of migrations) {
+        for (const [field, value] of Object.entries(migration.addFields || {})) {
+          if (metadata[field] === undefined || metadata[field] === null) metadata[field] = value;
+        }
+        if (migration.transformMetadata) {
+          metadata = await migration.transformMetadata(metadata, doc);
+        }
+      }
+      return fillColumns({
+        id: doc.id,
+        content: doc.content,
+        metadata,
+        ...(reembed ? {} : { embedding: doc.embedding }),
+      }, liveFields);
+    };
+
+    while (progress.phase === "restore") {
+      const page = await vectorStore.listDocuments(
+        { limit: batchSize, cursor: progress.cursor, includeEmbeddings: true },
+        progress.backupTable,
+      );
+      const documents = await Promise.all(page.documents.map(migrateDocument));
+      if (documents.length > 0) {
+        await vectorStore.upsertDocuments(documents, tableName);
+      }
+      progress = {
+        ...progress,
+        cursor: page.nextCursor,
+        migrated: progress.migrated + documents.length,
+        updatedAt: now(),
+      };
+
+      if (page.nextCursor) {
+        await save({ ...baseRecord, updatedAt: now(), migration: progress });
+        continue;
+      }
+
+      migrateOptions.onProgress?.(progress);
+      await save({
+        workspaceId,
+        tableKey,
+        tableName,
+        schemaVersion: status.targetVersion,
+        updatedAt: now(),
+      });
+      await vectorStore.deleteTable(progress.backupTable);
+      logger.info("Migrated table schema", {
+        tableName,
+        fromVersion: progress.fromVersion,
+        toVersion: progress.toVersion,
+        rows: progress.migrated,
+      });
+      break;
+    }
+
+    return await getSchemaStatus(vectorStore, workspaceId, tableKey);
+  };
 
   return {
     registerTable: <TMetadata extends BaseDocumentMetadata>(
       tableKey: string,
       config: TableConfig<TMetadata>,
     ) => {
+      validateMigrations(tableKey, config as TableConfig<BaseDocumentMetadata>);
       tables.set(tableKey, config as TableConfig<BaseDocumentMetadata>);
     },
 
@@ -178,14 +639,8 @@ export const createWorkspaceTableRegistry = (): WorkspaceTableRegistry => {
       workspaceId: string,
       tableKey: string,
     ) => {
-      const config = tables.get(tableKey);
-      if (!config) {
-        throw new Error(`Table configuration '${tableKey}' not found in registry`);
-      }
-
-      const tableName = typeof config.tableName === "function"
-        ? config.tableName(workspaceId)
-        : config.tableName;
+      const config = getConfig(tableKey);
+      const tableName = declareTableSchema(config, vectorStore, workspaceId);
 
       // Try to check if table exists, but if listing fails, attempt to create anyway
       let tableExists = false;
@@ -204,6 +659,22 @@ export const createWorkspaceTableRegistry = (): WorkspaceTableRegistry => {
 
       if (!tableExists) {
         await initializeTable(tables, vectorStore, workspaceId, tableKey);
+        await recordVersion(workspaceId, tableKey, tableName);
+        return;
+      }
+
+      if (kvState) {
+        const record = await kvState.kv.get<TableSchemaRecord>(
+          schemaRecordKey(workspaceId, tableKey),
+        );
+        const targetVersion = targetVersionOf(config);
+        if (record.value?.migration || record.value?.schemaVersion !== targetVersion) {
+          logger.warn("Table schema is behind its registration, run migrateTable", {
+            tableName,
+            appliedVersion: record.value?.schemaVersion,
+            targetVersion,
+          });
+        }
       }
     },
 
@@ -212,28 +683,13 @@ export const createWorkspaceTableRegistry = (): WorkspaceTableRegistry => {
       workspaceId: string,
       tableKey: string,
     ) => {
-      const config = tables.get(tableKey);
-      if (!config) {
-        throw new Error(`Table configuration '${tableKey}' not found in registry`);
-      }
-
-      const tableName = typeof config.tableName === "function"
-        ? config.tableName(workspaceId)
-        : config.tableName;
-
-      // Cast to internal state to access LanceDB-specific properties
-      const internalState = vectorStore as unknown as LanceDBInternalState;
-      try {
-        await internalState.connection.dropTable(tableName);
-      } catch (error) {
-        // Table might not exist, continue
-        logger.debug("Table might not exist (expected)", {
-          tableName,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-
-      await initializeTable(tables, vectorStore, workspaceId, tableKey);
+      const tableName = resolveTableName(getConfig(tableKey), workspaceId);
+      await initializeTable(tables, vectorStore, workspaceId, tableKey, true);
+      logger.warn("Recreated table, dropping its rows", { tableName });
+      await recordVersion(workspaceId, tableKey, tableName);
     },
+
+    getSchemaStatus,
+    migrateTable,
   };
 };
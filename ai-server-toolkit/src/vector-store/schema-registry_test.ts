@@ -0,0 +1,228 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createWorkspaceKV } from "../workspace/kv-store.ts";
+import type { WorkspaceKVState } from "../workspace/types.ts";
+import { createLanceDB, type LanceDBVectorStore } from "./lancedb.ts";
+import { type BaseDocumentMetadata, createBaseDocumentMetadata } from "./schemas.ts";
+import {
+  compareSchemaVersions,
+  createWorkspaceTableRegistry,
+  type TableConfig,
+  type WorkspaceTableRegistry,
+} from "./schema-registry.ts";
+
+const DIMENSIONS = 16;
+const WORKSPACE = "ws1";
+const TABLE = "workspace_ws1_docs";
+
+type DocsMetadata = BaseDocumentMetadata & { category: string };
+
+const version1: TableConfig<DocsMetadata> = {
+  tableName: (workspaceId) => `workspace_${workspaceId}_docs`,
+  createSampleMetadata: (workspaceId) => ({
+    ...createBaseDocumentMetadata("_init", "_init", 0, 1, workspaceId),
+    category: "",
+  }),
+  schemaVersion: "1",
+};
+
+// Version 2 adds a language column and lower-cases categories
+const version2: TableConfig<DocsMetadata & { language: string }> = {
+  ...version1,
+  createSampleMetadata: (workspaceId) => ({
+    ...version1.createSampleMetadata(workspaceId),
+    language: "",
+  }),
+  schemaVersion: "2",
+  migrations: [{
+    version: "2",
+    addFields: { language: "en" },
+    transformMetadata: (metadata) => ({
+      ...metadata,
+      category: String(metadata.category).toLowerCase(),
+    }),
+  }],
+};
+
+const chunk = (i: number) => ({
+  id: `chunk-${i}`,
+  content: `chunk ${i}`,
+  metadata: {
+    ...createBaseDocumentMetadata("doc", "Doc", i, 5, WORKSPACE),
+    category: i % 2 ? "Fire" : "Parking",
+  },
+});
+
+const withRegistry = async (
+  fn: (context: {
+    store: LanceDBVectorStore;
+    kvState: WorkspaceKVState;
+    registryAt: <T extends BaseDocumentMetadata>(
+      config: TableConfig<T>,
+    ) => WorkspaceTableRegistry;
+  }) => Promise<void>,
+): Promise<void> => {
+  const path = await Deno.makeTempDir({ prefix: "schema_registry_test_" });
+  const kvState = await createWorkspaceKV({ provider: "deno-kv", path: ":memory:" });
+  try {
+    const store = await createLanceDB(
+      { provider: "lancedb", path, dimensions: DIMENSIONS },
+      createHashEmbeddings({ dimensions: DIMENSIONS }),
+    );
+    const registryAt = <T extends BaseDocumentMetadata>(config: TableConfig<T>) => {
+      const registry = createWorkspaceTableRegistry({ kvState });
+      registry.registerTable("docs", config);
+      return registry;
+    };
+    await fn({ store, kvState, registryAt });
+    // Writes build full-text indices in the background; wait for them before cleanup
+    for (const tableName of await store.listTables()) {
+      await store.createFullTextIndex(tableName);
+    }
+  } finally {
+    kvState.kv.close();
+    await Deno.remove(path, { recursive: true });
+  }
+};
+
+// A version 1 table with five rows
+const seedVersion1 = async (
+  store: LanceDBVectorStore,
+  registryAt: <T extends BaseDocumentMetadata>(config: TableConfig<T>) => WorkspaceTableRegistry,
+) => {
+  await registryAt(version1).ensureTable(store, WORKSPACE, "docs");
+  await store.addDocuments([0, 1, 2, 3, 4].map(chunk), TABLE);
+};
+
+Deno.test("getSchemaStatus reports pending migrations and missing fields", async () => {
+  await withRegistry(async ({ store, registryAt }) => {
+    await seedVersion1(store, registryAt);
+
+    const current = await registryAt(version1).getSchemaStatus(store, WORKSPACE, "docs");
+    assert(current.upToDate);
+    assertEquals(current.appliedVersion, "1");
+
+    const status = await registryAt(version2).getSchemaStatus(store, WORKSPACE, "docs");
+    assertEquals(status.exists, true);
+    assertEquals(status.appliedVersion, "1");
+    assertEquals(status.targetVersion, "2");
+    assertEquals(status.pendingMigrations, ["2"]);
+    assertEquals(status.missingFields, ["language"]);
+    assertEquals(status.upToDate, false);
+  });
+});
+
+Deno.test("migrateTable keeps rows and applies pending migrations", async () => {
+  await withRegistry(async ({ store, registryAt }) => {
+    await seedVersion1(store, registryAt);
+
+    const status = await registryAt(version2).migrateTable(store, WORKSPACE, "docs", {
+      batchSize: 2,
+    });
+    assert(status.upToDate);
+    assertEquals(status.appliedVersion, "2");
+    assertEquals(status.missingFields, []);
+    assertEquals(status.migration, undefined);
+
+    const { documents } = await store.listDocuments({}, TABLE);
+    assertEquals(
+      documents.map((doc) => [doc.id, doc.metadata?.category, doc.metadata?.language]),
+      [
+        ["chunk-0", "parking", "en"],
+        ["chunk-1", "fire", "en"],
+        ["chunk-2", "parking", "en"],
+        ["chunk-3", "fire", "en"],
+        ["chunk-4", "parking", "en"],
+      ],
+    );
+    assertEquals((await store.listTables()).includes(`${TABLE}_schema_backup`), false);
+  });
+});
+
+Deno.test("migrateTable recreates an empty table without a backup", async () => {
+  await withRegistry(async ({ store, registryAt }) => {
+    await registryAt(version1).ensureTable(store, WORKSPACE, "docs");
+    assertEquals(await store.countWhere(undefined, TABLE), 0);
+
+    const phases: string[] = [];
+    const status = await registryAt(version2).migrateTable(store, WORKSPACE, "docs", {
+      onProgress: (progress) => phases.push(progress.phase),
+    });
+    assert(status.upToDate);
+    assertEquals(status.appliedVersion, "2");
+    assertEquals(status.missingFields, []);
+    assertEquals(phases, []);
+    assertEquals((await store.listTables()).includes(`${TABLE}_schema_backup`), false);
+
+    await store.addDocuments(
+      [{ ...chunk(0), metadata: { ...chunk(0).metadata, language: "de" } }],
+      TABLE,
+    );
+    const [doc] = await store.getDocuments(["chunk-0"], TABLE);
+    assertEquals(doc.metadata?.language, "de");
+  });
+});
+
+Deno.test("migrateTable resumes an interrupted migration from its checkpoint", async () => {
+  await withRegistry(async ({ store, registryAt }) => {
+    await seedVersion1(store, registryAt);
+    const registry = registryAt(version2);
+
+    // The worker stops after the first backup batch was checkpointed
+    await assertRejects(
+      () =>
+        registry.migrateTable(store, WORKSPACE, "docs", {
+          batchSize: 2,
+          onProgress: (progress) => {
+            if (progress.backedUp > 0) throw new Error("worker stopped");
+          },
+        }),
+      Error,
+      "worker stopped",
+    );
+    const interrupted = await registry.getSchemaStatus(store, WORKSPACE, "docs");
+    assertEquals(interrupted.migration?.phase, "backup");
+    assertEquals(interrupted.migration?.backedUp, 2);
+    assertEquals(interrupted.upToDate, false);
+
+    const status = await registry.migrateTable(store, WORKSPACE, "docs", { batchSize: 2 });
+    assert(status.upToDate);
+    assertEquals(await store.countWhere(undefined, TABLE), 5);
+    const [doc] = await store.getDocuments(["chunk-3"], TABLE);
+    assertEquals(doc.metadata?.category, "fire");
+    assertEquals(doc.metadata?.language, "en");
+  });
+});
+
+Deno.test("registerTable rejects migrations out of version order", () => {
+  const registry = createWorkspaceTableRegistry();
+
+  assertThrows(
+    () =>
+      registry.registerTable("docs", {
+        ...version1,
+        schemaVersion: "3",
+        migrations: [{ version: "3" }, { version: "2" }],
+      }),
+    Error,
+    "ascending versions",
+  );
+  assertThrows(
+    () =>
+      registry.registerTable("docs", {
+        ...version1,
+        schemaVersion: "2",
+        migrations: [{ version: "2.1" }],
+      }),
+    Error,
+    "newer than the schema version",
+  );
+  assertEquals(registry.getRegisteredTables(), []);
+});
+
+Deno.test("compareSchemaVersions compares dotted versions numerically", () => {
+  assertEquals(compareSchemaVersions("1.2.0", "1.10.0"), -1);
+  assertEquals(compareSchemaVersions("2", "1.9"), 1);
+  assertEquals(compareSchemaVersions("1", "1.0.0"), 0);
+  assertEquals(compareSchemaVersions("1.0.beta", "1.0.alpha"), 1);
+});
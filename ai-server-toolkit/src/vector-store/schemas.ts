@@ -2,6 +2,9 @@
 // Ensures type safety and consistency across all table operations
 
 import type { Rule } from "../rules/types.ts";
+import type { FilterExpression } from "../types.ts";
+import { compileFilterExpression, where } from "./filter.ts";
+import { createMetadataCodec, type MetadataSchema } from "./metadata-codec.ts";
 
 /**
  * Base metadata that all documents have
@@ -82,6 +85,23 @@ export interface FileVectorMetadata extends BaseVectorMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * Field types of rule metadata, used to store it with its types on every layout
+ */
+export const RULE_METADATA_SCHEMA: MetadataSchema = {
+  ruleId: "string",
+  name: "string",
+  category: "string",
+  severity: "string",
+  enabled: "boolean",
+  schemaId: "string",
+  keywords: "string[]",
+  version: "number",
+  createdAt: "date",
+  updatedAt: "date",
+  data: "string",
+};
+
 /**
  * Create sample metadata used to initialize the rules table schema.
  * LanceDB infers column types from the first record, so this ensures
@@ -135,7 +155,7 @@ export function getFieldName(
 
 /**
  * Build filter string for LanceDB queries
- * Type-safe filter building
+ * Type-safe filter building (values are escaped by compileFilterExpression)
  */
 export function buildRuleFilters(
   filters: {
@@ -145,78 +165,47 @@ export function buildRuleFilters(
   },
   isCloud: boolean,
 ): string | undefined {
-  const conditions: string[] = [];
+  const conditions: FilterExpression[] = [];
 
   if (filters.category) {
-    const field = getFieldName("category", isCloud);
-    conditions.push(`${field} = '${filters.category}'`);
+    conditions.push(where.eq("category", filters.category));
   }
 
   if (filters.enabled !== undefined) {
-    const field = getFieldName("enabled", isCloud);
-    conditions.push(`${field} = ${filters.enabled}`);
+    conditions.push(where.eq("enabled", filters.enabled));
   }
 
   if (filters.severity && filters.severity.length > 0) {
-    const field = getFieldName("severity", isCloud);
-    const severityList = filters.severity.map((s) => `'${s}'`).join(", ");
-    conditions.push(`${field} IN (${severityList})`);
+    conditions.push(where.in("severity", filters.severity));
   }
 
-  return conditions.length > 0 ? conditions.join(" AND ") : undefined;
+  return conditions.length > 0
+    ? compileFilterExpression(where.and(...conditions), { isCloud })
+    : undefined;
 }
 
 /**
  * Transform metadata for LanceDB storage
- * Handles Cloud (flat meta_* fields) vs Local (nested metadata object)
+ * Handles Cloud (flat meta_* fields) vs Local (nested metadata object) via the metadata codec
  */
 export function transformMetadataForStorage<T extends Record<string, unknown>>(
   metadata: T,
   isCloud: boolean,
+  schema?: MetadataSchema,
 ): Record<string, unknown> {
-  if (!isCloud) {
-    return { metadata };
-  }
-
-  // Cloud: flatten metadata as individual columns with meta_ prefix
-  const flatMetadata: Record<string, string | number | boolean> = {};
-  for (const [key, value] of Object.entries(metadata)) {
-    flatMetadata[`meta_${key}`] =
-      typeof value === "string" || typeof value === "number" || typeof value === "boolean"
-        ? value
-        : JSON.stringify(value);
-  }
-  return flatMetadata;
+  return createMetadataCodec({ isCloud, schema }).encode(metadata);
 }
 
 /**
  * Extract metadata from LanceDB result
- * Handles Cloud (meta_* fields) vs Local (metadata object)
+ * Handles Cloud (meta_* fields) vs Local (metadata object) via the metadata codec
  */
 export function extractMetadataFromResult<T extends Record<string, unknown>>(
   result: Record<string, unknown>,
   isCloud: boolean,
+  schema?: MetadataSchema,
 ): T {
-  if (!isCloud) {
-    return (result.metadata as T) || ({} as T);
-  }
-
-  // Cloud: extract meta_* fields
-  const metadata: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(result)) {
-    if (key.startsWith("meta_") && value !== null && value !== undefined) {
-      const metaKey = key.replace("meta_", "");
-      try {
-        metadata[metaKey] =
-          typeof value === "string" && (value.startsWith("{") || value.startsWith("["))
-            ? JSON.parse(value)
-            : value;
-      } catch {
-        metadata[metaKey] = value;
-      }
-    }
-  }
-  return metadata as T;
+  return createMetadataCodec({ isCloud, schema }).decode(result) as T;
 }
 
 /**
@@ -234,6 +223,6 @@ export function createRuleRecord(
     id: rule.id,
     content: rule.content,
     vector: embedding,
-    ...transformMetadataForStorage(metadata, isCloud),
+    ...transformMetadataForStorage(metadata, isCloud, RULE_METADATA_SCHEMA),
   };
 }
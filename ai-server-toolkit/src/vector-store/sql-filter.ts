@@ -0,0 +1,416 @@
+// Evaluates SearchOptions filters (objects and a subset of SQL WHERE syntax) in memory
+import type { SearchFilter } from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
+import { compileFilterExpression, isFilterExpression } from "./filter.ts";
+
+/**
+ * A stored document as seen by filters
+ */
+export interface FilterRecord {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Compiled filter; returns true if the record matches
+ */
+export type FilterPredicate = (record: FilterRecord) => boolean;
+
+type Token =
+  | { type: "identifier"; value: string }
+  | { type: "string"; value: string }
+  | { type: "number"; value: number }
+  | { type: "keyword"; value: string }
+  | { type: "operator"; value: string }
+  | { type: "punct"; value: "(" | ")" | "," };
+
+type Expr =
+  | { kind: "column"; name: string }
+  | { kind: "literal"; value: unknown }
+  | { kind: "call"; name: string; args: Expr[] }
+  | { kind: "compare"; op: string; left: Expr; right: Expr }
+  | { kind: "in"; value: Expr; list: Expr[]; negated: boolean }
+  | { kind: "like"; value: Expr; pattern: string; negated: boolean }
+  | { kind: "isNull"; value: Expr; negated: boolean }
+  | { kind: "and" | "or"; left: Expr; right: Expr }
+  | { kind: "not"; operand: Expr };
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN", "LIKE", "IS", "NULL", "TRUE", "FALSE"]);
+
+const syntaxError = (message: string, sql: string): Error =>
+  createValidationError(`Invalid filter: ${message}`, { filter: sql });
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'") {
+      // String literal; '' is an escaped quote
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= sql.length) throw syntaxError("unterminated string literal", sql);
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ type: "string", value });
+    } else if (char === '"' || char === "`") {
+      // Quoted identifier
+      const end = sql.indexOf(char, i + 1);
+      if (end === -1) throw syntaxError("unterminated quoted identifier", sql);
+      tokens.push({ type: "identifier", value: sql.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(sql[i + 1] || ""))) {
+      const match = sql.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/)!;
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/)!;
+      const upper = match[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: "keyword", value: upper }
+          : { type: "identifier", value: match[0] },
+      );
+      i += match[0].length;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: "punct", value: char });
+      i++;
+    } else {
+      const match = sql.slice(i).match(/^(<=|>=|<>|!=|=|<|>)/);
+      if (!match) throw syntaxError(`unexpected character "${char}"`, sql);
+      tokens.push({ type: "operator", value: match[0] === "<>" ? "!=" : match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+};
+
+const parse = (sql: string): Expr => {
+  const tokens = tokenize(sql);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isKeyword = (value: string) => peek()?.type === "keyword" && peek()!.value === value;
+  const isPunct = (value: string) => peek()?.type === "punct" && peek()!.value === value;
+  const consumePunct = (value: string): boolean => {
+    if (!isPunct(value)) return false;
+    position++;
+    return true;
+  };
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) throw syntaxError(`expected "${value}"`, sql);
+    position++;
+  };
+
+  const parseOperand = (): Expr => {
+    const token = tokens[position++];
+    if (!token) throw syntaxError("unexpected end of filter", sql);
+
+    switch (token.type) {
+      case "string":
+      case "number":
+        return { kind: "literal", value: token.value };
+      case "keyword":
+        if (token.value === "NULL") return { kind: "literal", value: null };
+        if (token.value === "TRUE") return { kind: "literal", value: true };
+        if (token.value === "FALSE") return { kind: "literal", value: false };
+        break;
+      case "identifier":
+        if (isPunct("(")) {
+          position++;
+          const args: Expr[] = [];
+          if (!isPunct(")")) {
+            do {
+              args.push(parseOperand());
+            } while (consumePunct(","));
+          }
+          expectPunct(")");
+          return { kind: "call", name: token.value.toLowerCase(), args };
+        }
+        return { kind: "column", name: token.value };
+      case "punct":
+        if (token.value === "(") {
+          const inner = parseOr();
+          expectPunct(")");
+          return inner;
+        }
+        break;
+    }
+    throw syntaxError(`unexpected token "${String(token.value)}"`, sql);
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parseOperand();
+    const token = peek();
+
+    if (token?.type === "operator") {
+      position++;
+      return { kind: "compare", op: token.value, left, right: parseOperand() };
+    }
+
+    if (isKeyword("IS")) {
+      position++;
+      const negated = isKeyword("NOT");
+      if (negated) position++;
+      if (!isKeyword("NULL")) throw syntaxError('expected "NULL" after "IS"', sql);
+      position++;
+      return { kind: "isNull", value: left, negated };
+    }
+
+    const negated = isKeyword("NOT") &&
+      (tokens[position + 1]?.value === "IN" || tokens[position + 1]?.value === "LIKE");
+    if (negated) position++;
+
+    if (isKeyword("IN")) {
+      position++;
+      expectPunct("(");
+      const list: Expr[] = [];
+      do {
+        list.push(parseOperand());
+      } while (consumePunct(","));
+      expectPunct(")");
+      return { kind: "in", value: left, list, negated };
+    }
+
+    if (isKeyword("LIKE")) {
+      position++;
+      const pattern = tokens[position++];
+      if (pattern?.type !== "string") throw syntaxError("LIKE expects a string pattern", sql);
+      return { kind: "like", value: left, pattern: pattern.value, negated };
+    }
+
+    return left;
+  };
+
+  const parseNot = (): Expr => {
+    if (isKeyword("NOT")) {
+      position++;
+      return { kind: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (isKeyword("AND")) {
+      position++;
+      left = { kind: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (isKeyword("OR")) {
+      position++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const expr = parseOr();
+  if (position < tokens.length) {
+    throw syntaxError(`unexpected token "${String(tokens[position].value)}"`, sql);
+  }
+  return expr;
+};
+
+/**
+ * Resolves a column name against a record.
+ *
+ * Understands the local LanceDB layout (`metadata.field`, nested paths), the cloud
+ * layout (`meta_field`), the `id` and `content` columns, and bare metadata field names.
+ */
+const resolveColumn = (record: FilterRecord, name: string): unknown => {
+  if (name === "id") return record.id;
+  if (name === "content") return record.content;
+
+  let path: string[];
+  if (name.startsWith("metadata.")) {
+    path = name.slice("metadata.".length).split(".");
+  } else if (name.startsWith("meta_")) {
+    path = [name.slice("meta_".length)];
+  } else {
+    path = name.split(".");
+  }
+
+  let value: unknown = record.metadata;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+// Loose comparison: numeric and boolean strings compare with numbers and booleans
+const normalizePair = (left: unknown, right: unknown): [unknown, unknown] => {
+  if (typeof left === "number" && typeof right === "string" && right.trim() !== "") {
+    return [left, Number(right)];
+  }
+  if (typeof left === "string" && typeof right === "number" && left.trim() !== "") {
+    return [Number(left), right];
+  }
+  if (typeof left === "boolean" && typeof right === "string") return [String(left), right];
+  if (typeof left === "string" && typeof right === "boolean") return [left, String(right)];
+  return [left, right];
+};
+
+const compare = (op: string, left: unknown, right: unknown): boolean => {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return false;
+  }
+  const [a, b] = normalizePair(left, right);
+  if (typeof a === "object" || typeof b === "object") {
+    const equal = JSON.stringify(a) === JSON.stringify(b);
+    return op === "=" ? equal : op === "!=" ? !equal : false;
+  }
+
+  switch (op) {
+    case "=":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case "<":
+      return (a as number) < (b as number);
+    case "<=":
+      return (a as number) <= (b as number);
+    case ">":
+      return (a as number) > (b as number);
+    case ">=":
+      return (a as number) >= (b as number);
+    default:
+      return false;
+  }
+};
+
+const likeToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/%/g, ".*")
+    .replace(/_/g, ".");
+  return new RegExp(`^${source}$`, "s");
+};
+
+const callFunction = (name: string, args: unknown[]): unknown => {
+  switch (name) {
+    case "array_has":
+    case "array_contains":
+      return Array.isArray(args[0]) && args[0].some((item) => compare("=", item, args[1]));
+    case "lower":
+      return typeof args[0] === "string" ? args[0].toLowerCase() : args[0];
+    case "upper":
+      return typeof args[0] === "string" ? args[0].toUpperCase() : args[0];
+    default:
+      throw createValidationError(`Unsupported filter function: ${name}`);
+  }
+};
+
+const evaluate = (expr: Expr, record: FilterRecord): unknown => {
+  switch (expr.kind) {
+    case "column":
+      return resolveColumn(record, expr.name);
+    case "literal":
+      return expr.value;
+    case "call":
+      return callFunction(expr.name, expr.args.map((arg) => evaluate(arg, record)));
+    case "compare":
+      return compare(expr.op, evaluate(expr.left, record), evaluate(expr.right, record));
+    case "in": {
+      const value = evaluate(expr.value, record);
+      if (value === null || value === undefined) return false;
+      const found = expr.list.some((item) => compare("=", value, evaluate(item, record)));
+      return expr.negated ? !found : found;
+    }
+    case "like": {
+      const value = evaluate(expr.value, record);
+      if (typeof value !== "string") return false;
+      const matched = likeToRegExp(expr.pattern).test(value);
+      return expr.negated ? !matched : matched;
+    }
+    case "isNull": {
+      const value = evaluate(expr.value, record);
+      const isNull = value === null || value === undefined;
+      return expr.negated ? !isNull : isNull;
+    }
+    case "and":
+      return isTruthy(evaluate(expr.left, record)) && isTruthy(evaluate(expr.right, record));
+    case "or":
+      return isTruthy(evaluate(expr.left, record)) || isTruthy(evaluate(expr.right, record));
+    case "not":
+      return !isTruthy(evaluate(expr.operand, record));
+  }
+};
+
+const isTruthy = (value: unknown): boolean => value === true || value === "true";
+
+/**
+ * Compiles a SQL WHERE clause into a predicate.
+ *
+ * Supports `=`, `!=`/`<>`, `<`, `<=`, `>`, `>=`, `[NOT] IN (...)`, `[NOT] LIKE`,
+ * `IS [NOT] NULL`, `AND`, `OR`, `NOT`, parentheses, string/number/boolean/NULL literals
+ * and the functions `array_has`/`array_contains`, `lower` and `upper`. Columns may
+ * use the local (`metadata.field`) or cloud (`meta_field`) LanceDB layout.
+ *
+ * @param sql WHERE clause without the WHERE keyword
+ * @returns Predicate matching records
+ * @throws AppError (VALIDATION_ERROR) if the clause cannot be parsed
+ *
+ * @example
+ * ```ts
+ * const matches = compileSqlFilter("metadata.category = 'legal' AND metadata.page >= 10");
+ * matches({ id: "1", content: "...", metadata: { category: "legal", page: 12 } }); // true
+ * ```
+ */
+export function compileSqlFilter(sql: string): FilterPredicate {
+  const expr = parse(sql);
+  return (record) => isTruthy(evaluate(expr, record));
+}
+
+/**
+ * Compiles an object filter into a predicate.
+ *
+ * Each entry must match: arrays match any of their values, other values must be equal.
+ *
+ * @param filter Metadata field/value pairs
+ * @returns Predicate matching records
+ */
+export function compileObjectFilter(filter: Record<string, unknown>): FilterPredicate {
+  const entries = Object.entries(filter);
+  return (record) =>
+    entries.every(([key, expected]) => {
+      const value = resolveColumn(record, key);
+      return Array.isArray(expected)
+        ? expected.some((item) => compare("=", value, item))
+        : compare("=", value, expected);
+    });
+}
+
+/**
+ * Compiles a SearchOptions filter (typed expression, object or raw SQL string) into a predicate.
+ *
+ * @param filter Filter from SearchOptions
+ * @returns Predicate matching records (matches everything when no filter is given)
+ */
+export function compileFilter(filter: SearchFilter | undefined): FilterPredicate {
+  if (!filter) return () => true;
+  if (typeof filter === "string") return compileSqlFilter(filter);
+  return isFilterExpression(filter)
+    ? compileSqlFilter(compileFilterExpression(filter))
+    : compileObjectFilter(filter);
+}
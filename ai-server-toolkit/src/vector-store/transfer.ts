@@ -0,0 +1,270 @@
+// Streaming export and import of vector tables as JSONL or Parquet
+import type {
+  ExportTableOptions,
+  ImportTableOptions,
+  ImportTableResult,
+  ListDocumentsOptions,
+  ListDocumentsPage,
+  TableExportFormat,
+  VectorDocument,
+} from "../types.ts";
+import { createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+
+const logger = createSubLogger("vector-transfer");
+
+const DEFAULT_TRANSFER_BATCH_SIZE = 1000;
+const TRANSFER_FORMATS = new Set<TableExportFormat>(["jsonl", "parquet"]);
+
+/**
+ * Row of an exported vector table
+ */
+export interface ExportedRow {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  vector: number[];
+}
+
+/**
+ * Store operations exportDocuments and importDocuments run on, bound to one table
+ */
+export interface TableTransferHandlers {
+  /** Vector dimensions of the store */
+  dimensions: number;
+  listDocuments(options: ListDocumentsOptions): Promise<ListDocumentsPage>;
+  tableExists(): Promise<boolean>;
+  /** Creates the table with its first row as schema definition document */
+  createTable(schemaDocument: VectorDocument): Promise<void>;
+  addDocuments(documents: VectorDocument[]): Promise<void>;
+  upsertDocuments(documents: VectorDocument[]): Promise<void>;
+}
+
+const validateFormat = (format: string): TableExportFormat => {
+  if (!TRANSFER_FORMATS.has(format as TableExportFormat)) {
+    throw createValidationError(`Unsupported table export format: ${format}`);
+  }
+  return format as TableExportFormat;
+};
+
+// Parquet support is loaded on first use, so JSONL transfers need no WebAssembly
+const loadParquet = async () => {
+  const [parquet, arrow] = await Promise.all([import("parquet-wasm"), import("apache-arrow")]);
+  return { parquet, arrow };
+};
+
+const toExportedRow = (doc: VectorDocument): ExportedRow => ({
+  id: doc.id,
+  content: doc.content,
+  metadata: doc.metadata || {},
+  vector: doc.embedding || [],
+});
+
+async function encodeParquet(rows: ExportedRow[]): Promise<Uint8Array> {
+  const { parquet, arrow } = await loadParquet();
+  // Metadata is schemaless, so it is stored as a JSON string column
+  const table = new arrow.Table({
+    id: arrow.vectorFromArray(rows.map((row) => row.id), new arrow.Utf8()),
+    content: arrow.vectorFromArray(rows.map((row) => row.content), new arrow.Utf8()),
+    metadata: arrow.vectorFromArray(
+      rows.map((row) => JSON.stringify(row.metadata)),
+      new arrow.Utf8(),
+    ),
+    vector: arrow.vectorFromArray(
+      rows.map((row) => row.vector),
+      new arrow.List(new arrow.Field("item", new arrow.Float32(), true)),
+    ),
+  });
+  return parquet.writeParquet(parquet.Table.fromIPCStream(arrow.tableToIPC(table, "stream")));
+}
+
+async function* decodeParquet(bytes: Uint8Array): AsyncGenerator<unknown> {
+  const { parquet, arrow } = await loadParquet();
+  const table = arrow.tableFromIPC(parquet.readParquet(bytes).intoIPCStream());
+  for (const row of table) {
+    const { id, content, metadata, vector } = row.toJSON();
+    yield {
+      id,
+      content,
+      metadata: typeof metadata === "string" ? JSON.parse(metadata) : metadata,
+      vector: vector ? Array.from(vector as Iterable<number>) : vector,
+    };
+  }
+}
+
+const toStream = (source: ReadableStream<Uint8Array> | Uint8Array): ReadableStream<Uint8Array> =>
+  source instanceof Uint8Array ? ReadableStream.from([source]) : source;
+
+async function* decodeJsonl(source: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  let buffer = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw createValidationError("Invalid JSON in imported table", { line: lineNumber });
+    }
+  };
+
+  for await (const chunk of source.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const row = parseLine(line);
+      if (row !== undefined) yield row;
+    }
+  }
+  const row = parseLine(buffer);
+  if (row !== undefined) yield row;
+}
+
+const toImportedDocument = (
+  value: unknown,
+  rowNumber: number,
+  dimensions: number,
+): VectorDocument => {
+  const row = value as Partial<ExportedRow> | null;
+  if (!row || typeof row.id !== "string" || !row.id || typeof row.content !== "string") {
+    throw createValidationError("Imported row needs a string id and content", { row: rowNumber });
+  }
+  if (
+    !Array.isArray(row.vector) ||
+    !row.vector.every((value) => typeof value === "number" && Number.isFinite(value))
+  ) {
+    throw createValidationError("Imported row has no valid vector", {
+      row: rowNumber,
+      id: row.id,
+    });
+  }
+  if (row.vector.length !== dimensions) {
+    throw createValidationError("Imported vector dimensions do not match the vector store", {
+      row: rowNumber,
+      id: row.id,
+      expected: dimensions,
+      actual: row.vector.length,
+    });
+  }
+  return {
+    id: row.id,
+    content: row.content,
+    metadata: row.metadata && typeof row.metadata === "object" ? row.metadata : {},
+    embedding: row.vector,
+  };
+};
+
+/**
+ * Streams the documents of a table as JSONL or Parquet.
+ *
+ * Rows are `{ id, content, metadata, vector }`. JSONL is written page by page while the
+ * stream is read; Parquet needs the whole file at once, so its rows are collected in
+ * memory first (prefer JSONL for very large tables). The first page is read before the
+ * stream is returned, so a missing table or invalid filter fails the call itself.
+ *
+ * @param options Format, filter and page size
+ * @param handlers Operations of the store, bound to the table
+ * @returns Readable stream of the encoded table
+ * @throws AppError (VALIDATION_ERROR) for unsupported formats
+ */
+export async function exportDocuments(
+  options: ExportTableOptions,
+  handlers: TableTransferHandlers,
+): Promise<ReadableStream<Uint8Array>> {
+  const format = validateFormat(options.format || "jsonl");
+  const readPage = (cursor?: string) =>
+    handlers.listDocuments({
+      filter: options.filter,
+      limit: options.batchSize || DEFAULT_TRANSFER_BATCH_SIZE,
+      cursor,
+      includeEmbeddings: true,
+    });
+
+  const firstPage = await readPage();
+  async function* readRows(): AsyncGenerator<ExportedRow[]> {
+    let page = firstPage;
+    while (true) {
+      yield page.documents.map(toExportedRow);
+      if (!page.nextCursor) return;
+      page = await readPage(page.nextCursor);
+    }
+  }
+
+  if (format === "parquet") {
+    const rows: ExportedRow[] = [];
+    for await (const batch of readRows()) {
+      rows.push(...batch);
+    }
+    return ReadableStream.from([await encodeParquet(rows)]);
+  }
+
+  const encoder = new TextEncoder();
+  return ReadableStream.from((async function* () {
+    for await (const batch of readRows()) {
+      if (batch.length > 0) {
+        yield encoder.encode(batch.map((row) => JSON.stringify(row) + "\n").join(""));
+      }
+    }
+  })());
+}
+
+/**
+ * Loads rows written by exportDocuments into a table.
+ *
+ * Every row must carry a vector with the store's dimensions; nothing is re-embedded.
+ * Rows are written in batches, upserted by ID (default) or appended. A missing table
+ * is created from the first row. A row that fails validation stops the import with the
+ * rows before it already written, so upsert imports can simply be retried.
+ *
+ * @param source Encoded table as a stream or bytes
+ * @param options Format, write mode and batch size
+ * @param handlers Operations of the store, bound to the table
+ * @returns Number of imported rows
+ * @throws AppError (VALIDATION_ERROR) for malformed rows or mismatched dimensions
+ */
+export async function importDocuments(
+  source: ReadableStream<Uint8Array> | Uint8Array,
+  options: ImportTableOptions,
+  handlers: TableTransferHandlers,
+): Promise<ImportTableResult> {
+  const format = validateFormat(options.format || "jsonl");
+  const batchSize = options.batchSize || DEFAULT_TRANSFER_BATCH_SIZE;
+  const write = options.mode === "append" ? handlers.addDocuments : handlers.upsertDocuments;
+
+  const rows = format === "parquet"
+    ? decodeParquet(new Uint8Array(await new Response(toStream(source)).arrayBuffer()))
+    : decodeJsonl(toStream(source));
+
+  let imported = 0;
+  let batch: VectorDocument[] = [];
+  let tableReady = false;
+
+  for await (const row of rows) {
+    const document = toImportedDocument(row, imported + batch.length + 1, handlers.dimensions);
+
+    if (!tableReady) {
+      tableReady = true;
+      if (!(await handlers.tableExists())) {
+        await handlers.createTable(document);
+        imported++;
+        continue;
+      }
+    }
+
+    batch.push(document);
+    if (batch.length >= batchSize) {
+      await write(batch);
+      imported += batch.length;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await write(batch);
+    imported += batch.length;
+  }
+
+  logger.info("Imported table rows", { format, mode: options.mode || "upsert", imported });
+  return { imported };
+}
@@ -0,0 +1,85 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { VectorDocument } from "../types.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "./memory.ts";
+
+const documents: VectorDocument[] = [
+  {
+    id: "a",
+    content: "fire exits",
+    metadata: { chapter: 1, tags: ["fire"] },
+    embedding: [1, 0, 0],
+  },
+  { id: "b", content: "parking", metadata: { chapter: 2, tags: [] }, embedding: [0, 1, 0] },
+  { id: "c", content: "stairs", metadata: { chapter: 3, tags: ["fire"] }, embedding: [0, 0, 1] },
+];
+
+const createStore = async (withTable = true) => {
+  const store = await createMemoryVectorStore(
+    { provider: "memory", dimensions: 3 },
+    createHashEmbeddings({ dimensions: 3 }),
+  );
+  if (withTable) {
+    await store.createTable("documents");
+    await store.addDocuments(documents);
+  }
+  return store;
+};
+
+const jsonl = (rows: unknown[]) =>
+  new TextEncoder().encode(rows.map((row) => JSON.stringify(row)).join("\n"));
+
+Deno.test("exportTable and importTable round-trip a table as JSONL across pages", async () => {
+  const source = await createStore();
+  const target = await createStore(false);
+
+  const exported = await source.exportTable({ batchSize: 2 });
+  const { imported } = await target.importTable(exported, {}, "copy");
+
+  assertEquals(imported, 3);
+  assertEquals(await target.getDocuments(["a", "b", "c"], "copy"), documents);
+});
+
+Deno.test("exportTable and importTable round-trip a filtered table as Parquet", async () => {
+  const source = await createStore();
+  const target = await createStore(false);
+
+  const bytes = await new Response(
+    await source.exportTable({ format: "parquet", filter: { chapter: 2 } }),
+  ).bytes();
+  await target.importTable(bytes, { format: "parquet" }, "copy");
+
+  assertEquals((await target.listDocuments({ includeEmbeddings: true }, "copy")).documents, [
+    documents[1],
+  ]);
+});
+
+Deno.test("importTable upserts by default and appends on request", async () => {
+  const store = await createStore();
+  const row = { id: "a", content: "fire exits, revised", metadata: {}, vector: [1, 1, 0] };
+
+  await store.importTable(jsonl([row]));
+  assertEquals(await store.countWhere(), 3);
+  assertEquals((await store.getDocument("a"))?.content, "fire exits, revised");
+
+  await store.importTable(jsonl([row]), { mode: "append" });
+  assertEquals(await store.countWhere(), 4);
+});
+
+Deno.test("importTable rejects malformed rows and mismatched dimensions", async () => {
+  const store = await createStore();
+
+  const invalidJson = new TextEncoder().encode('{"id":"x","content":"x","vector":[1,0,0]}\n{oops');
+  await assertRejects(() => store.importTable(invalidJson), Error, "Invalid JSON");
+  await assertRejects(
+    () => store.importTable(jsonl([{ id: "x", content: "x" }])),
+    Error,
+    "no valid vector",
+  );
+  await assertRejects(
+    () => store.importTable(jsonl([{ id: "x", content: "x", vector: [1, 0] }])),
+    Error,
+    "dimensions do not match",
+  );
+  await assertRejects(() => store.exportTable({ format: "csv" as "jsonl" }), Error, "Unsupported");
+});
@@ -0,0 +1,189 @@
+// Workspace backup and transfer - bundles KV records with the workspace vector table
+
+import type { ExportTableOptions, ImportTableOptions, TableExportFormat } from "../types.ts";
+import type { LanceDBState } from "../vector-store/lancedb.ts";
+import { createNotFoundError, createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { getWorkspace, getWorkspaceVectorTable, listDocuments } from "./kv-store.ts";
+import type {
+  Workspace,
+  WorkspaceDocument,
+  WorkspaceKVState,
+  WorkspaceVectorTable,
+} from "./types.ts";
+
+const logger = createSubLogger("workspace-backup");
+
+const MANIFEST_VERSION = 1;
+// Document records per atomic KV commit
+const KV_WRITE_BATCH_SIZE = 100;
+
+/**
+ * KV part of a workspace export
+ */
+export interface WorkspaceExportManifest {
+  version: number;
+  exportedAt: string;
+  /** Format of the vectors stream */
+  format: TableExportFormat;
+  workspace: Workspace;
+  documents: WorkspaceDocument[];
+  /** Vector table pointer, present once the workspace went through an embedding migration */
+  vectorTable?: WorkspaceVectorTable;
+}
+
+/**
+ * Workspace export: KV records plus the encoded vector table
+ */
+export interface WorkspaceExport {
+  manifest: WorkspaceExportManifest;
+  vectors: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Result of importWorkspace
+ */
+export interface WorkspaceImportResult {
+  workspace: Workspace;
+  documents: number;
+  vectors: number;
+}
+
+/**
+ * Export a workspace for backup or transfer to another environment
+ *
+ * Bundles the workspace record and its document records from KV with a stream of the
+ * workspace's current vector table (id, content, metadata, vector), so the workspace can
+ * be restored without re-embedding. The manifest is plain JSON; store it next to the
+ * vectors file.
+ *
+ * @param kvState Workspace KV state
+ * @param vectorState Vector store holding the workspace table
+ * @param workspaceId Workspace ID
+ * @param options Vector export options (format, filter, batch size)
+ * @returns Promise resolving to the manifest and the vectors stream
+ * @throws AppError (NOT_FOUND) if the workspace does not exist
+ *
+ * @example
+ * ```ts
+ * const { manifest, vectors } = await exportWorkspace(kvState, vectorStore, "ws_123", {
+ *   format: "parquet",
+ * });
+ * await Deno.writeTextFile("backup/ws_123.json", JSON.stringify(manifest));
+ * await Deno.writeFile("backup/ws_123.parquet", vectors);
+ * ```
+ */
+export async function exportWorkspace(
+  kvState: WorkspaceKVState,
+  vectorState: LanceDBState,
+  workspaceId: string,
+  options: ExportTableOptions = {},
+): Promise<WorkspaceExport> {
+  const workspace = await getWorkspace(kvState, workspaceId);
+  if (!workspace) {
+    throw createNotFoundError(`Workspace '${workspaceId}' was not found`, { workspaceId });
+  }
+
+  const documents = await listDocuments(kvState, workspaceId);
+  const vectorTable = await getWorkspaceVectorTable(kvState, workspaceId);
+  const vectors = await vectorState.exportTable(
+    options,
+    vectorTable?.tableName || `workspace_${workspaceId}`,
+  );
+
+  logger.info("Exported workspace", { workspaceId, documents: documents.length });
+  return {
+    manifest: {
+      version: MANIFEST_VERSION,
+      exportedAt: new Date().toISOString(),
+      format: options.format || "jsonl",
+      workspace,
+      documents,
+      ...(vectorTable && { vectorTable }),
+    },
+    vectors,
+  };
+}
+
+/**
+ * Import a workspace created by exportWorkspace
+ *
+ * Loads the vectors into `workspace_{id}` (or the table named by the exported table
+ * pointer), creating the table if needed, and then restores the document records and
+ * the workspace record under their original IDs. KV is only written once every vector
+ * row was read and stored, so a corrupt or mismatched vectors file leaves no workspace
+ * behind, and the workspace record is written last. Records and vectors are upserted by
+ * default, so an interrupted import can simply be run again.
+ *
+ * @param kvState Workspace KV state
+ * @param vectorState Vector store for the workspace table (same dimensions as the export)
+ * @param bundle Manifest and vectors (stream or bytes)
+ * @param options Vector import options (mode, batch size); the format comes from the manifest
+ * @returns Promise resolving to the restored workspace and row counts
+ * @throws AppError (VALIDATION_ERROR) for unknown manifest versions, malformed manifests,
+ * malformed vector rows or mismatched dimensions
+ *
+ * @example
+ * ```ts
+ * const manifest = JSON.parse(await Deno.readTextFile("backup/ws_123.json"));
+ * const vectors = await Deno.readFile("backup/ws_123.parquet");
+ * await importWorkspace(kvState, vectorStore, { manifest, vectors });
+ * ```
+ */
+export async function importWorkspace(
+  kvState: WorkspaceKVState,
+  vectorState: LanceDBState,
+  bundle: {
+    manifest: WorkspaceExportManifest;
+    vectors: ReadableStream<Uint8Array> | Uint8Array;
+  },
+  options: Omit<ImportTableOptions, "format"> = {},
+): Promise<WorkspaceImportResult> {
+  const { manifest } = bundle;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw createValidationError("Unsupported workspace export version", {
+      version: manifest.version,
+    });
+  }
+
+  if (typeof manifest.workspace?.id !== "string" || !Array.isArray(manifest.documents)) {
+    throw createValidationError("Workspace export manifest is malformed");
+  }
+
+  const workspaceId = manifest.workspace.id;
+  const tableName = manifest.vectorTable?.tableName || `workspace_${workspaceId}`;
+  const { imported } = await vectorState.importTable(
+    bundle.vectors,
+    { ...options, format: manifest.format },
+    tableName,
+  );
+  // An export without vectors still gets its (empty) table
+  await vectorState.createTable(tableName);
+
+  const commit = async (atomic: Deno.AtomicOperation): Promise<void> => {
+    const result = await atomic.commit();
+    if (!result.ok) {
+      throw new Error(`Failed to import workspace: ${workspaceId}`);
+    }
+  };
+  for (let i = 0; i < manifest.documents.length; i += KV_WRITE_BATCH_SIZE) {
+    const atomic = kvState.kv.atomic();
+    for (const doc of manifest.documents.slice(i, i + KV_WRITE_BATCH_SIZE)) {
+      atomic.set(["documents", workspaceId, doc.id], { ...doc, workspaceId });
+    }
+    await commit(atomic);
+  }
+
+  const atomic = kvState.kv.atomic().set(["workspaces", workspaceId], manifest.workspace);
+  if (manifest.vectorTable) {
+    atomic.set(["workspaces", workspaceId, "vector_table"], manifest.vectorTable);
+  }
+  await commit(atomic);
+
+  logger.info("Imported workspace", {
+    workspaceId,
+    documents: manifest.documents.length,
+    vectors: imported,
+  });
+  return { workspace: manifest.workspace, documents: manifest.documents.length, vectors: imported };
+}
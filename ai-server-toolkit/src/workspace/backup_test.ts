@@ -0,0 +1,139 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "../vector-store/memory.ts";
+import { exportWorkspace, importWorkspace } from "./backup.ts";
+import {
+  addDocument,
+  createWorkspace,
+  createWorkspaceKV,
+  getWorkspace,
+  listDocuments,
+} from "./kv-store.ts";
+import type { WorkspaceKVState } from "./types.ts";
+
+const DIMENSIONS = 8;
+
+const createEnvironment = async () => ({
+  kvState: await createWorkspaceKV({ provider: "deno-kv", path: ":memory:" }),
+  vectorStore: await createMemoryVectorStore(
+    { provider: "memory", dimensions: DIMENSIONS },
+    createHashEmbeddings({ dimensions: DIMENSIONS }),
+  ),
+});
+
+const withEnvironments = async (
+  fn: (
+    source: Awaited<ReturnType<typeof createEnvironment>>,
+    target: Awaited<ReturnType<typeof createEnvironment>>,
+  ) => Promise<void>,
+): Promise<void> => {
+  const source = await createEnvironment();
+  const target = await createEnvironment();
+  try {
+    await fn(source, target);
+  } finally {
+    source.kvState.kv.close();
+    target.kvState.kv.close();
+  }
+};
+
+// A workspace with one document record and its two chunks
+const seedWorkspace = async (
+  kvState: WorkspaceKVState,
+  vectorStore: Awaited<ReturnType<typeof createEnvironment>>["vectorStore"],
+) => {
+  const workspace = await createWorkspace(kvState, {
+    name: "Building codes",
+    description: "Fire safety",
+  });
+  await addDocument(kvState, {
+    workspaceId: workspace.id,
+    name: "fire.pdf",
+    originalName: "fire.pdf",
+    storageKey: "uploads/fire.pdf",
+    fileSize: 1024,
+    mimeType: "application/pdf",
+    status: "embedded",
+    uploadedAt: new Date().toISOString(),
+  });
+  const tableName = `workspace_${workspace.id}`;
+  await vectorStore.createTable(tableName);
+  await vectorStore.addDocuments([
+    { id: "chunk-0", content: "fire exits", metadata: { page: 1 } },
+    { id: "chunk-1", content: "fire doors", metadata: { page: 2 } },
+  ], tableName);
+  return { workspaceId: workspace.id, tableName };
+};
+
+Deno.test("importWorkspace restores records and vectors of an exported workspace", async () => {
+  await withEnvironments(async (source, target) => {
+    const { workspaceId, tableName } = await seedWorkspace(source.kvState, source.vectorStore);
+
+    const { manifest, vectors } = await exportWorkspace(
+      source.kvState,
+      source.vectorStore,
+      workspaceId,
+    );
+    // The manifest goes through JSON, as when it is stored next to the vectors file
+    const stored = JSON.parse(JSON.stringify(manifest));
+    const result = await importWorkspace(target.kvState, target.vectorStore, {
+      manifest: stored,
+      vectors,
+    });
+
+    assertEquals(result.documents, 1);
+    assertEquals(result.vectors, 2);
+    assertEquals(await getWorkspace(target.kvState, workspaceId), stored.workspace);
+    assertEquals(await listDocuments(target.kvState, workspaceId), stored.documents);
+    assertEquals(stored.documents[0].storageKey, "uploads/fire.pdf");
+    const ids = ["chunk-0", "chunk-1"];
+    assertEquals(
+      await target.vectorStore.getDocuments(ids, tableName),
+      await source.vectorStore.getDocuments(ids, tableName),
+    );
+  });
+});
+
+Deno.test("importWorkspace writes no KV records when the vectors do not load", async () => {
+  await withEnvironments(async (source, target) => {
+    const { workspaceId } = await seedWorkspace(source.kvState, source.vectorStore);
+    const { manifest } = await exportWorkspace(source.kvState, source.vectorStore, workspaceId);
+    const wrongDimensions = JSON.stringify({ id: "x", content: "x", metadata: {}, vector: [1] });
+
+    await assertRejects(
+      () =>
+        importWorkspace(target.kvState, target.vectorStore, {
+          manifest,
+          vectors: new TextEncoder().encode(wrongDimensions),
+        }),
+      Error,
+      "dimensions do not match",
+    );
+
+    assertEquals(await getWorkspace(target.kvState, workspaceId), null);
+    assertEquals(await listDocuments(target.kvState, workspaceId), []);
+  });
+});
+
+Deno.test("importWorkspace rejects unknown manifest versions before writing", async () => {
+  await withEnvironments(async (source, target) => {
+    const { workspaceId } = await seedWorkspace(source.kvState, source.vectorStore);
+    const { manifest, vectors } = await exportWorkspace(
+      source.kvState,
+      source.vectorStore,
+      workspaceId,
+    );
+
+    await assertRejects(
+      () =>
+        importWorkspace(target.kvState, target.vectorStore, {
+          manifest: { ...manifest, version: 99 },
+          vectors,
+        }),
+      Error,
+      "Unsupported workspace export version",
+    );
+    await vectors.cancel();
+    assertEquals(await target.vectorStore.listTables(), []);
+  });
+});
@@ -2,7 +2,8 @@
 // Provides high-level workspace operations that coordinate across all storage layers
 
 import type { LanceDBState } from "../vector-store/lancedb.ts";
-import { createWorkspaceTable, deleteWorkspaceTable } from "../vector-store/lancedb.ts";
+import { createWorkspaceTable } from "../vector-store/lancedb.ts";
+import { where } from "../vector-store/filter.ts";
 import type { FileStorageState } from "../storage/types.ts";
 import { deleteFile } from "../storage/s3.ts";
 import type {
@@ -23,8 +24,10 @@ import {
   getWorkspace,
   listDocuments,
   listWorkspaces,
+  resolveWorkspaceTableName,
   updateWorkspace as kvUpdateWorkspace,
 } from "./kv-store.ts";
+import { getEmbeddingMigrationCheckpoint } from "./embedding-migration.ts";
 
 /**
  * Coordinated workspace creation
@@ -103,9 +106,22 @@ export async function deleteWorkspaceCoordinated(
   // Non-fatal: if table deletion fails, log warning but continue with KV deletion
   let lancedbDeleted = false;
   try {
-    await deleteWorkspaceTable(vectorState, workspaceId);
-    logger.info("Deleted vector table", { workspaceId });
+    const tableName = await resolveWorkspaceTableName(kvState, workspaceId);
+    await vectorState.deleteTable(tableName);
+    logger.info("Deleted vector table", { workspaceId, tableName });
     lancedbDeleted = true;
+
+    // Tables left behind by an embedding migration (shadow or replaced table)
+    const migration = await getEmbeddingMigrationCheckpoint(kvState, workspaceId);
+    if (migration) {
+      const existing = await vectorState.listTables();
+      for (const leftover of [migration.sourceTable, migration.targetTable]) {
+        if (leftover !== tableName && existing.includes(leftover)) {
+          await vectorState.deleteTable(leftover);
+          logger.info("Deleted migration vector table", { workspaceId, tableName: leftover });
+        }
+      }
+    }
   } catch (error) {
     logger.warn("Vector DB deletion failed (non-fatal, continuing with KV deletion)", {
       workspaceId,
@@ -230,15 +246,22 @@ export async function deleteDocumentCoordinated(
     }
   }
 
-  // Delete from vector DB
+  // Delete from vector DB: the whole-document row and every chunk of the document
+  const tableName = await resolveWorkspaceTableName(kvState, workspaceId);
   try {
-    const { deleteWorkspaceDocument } = await import("../vector-store/lancedb.ts");
-    await deleteWorkspaceDocument(vectorState, workspaceId, documentId);
-    logger.debug("Deleted vector embedding", { documentId });
+    const deleted = await vectorState.deleteWhere(where.eq("id", documentId), tableName);
+    logger.debug("Deleted vector embedding", { documentId, deleted });
   } catch (error) {
     logger.error("Vector deletion failed", error, { documentId: doc.id });
     // Continue anyway
   }
+  try {
+    const deleted = await vectorState.deleteWhere(where.eq("documentId", documentId), tableName);
+    logger.debug("Deleted document chunks", { documentId, deleted });
+  } catch (error) {
+    // Tables without a documentId metadata field hold no chunks
+    logger.debug("Chunk deletion skipped", { documentId, error: String(error) });
+  }
 
   // Delete from KV metadata
   return await kvDeleteDocument(kvState, workspaceId, documentId);
@@ -250,16 +273,30 @@ export async function deleteDocumentCoordinated(
  */
 
 import type { VectorDocument } from "../types.ts";
-import { addWorkspaceDocument } from "../vector-store/lancedb.ts";
-import type { DocumentStatus } from "./types.ts";
-import { getDocument, updateDocument } from "./kv-store.ts";
+import type { DocumentStatus, WorkspaceVectorTable } from "./types.ts";
+import { getDocument, getWorkspaceVectorTable, updateDocument } from "./kv-store.ts";
+import { createEmbeddings } from "../embeddings/factory.ts";
 import { extractContentFromMetadata } from "../utils/document.ts";
 
+// Vector of the table's own model when an embedding migration recorded its embedder;
+// otherwise the vector store embeds with the model it was created with
+async function embedForTable(
+  vectorTable: WorkspaceVectorTable | null,
+  content: string,
+  apiKey?: string,
+): Promise<number[] | undefined> {
+  if (!vectorTable?.embedding) return undefined;
+  const embeddings = createEmbeddings({ ...vectorTable.embedding, apiKey });
+  return await embeddings.embedText(content);
+}
+
 /**
  * Embed a document and update its status in KV
  *
  * Reads content from WorkspaceDocument.metadata.content, embeds it in vector store,
- * then updates document status to "embedded" in KV.
+ * then updates document status to "embedded" in KV. After an embedding migration the
+ * workspace table pointer records the new model's embedder, which is used instead of
+ * the vector store's own model (pass `apiKey` for providers that need one).
  *
  * @param kvState Workspace KV state
  * @param vectorState LanceDB state
@@ -285,6 +322,8 @@ export async function embedDocumentAndUpdateStatus(
   documentId: string,
   options?: {
     embeddingModel?: string;
+    /** API key of the embedder recorded in the workspace table pointer */
+    apiKey?: string;
   },
 ): Promise<WorkspaceDocument | null> {
   const doc = await getDocument(kvState, workspaceId, documentId);
@@ -299,18 +338,25 @@ export async function embedDocumentAndUpdateStatus(
     return doc;
   }
 
+  // After an embedding migration the pointer names the table and its model
+  const vectorTable = await getWorkspaceVectorTable(kvState, workspaceId);
+
   // Create vector document
   const vectorDoc: VectorDocument = {
     id: doc.id,
     content,
+    embedding: await embedForTable(vectorTable, content, options?.apiKey),
     metadata: {
       workspaceId: doc.workspaceId,
       ...doc.metadata,
     },
   };
 
-  // Add to vector store
-  await addWorkspaceDocument(vectorState, workspaceId, vectorDoc);
+  // Add to vector store, replacing the previous embedding when re-embedding
+  await vectorState.upsertDocuments(
+    [vectorDoc],
+    vectorTable?.tableName || `workspace_${workspaceId}`,
+  );
 
   // Update status in KV
   const updated = await updateDocument(kvState, workspaceId, documentId, {
@@ -319,7 +365,8 @@ export async function embedDocumentAndUpdateStatus(
     metadata: {
       ...doc.metadata,
       embedded: true,
-      embeddingModel: options?.embeddingModel || "text-embedding-3-small",
+      embeddingModel: options?.embeddingModel || vectorTable?.embeddingModel ||
+        "text-embedding-3-small",
       updatedAt: new Date().toISOString(),
     },
   });
@@ -366,6 +413,8 @@ export async function createAndEmbedDocument(
   options?: {
     embedImmediately?: boolean;
     embeddingModel?: string;
+    /** API key of the embedder recorded in the workspace table pointer */
+    apiKey?: string;
   },
 ): Promise<WorkspaceDocument> {
   const { addDocument } = await import("./kv-store.ts");
@@ -381,7 +430,7 @@ export async function createAndEmbedDocument(
         vectorState,
         created.workspaceId,
         created.id,
-        { embeddingModel: options?.embeddingModel },
+        { embeddingModel: options?.embeddingModel, apiKey: options?.apiKey },
       );
     } catch (error) {
       logger.error("Failed to embed document immediately", error, {
@@ -427,6 +476,8 @@ export async function reembedIfContentChanged(
   newContent: string,
   options?: {
     embeddingModel?: string;
+    /** API key of the embedder recorded in the workspace table pointer */
+    apiKey?: string;
   },
 ): Promise<boolean> {
   const doc = await getDocument(kvState, workspaceId, documentId);
@@ -453,7 +504,7 @@ export async function reembedIfContentChanged(
     vectorState,
     workspaceId,
     documentId,
-    { embeddingModel: options?.embeddingModel },
+    { embeddingModel: options?.embeddingModel, apiKey: options?.apiKey },
   );
 
   logger.info("Document re-embedded due to content change", { documentId });
@@ -0,0 +1,536 @@
+// Embedding model migration - re-embeds a workspace table into a shadow table,
+// dual-writes while it runs and swaps the workspace table pointer atomically
+
+import type { EmbeddingConfig, VectorDocument, VectorStore } from "../types.ts";
+import { where } from "../vector-store/filter.ts";
+import { createNotFoundError, createValidationError } from "../utils/errors.ts";
+import { createSubLogger } from "../utils/logger.ts";
+import { getWorkspace, listDocuments, resolveWorkspaceTableName } from "./kv-store.ts";
+import type {
+  EmbeddingMigrationCheckpoint,
+  WorkspaceKVState,
+  WorkspaceVectorTable,
+} from "./types.ts";
+
+const logger = createSubLogger("embedding-migration");
+
+const DEFAULT_MIGRATION_BATCH_SIZE = 100;
+// Rows compared per page when reconciling the shadow table before the swap
+const RECONCILE_PAGE_SIZE = 500;
+// Document records per atomic KV commit
+const KV_WRITE_BATCH_SIZE = 100;
+
+/**
+ * Configuration for createEmbeddingMigration
+ */
+export interface EmbeddingMigrationConfig {
+  workspaceId: string;
+  /** Store that embeds with the current model and holds the current table */
+  source: VectorStore;
+  /** Store that embeds with the new model (may share the database with `source`) */
+  target: VectorStore;
+  /** Name of the new embedding model, recorded in the table pointer and document records */
+  targetModel: string;
+  /** Dimensions of the new model, recorded in the table pointer */
+  targetDimensions?: number;
+  /**
+   * Embedding configuration of the new model, recorded in the table pointer without its
+   * API key so coordinator writes embed with the new model after the swap
+   */
+  targetEmbedding?: EmbeddingConfig;
+  /** Shadow table name (default: `workspace_{id}_{model}`) */
+  targetTable?: string;
+  /** Rows re-embedded per batch (default: 100) */
+  batchSize?: number;
+}
+
+/**
+ * Embedding migration of one workspace
+ */
+export interface EmbeddingMigration {
+  /**
+   * Vector store to use while the migration runs: calls on the shadow table go to the
+   * target store, everything else to the source store, and writes to the current table
+   * are mirrored to the shadow table (re-embedded with the new model). The tables are
+   * read from the KV checkpoint on every call, so stores of other workers and processes
+   * mirror as soon as the migration starts and stop once it completes or aborts.
+   */
+  vectorStore: VectorStore;
+  /** Creates the shadow table and checkpoint, or resumes an unfinished migration */
+  start(): Promise<EmbeddingMigrationCheckpoint>;
+  /** Re-embeds the next batch and checkpoints it; status becomes "copied" after the last one */
+  runBatch(): Promise<EmbeddingMigrationCheckpoint>;
+  /** Runs batches until all rows are copied or the signal aborts */
+  run(options?: {
+    signal?: AbortSignal;
+    onProgress?: (checkpoint: EmbeddingMigrationCheckpoint) => void;
+  }): Promise<EmbeddingMigrationCheckpoint>;
+  /** Reconciles the shadow table with the current table and swaps the workspace pointer */
+  complete(options?: { dropSourceTable?: boolean }): Promise<EmbeddingMigrationCheckpoint>;
+  /** Cancels the migration; the workspace keeps using the current table */
+  abort(options?: { dropTargetTable?: boolean }): Promise<void>;
+  /** Current checkpoint, or null if no migration was started */
+  getCheckpoint(): Promise<EmbeddingMigrationCheckpoint | null>;
+}
+
+const checkpointKey = (workspaceId: string): Deno.KvKey => [
+  "workspaces",
+  workspaceId,
+  "embedding_migration",
+];
+
+const vectorTableKey = (workspaceId: string): Deno.KvKey => [
+  "workspaces",
+  workspaceId,
+  "vector_table",
+];
+
+// Targets embed content themselves; source vectors have the old model's dimensions
+const withoutEmbedding = (doc: VectorDocument): VectorDocument => ({
+  id: doc.id,
+  content: doc.content,
+  metadata: doc.metadata,
+});
+
+// JSON with sorted keys and without null/undefined fields, which stores return differently
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== null && field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// Hash of what a row is embedded from and filtered by
+const contentHash = async (doc: VectorDocument): Promise<string> => {
+  const text = canonicalJson({ content: doc.content, metadata: doc.metadata });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
+// The table pointer is stored in KV, so the API key is left out
+const storedEmbeddingConfig = (
+  embedding?: EmbeddingConfig,
+): WorkspaceVectorTable["embedding"] => {
+  if (!embedding) return undefined;
+  const { apiKey: _apiKey, rateLimit: _rateLimit, ...stored } = embedding;
+  return stored;
+};
+
+/**
+ * Get the embedding migration checkpoint of a workspace
+ *
+ * @returns Latest checkpoint, or null if the workspace was never migrated
+ */
+export async function getEmbeddingMigrationCheckpoint(
+  kvState: WorkspaceKVState,
+  workspaceId: string,
+): Promise<EmbeddingMigrationCheckpoint | null> {
+  const result = await kvState.kv.get<EmbeddingMigrationCheckpoint>(checkpointKey(workspaceId));
+  return result.value;
+}
+
+/**
+ * Creates an embedding model migration for a workspace.
+ *
+ * The migration copies the workspace's current vector table into a shadow table,
+ * re-embedding every row with the target store's model in resumable batches. The
+ * listDocuments cursor is checkpointed in KV after each batch, so a crashed or
+ * redeployed worker continues where it stopped. While it runs, pass
+ * `migration.vectorStore` to the coordinator functions so new and changed documents
+ * are written to both tables. `complete()` re-embeds rows the shadow table is missing
+ * or holds an outdated version of (compared by content hash), removes rows deleted
+ * meanwhile and then swaps the workspace's table pointer in one atomic KV commit; from
+ * then on the workspace must be served by the target store, and coordinator writes
+ * embed with `targetEmbedding` from the pointer.
+ *
+ * @param kvState Workspace KV state
+ * @param config Workspace, source and target stores and the new model
+ * @returns Embedding migration
+ *
+ * @example
+ * ```ts
+ * const target = await createLanceDB(
+ *   { provider: "lancedb", path: "./vectors", dimensions: 3072 },
+ *   { provider: "openai", apiKey, model: "text-embedding-3-large", dimensions: 3072 },
+ * );
+ * const migration = createEmbeddingMigration(kvStore, {
+ *   workspaceId: "ws_123",
+ *   source: vectorStore,
+ *   target,
+ *   targetModel: "text-embedding-3-large",
+ *   targetDimensions: 3072,
+ *   targetEmbedding: {
+ *     provider: "openai",
+ *     apiKey,
+ *     model: "text-embedding-3-large",
+ *     dimensions: 3072,
+ *   },
+ * });
+ *
+ * await migration.start();
+ * await migration.run({ onProgress: (c) => console.log(`${c.migrated} rows`) });
+ * await migration.complete({ dropSourceTable: true });
+ * ```
+ */
+export function createEmbeddingMigration(
+  kvState: WorkspaceKVState,
+  config: EmbeddingMigrationConfig,
+): EmbeddingMigration {
+  const { workspaceId, source, target } = config;
+  const kv = kvState.kv;
+  const batchSize = config.batchSize || DEFAULT_MIGRATION_BATCH_SIZE;
+  const modelSlug = config.targetModel.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+  const defaultTargetTable = config.targetTable || `workspace_${workspaceId}_${modelSlug}`;
+
+  async function getCheckpointEntry(): Promise<
+    Deno.KvEntryMaybe<EmbeddingMigrationCheckpoint>
+  > {
+    return await kv.get<EmbeddingMigrationCheckpoint>(checkpointKey(workspaceId));
+  }
+
+  async function requireCheckpoint(
+    ...statuses: EmbeddingMigrationCheckpoint["status"][]
+  ): Promise<Deno.KvEntry<EmbeddingMigrationCheckpoint>> {
+    const entry = await getCheckpointEntry();
+    if (!entry.value) {
+      throw createNotFoundError("No embedding migration was started", { workspaceId });
+    }
+    if (!statuses.includes(entry.value.status)) {
+      throw createValidationError(`Embedding migration is ${entry.value.status}`, {
+        workspaceId,
+        expected: statuses,
+      });
+    }
+    return entry as Deno.KvEntry<EmbeddingMigrationCheckpoint>;
+  }
+
+  // Saves a checkpoint unless another worker changed it since it was read
+  async function saveCheckpoint(
+    previous: Deno.KvEntry<EmbeddingMigrationCheckpoint>,
+    checkpoint: EmbeddingMigrationCheckpoint,
+  ): Promise<EmbeddingMigrationCheckpoint> {
+    const result = await kv.atomic()
+      .check(previous)
+      .set(checkpointKey(workspaceId), checkpoint)
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Embedding migration checkpoint changed concurrently: ${workspaceId}`);
+    }
+    return checkpoint;
+  }
+
+  // Re-embeds source rows missing from the shadow table or changed since they were copied
+  // (a failed dual-write), and drops rows deleted from the source
+  async function reconcile(sourceTable: string, targetTable: string): Promise<void> {
+    let restored = 0;
+    let removed = 0;
+
+    let cursor: string | undefined;
+    do {
+      const page = await source.listDocuments({ limit: RECONCILE_PAGE_SIZE, cursor }, sourceTable);
+      const copies = await target.getDocuments(page.documents.map((doc) => doc.id), targetTable);
+      const copiedHashes = new Map(
+        await Promise.all(copies.map(async (doc) => [doc.id, await contentHash(doc)] as const)),
+      );
+      const stale: VectorDocument[] = [];
+      for (const doc of page.documents) {
+        if (copiedHashes.get(doc.id) !== await contentHash(doc)) stale.push(doc);
+      }
+      if (stale.length > 0) {
+        await target.upsertDocuments(stale.map(withoutEmbedding), targetTable);
+        restored += stale.length;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    // Collect first: deleting while paging would shift offset cursors
+    const deletedIds: string[] = [];
+    do {
+      const page = await target.listDocuments({ limit: RECONCILE_PAGE_SIZE, cursor }, targetTable);
+      const present = new Set(
+        (await source.getDocuments(page.documents.map((doc) => doc.id), sourceTable))
+          .map((doc) => doc.id),
+      );
+      deletedIds.push(...page.documents.filter((doc) => !present.has(doc.id)).map((doc) => doc.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    for (let i = 0; i < deletedIds.length; i += RECONCILE_PAGE_SIZE) {
+      removed += await target.deleteWhere(
+        where.in("id", deletedIds.slice(i, i + RECONCILE_PAGE_SIZE)),
+        targetTable,
+      );
+    }
+
+    logger.info("Reconciled shadow table", { workspaceId, targetTable, restored, removed });
+  }
+
+  async function updateDocumentModels(): Promise<void> {
+    const documents = await listDocuments(kvState, workspaceId);
+    for (let i = 0; i < documents.length; i += KV_WRITE_BATCH_SIZE) {
+      const atomic = kv.atomic();
+      for (const doc of documents.slice(i, i + KV_WRITE_BATCH_SIZE)) {
+        atomic.set(["documents", workspaceId, doc.id], {
+          ...doc,
+          metadata: { ...doc.metadata, embeddingModel: config.targetModel },
+        });
+      }
+      await atomic.commit();
+    }
+  }
+
+  const start = async (): Promise<EmbeddingMigrationCheckpoint> => {
+    if (!(await getWorkspace(kvState, workspaceId))) {
+      throw createNotFoundError(`Workspace '${workspaceId}' was not found`, { workspaceId });
+    }
+
+    const existing = await getCheckpointEntry();
+    if (existing.value && ["running", "copied"].includes(existing.value.status)) {
+      if (existing.value.targetModel !== config.targetModel) {
+        throw createValidationError("Another embedding migration is in progress", {
+          workspaceId,
+          targetModel: existing.value.targetModel,
+        });
+      }
+      logger.info("Resuming embedding migration", {
+        workspaceId,
+        migrated: existing.value.migrated,
+      });
+      return existing.value;
+    }
+
+    const sourceTable = await resolveWorkspaceTableName(kvState, workspaceId);
+    const targetTable = defaultTargetTable;
+    if (targetTable === sourceTable) {
+      throw createValidationError("Shadow table must differ from the current table", {
+        workspaceId,
+        tableName: targetTable,
+      });
+    }
+
+    // The first row defines the shadow table's schema; the first batch re-embeds it
+    const { documents } = await source.listDocuments({ limit: 1 }, sourceTable);
+    await target.createTable(
+      targetTable,
+      documents[0] ? withoutEmbedding(documents[0]) : undefined,
+    );
+
+    const now = new Date().toISOString();
+    const checkpoint: EmbeddingMigrationCheckpoint = {
+      workspaceId,
+      status: "running",
+      sourceTable,
+      targetTable,
+      targetModel: config.targetModel,
+      targetDimensions: config.targetDimensions,
+      migrated: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    const result = await kv.atomic()
+      .check(existing)
+      .set(checkpointKey(workspaceId), checkpoint)
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Embedding migration was started concurrently: ${workspaceId}`);
+    }
+
+    logger.info("Started embedding migration", {
+      workspaceId,
+      sourceTable,
+      targetTable,
+      targetModel: config.targetModel,
+    });
+    return checkpoint;
+  };
+
+  const runBatch = async (): Promise<EmbeddingMigrationCheckpoint> => {
+    const entry = await requireCheckpoint("running", "copied");
+    const checkpoint = entry.value;
+    if (checkpoint.status === "copied") return checkpoint;
+
+    const page = await source.listDocuments(
+      { limit: batchSize, cursor: checkpoint.cursor },
+      checkpoint.sourceTable,
+    );
+    if (page.documents.length > 0) {
+      await target.upsertDocuments(page.documents.map(withoutEmbedding), checkpoint.targetTable);
+    }
+
+    const next = await saveCheckpoint(entry, {
+      ...checkpoint,
+      status: page.nextCursor ? "running" : "copied",
+      cursor: page.nextCursor,
+      migrated: checkpoint.migrated + page.documents.length,
+      updatedAt: new Date().toISOString(),
+    });
+    logger.debug("Migrated batch", { workspaceId, migrated: next.migrated, status: next.status });
+    return next;
+  };
+
+  const run = async (
+    options: {
+      signal?: AbortSignal;
+      onProgress?: (checkpoint: EmbeddingMigrationCheckpoint) => void;
+    } = {},
+  ): Promise<EmbeddingMigrationCheckpoint> => {
+    let checkpoint = (await requireCheckpoint("running", "copied")).value;
+    while (checkpoint.status === "running" && !options.signal?.aborted) {
+      checkpoint = await runBatch();
+      options.onProgress?.(checkpoint);
+    }
+    return checkpoint;
+  };
+
+  const complete = async (
+    options: { dropSourceTable?: boolean } = {},
+  ): Promise<EmbeddingMigrationCheckpoint> => {
+    const { sourceTable, targetTable } = (await requireCheckpoint("copied")).value;
+    await reconcile(sourceTable, targetTable);
+
+    // Swap the pointer and finish the checkpoint in one commit
+    const entry = await requireCheckpoint("copied");
+    const pointer = await kv.get<WorkspaceVectorTable>(vectorTableKey(workspaceId));
+    const now = new Date().toISOString();
+    const completed: EmbeddingMigrationCheckpoint = {
+      ...entry.value,
+      status: "completed",
+      updatedAt: now,
+      completedAt: now,
+    };
+    const result = await kv.atomic()
+      .check(entry, pointer)
+      .set(
+        vectorTableKey(workspaceId),
+        {
+          tableName: targetTable,
+          embeddingModel: config.targetModel,
+          dimensions: config.targetDimensions,
+          embedding: storedEmbeddingConfig(config.targetEmbedding),
+          updatedAt: now,
+        } satisfies WorkspaceVectorTable,
+      )
+      .set(checkpointKey(workspaceId), completed)
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Workspace table pointer changed concurrently: ${workspaceId}`);
+    }
+    logger.info("Swapped workspace vector table", { workspaceId, sourceTable, targetTable });
+
+    await updateDocumentModels();
+    if (options.dropSourceTable) {
+      await source.deleteTable(sourceTable);
+      logger.info("Dropped replaced vector table", { workspaceId, tableName: sourceTable });
+    }
+    return completed;
+  };
+
+  const abort = async (options: { dropTargetTable?: boolean } = {}): Promise<void> => {
+    const entry = await requireCheckpoint("running", "copied");
+    await saveCheckpoint(entry, {
+      ...entry.value,
+      status: "aborted",
+      updatedAt: new Date().toISOString(),
+    });
+    if (options.dropTargetTable) {
+      await target.deleteTable(entry.value.targetTable);
+    }
+    logger.info("Aborted embedding migration", { workspaceId });
+  };
+
+  const getCheckpoint = async (): Promise<EmbeddingMigrationCheckpoint | null> => {
+    return (await getCheckpointEntry()).value;
+  };
+
+  // Dual-write store: the tables come from the KV checkpoint, shared by all workers
+
+  // Shadow table of a started (or completed) migration
+  async function shadowTable(): Promise<string | undefined> {
+    const checkpoint = (await getCheckpointEntry()).value;
+    return checkpoint && checkpoint.status !== "aborted" ? checkpoint.targetTable : undefined;
+  }
+
+  const routeTo = async (tableName?: string): Promise<VectorStore> =>
+    tableName !== undefined && tableName === await shadowTable() ? target : source;
+
+  // Mirrors a write on the current table to the shadow table; failures are repaired by complete()
+  async function mirror(
+    tableName: string | undefined,
+    write: (targetTable: string) => Promise<unknown>,
+  ): Promise<void> {
+    const checkpoint = (await getCheckpointEntry()).value;
+    if (
+      !checkpoint || !["running", "copied"].includes(checkpoint.status) ||
+      (tableName || "") !== checkpoint.sourceTable
+    ) {
+      return;
+    }
+    try {
+      await write(checkpoint.targetTable);
+    } catch (error) {
+      logger.error("Dual-write to shadow table failed", error, {
+        workspaceId,
+        targetTable: checkpoint.targetTable,
+      });
+    }
+  }
+
+  const vectorStore: VectorStore = {
+    addDocument: async (doc, tableName) => {
+      await (await routeTo(tableName)).addDocument(doc, tableName);
+      await mirror(tableName, (t) => target.upsertDocuments([withoutEmbedding(doc)], t));
+    },
+    addDocuments: async (docs, tableName) => {
+      await (await routeTo(tableName)).addDocuments(docs, tableName);
+      await mirror(tableName, (t) => target.upsertDocuments(docs.map(withoutEmbedding), t));
+    },
+    upsertDocuments: async (docs, tableName) => {
+      await (await routeTo(tableName)).upsertDocuments(docs, tableName);
+      await mirror(tableName, (t) => target.upsertDocuments(docs.map(withoutEmbedding), t));
+    },
+    updateDocument: async (doc, tableName) => {
+      await (await routeTo(tableName)).updateDocument(doc, tableName);
+      await mirror(tableName, (t) => target.upsertDocuments([withoutEmbedding(doc)], t));
+    },
+    deleteDocument: async (id, tableName) => {
+      await (await routeTo(tableName)).deleteDocument(id, tableName);
+      await mirror(tableName, (t) => target.deleteDocument(id, t));
+    },
+    deleteWhere: async (filter, tableName) => {
+      const deleted = await (await routeTo(tableName)).deleteWhere(filter, tableName);
+      await mirror(tableName, (t) => target.deleteWhere(filter, t));
+      return deleted;
+    },
+    clear: async (tableName) => {
+      await (await routeTo(tableName)).clear(tableName);
+      await mirror(tableName, (t) => target.clear(t));
+    },
+    search: async (query, options, tableName) =>
+      (await routeTo(tableName)).search(query, options, tableName),
+    searchByEmbedding: async (embedding, options, tableName) =>
+      (await routeTo(tableName)).searchByEmbedding(embedding, options, tableName),
+    getDocument: async (id, tableName) => (await routeTo(tableName)).getDocument(id, tableName),
+    getDocuments: async (ids, tableName) => (await routeTo(tableName)).getDocuments(ids, tableName),
+    countWhere: async (filter, tableName) =>
+      (await routeTo(tableName)).countWhere(filter, tableName),
+    listDocuments: async (options, tableName) =>
+      (await routeTo(tableName)).listDocuments(options, tableName),
+    exportTable: async (options, tableName) =>
+      (await routeTo(tableName)).exportTable(options, tableName),
+    importTable: async (input, options, tableName) =>
+      (await routeTo(tableName)).importTable(input, options, tableName),
+    createTable: async (tableName, schemaDocument) =>
+      (await routeTo(tableName)).createTable(tableName, schemaDocument),
+    deleteTable: async (tableName) => (await routeTo(tableName)).deleteTable(tableName),
+    getStats: async (tableName) => (await routeTo(tableName)).getStats(tableName),
+    listTables: () => source.listTables(),
+  };
+
+  return { vectorStore, start, runBatch, run, complete, abort, getCheckpoint };
+}
@@ -0,0 +1,149 @@
+import { assert, assertEquals } from "@std/assert";
+import { createLocalEmbeddings } from "../embeddings/local.ts";
+import { createHashEmbeddings } from "../testing/mock-embeddings.ts";
+import { createMemoryVectorStore } from "../vector-store/memory.ts";
+import { embedDocumentAndUpdateStatus } from "./coordinator.ts";
+import { createEmbeddingMigration } from "./embedding-migration.ts";
+import {
+  addDocument,
+  createWorkspace,
+  createWorkspaceKV,
+  getWorkspaceVectorTable,
+} from "./kv-store.ts";
+
+const SOURCE_DIMENSIONS = 8;
+const TARGET_DIMENSIONS = 16;
+const TARGET_EMBEDDING = {
+  provider: "local" as const,
+  apiKey: "secret",
+  model: "local-16",
+  dimensions: TARGET_DIMENSIONS,
+};
+
+const createEnvironment = async () => {
+  const kvState = await createWorkspaceKV({ provider: "deno-kv", path: ":memory:" });
+  const source = await createMemoryVectorStore(
+    { provider: "memory", dimensions: SOURCE_DIMENSIONS },
+    createHashEmbeddings({ dimensions: SOURCE_DIMENSIONS }),
+  );
+  const target = await createMemoryVectorStore(
+    { provider: "memory", dimensions: TARGET_DIMENSIONS },
+    createHashEmbeddings({ dimensions: TARGET_DIMENSIONS }),
+  );
+  const workspace = await createWorkspace(kvState, {
+    name: "Building codes",
+    description: "Fire safety",
+  });
+  const sourceTable = `workspace_${workspace.id}`;
+  await source.createTable(sourceTable);
+  await source.addDocuments([
+    { id: "chunk-0", content: "fire exits", metadata: { page: 1 } },
+    { id: "chunk-1", content: "fire doors", metadata: { page: 2 } },
+    { id: "chunk-2", content: "sprinklers", metadata: { page: 3 } },
+  ], sourceTable);
+
+  const createMigration = () =>
+    createEmbeddingMigration(kvState, {
+      workspaceId: workspace.id,
+      source,
+      target,
+      targetModel: "local-16",
+      targetDimensions: TARGET_DIMENSIONS,
+      targetEmbedding: TARGET_EMBEDDING,
+      batchSize: 2,
+    });
+  return { kvState, source, target, workspaceId: workspace.id, sourceTable, createMigration };
+};
+
+const withEnvironment = async (
+  fn: (env: Awaited<ReturnType<typeof createEnvironment>>) => Promise<void>,
+): Promise<void> => {
+  const env = await createEnvironment();
+  try {
+    await fn(env);
+  } finally {
+    env.kvState.kv.close();
+  }
+};
+
+Deno.test("embedding migration dual-writes from stores that did not start it", async () => {
+  await withEnvironment(async ({ target, sourceTable, createMigration }) => {
+    const migration = createMigration();
+    // Another worker's store, created before the migration started
+    const worker = createMigration().vectorStore;
+    const { targetTable } = await migration.start();
+
+    await worker.upsertDocuments([{ id: "chunk-3", content: "alarms" }], sourceTable);
+    assertEquals((await target.getDocument("chunk-3", targetTable))?.content, "alarms");
+
+    await migration.abort();
+    await worker.upsertDocuments([{ id: "chunk-4", content: "hoses" }], sourceTable);
+    assertEquals(await target.getDocument("chunk-4", targetTable), null);
+  });
+});
+
+Deno.test("embedding migration completion re-embeds rows changed after they were copied", async () => {
+  await withEnvironment(async ({ source, target, sourceTable, createMigration }) => {
+    const migration = createMigration();
+    const { targetTable } = await migration.start();
+    await migration.run();
+
+    // Writes that bypassed the dual-write store
+    await source.upsertDocuments([
+      { id: "chunk-0", content: "fire exits", metadata: { page: 10 } },
+      { id: "chunk-1", content: "fire doors and stairs", metadata: { page: 2 } },
+      { id: "chunk-5", content: "smoke detectors" },
+    ], sourceTable);
+    await source.deleteDocument("chunk-2", sourceTable);
+
+    const completed = await migration.complete();
+    assertEquals(completed.status, "completed");
+
+    const { documents } = await target.listDocuments({}, targetTable);
+    assertEquals(
+      documents.map((doc) => [doc.id, doc.content, doc.metadata?.page]),
+      [
+        ["chunk-0", "fire exits", 10],
+        ["chunk-1", "fire doors and stairs", 2],
+        ["chunk-5", "smoke detectors", undefined],
+      ],
+    );
+  });
+});
+
+Deno.test("coordinator writes embed with the table pointer's embedder after the swap", async () => {
+  await withEnvironment(async ({ kvState, target, workspaceId, createMigration }) => {
+    const migration = createMigration();
+    const { targetTable } = await migration.start();
+    await migration.run();
+    await migration.complete();
+
+    const pointer = await getWorkspaceVectorTable(kvState, workspaceId);
+    assertEquals(pointer?.tableName, targetTable);
+    assertEquals(pointer?.embedding?.model, "local-16");
+    assert(!("apiKey" in (pointer?.embedding ?? {})), "API key must not be stored in KV");
+
+    const doc = await addDocument(kvState, {
+      workspaceId,
+      name: "exits.txt",
+      originalName: "exits.txt",
+      storageKey: "uploads/exits.txt",
+      fileSize: 12,
+      mimeType: "text/plain",
+      status: "uploaded",
+      uploadedAt: new Date().toISOString(),
+      metadata: { content: "emergency exits" },
+    });
+    const updated = await embedDocumentAndUpdateStatus(
+      kvState,
+      migration.vectorStore,
+      workspaceId,
+      doc.id,
+    );
+    assertEquals(updated?.status, "embedded");
+    assertEquals(updated?.metadata?.embeddingModel, "local-16");
+
+    const expected = await createLocalEmbeddings(TARGET_EMBEDDING).embedText("emergency exits");
+    assertEquals((await target.getDocument(doc.id, targetTable))?.embedding, expected);
+  });
+});
@@ -10,6 +10,7 @@ import type {
   WorkspaceKVState,
   WorkspaceStats,
   WorkspaceStoreConfig,
+  WorkspaceVectorTable,
 } from "./types.ts";
 import { createSubLogger } from "../utils/logger.ts";
 
@@ -205,10 +206,17 @@ export async function deleteWorkspace(
   for await (const entry of docEntries) {
     documentKeys.push(entry.key);
   }
+  // Schema versions of the workspace's registered tables
+  const schemaEntries = state.kv.list({ prefix: ["workspaces", workspaceId, "table_schemas"] });
+  for await (const entry of schemaEntries) {
+    documentKeys.push(entry.key);
+  }
 
-  // Atomic deletion of workspace and all documents
+  // Atomic deletion of workspace, its vector table pointer, table schemas and all documents
   let atomic = state.kv.atomic();
   atomic = atomic.delete(["workspaces", workspaceId]);
+  atomic = atomic.delete(["workspaces", workspaceId, "vector_table"]);
+  atomic = atomic.delete(["workspaces", workspaceId, "embedding_migration"]);
   for (const key of documentKeys) {
     atomic = atomic.delete(key);
   }
@@ -223,6 +231,42 @@ export async function deleteWorkspace(
   return true;
 }
 
+/**
+ * Get the vector table pointer of a workspace
+ *
+ * @returns Pointer set by an embedding migration, or null for the default table
+ */
+export async function getWorkspaceVectorTable(
+  state: WorkspaceKVState,
+  workspaceId: string,
+): Promise<WorkspaceVectorTable | null> {
+  const result = await state.kv.get<WorkspaceVectorTable>([
+    "workspaces",
+    workspaceId,
+    "vector_table",
+  ]);
+  return result.value;
+}
+
+/**
+ * Resolve the name of the vector table a workspace currently uses
+ *
+ * @returns Table from the workspace pointer, or `workspace_{id}` if none is set
+ *
+ * @example
+ * ```ts
+ * const tableName = await resolveWorkspaceTableName(kvStore, "ws_123");
+ * const results = await vectorStore.search("fire exits", {}, tableName);
+ * ```
+ */
+export async function resolveWorkspaceTableName(
+  state: WorkspaceKVState,
+  workspaceId: string,
+): Promise<string> {
+  const pointer = await getWorkspaceVectorTable(state, workspaceId);
+  return pointer?.tableName || `workspace_${workspaceId}`;
+}
+
 // ============================================================================
 // DOCUMENT REGISTRY OPERATIONS (metadata only, files stored separately)
 // ============================================================================
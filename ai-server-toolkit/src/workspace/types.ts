@@ -1,6 +1,8 @@
 // Workspace management types for multi-tenant AI systems
 // These types define workspace metadata, documents, and storage configuration
 
+import type { EmbeddingConfig } from "../types.ts";
+
 /**
  * Core workspace metadata stored in KV store
  */
@@ -96,3 +98,46 @@ export interface WorkspaceKVState {
   kv: Deno.Kv;
   config: WorkspaceStoreConfig;
 }
+
+/**
+ * Vector table a workspace currently reads and writes (stored in KV)
+ *
+ * Workspaces without a pointer use the default `workspace_{id}` table.
+ */
+export interface WorkspaceVectorTable {
+  tableName: string;
+  embeddingModel?: string;
+  dimensions?: number;
+  /** Embedder of the table's model, without credentials; coordinator writes embed with it */
+  embedding?: Omit<EmbeddingConfig, "apiKey" | "rateLimit">;
+  updatedAt: string;
+}
+
+/**
+ * Embedding migration state
+ *
+ * - running: rows are being re-embedded into the shadow table
+ * - copied: all rows were copied, ready to complete
+ * - completed: the workspace table pointer was swapped to the shadow table
+ * - aborted: the migration was cancelled
+ */
+export type EmbeddingMigrationStatus = "running" | "copied" | "completed" | "aborted";
+
+/**
+ * Embedding migration checkpoint (stored in KV, updated after every batch)
+ */
+export interface EmbeddingMigrationCheckpoint {
+  workspaceId: string;
+  status: EmbeddingMigrationStatus;
+  sourceTable: string;
+  targetTable: string;
+  targetModel: string;
+  targetDimensions?: number;
+  /** listDocuments cursor of the next source batch */
+  cursor?: string;
+  /** Rows re-embedded so far */
+  migrated: number;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}